@@ -0,0 +1,196 @@
+/**
+ * Authentication and roles
+ *
+ * Users log in with a username and password (passport-local) and get a
+ * session cookie (express-session backed by memorystore). Accounts come from
+ * a JSON file at AUTH_CONFIG.USERS_FILE:
+ *   { "users": [{ "username": "alice", "role": "admin", "passwordHash": "scrypt$<salt>$<key>" }] }
+ * Hashes are produced with `npm run hash-password`.
+ *
+ * Read routes stay public; `requireRole` guards the rest. Roles are ordered,
+ * so an admin may do everything a viewer may.
+ */
+import { readFileSync } from "node:fs";
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { AUTH_CONFIG } from "./config";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const ROLES = ["viewer", "admin"] as const;
+
+export type Role = typeof ROLES[number];
+
+interface UserRecord {
+  username: string;
+  role: Role;
+  passwordHash: string;
+}
+
+declare global {
+  namespace Express {
+    interface User {
+      username: string;
+      role: Role;
+    }
+  }
+}
+
+/**
+ * Hash a password as "scrypt$<salt hex>$<key hex>"
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, AUTH_CONFIG.PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  if (expected.length === 0) return false;
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Read the users file; without one nobody can log in and every guarded route is refused
+ */
+function loadUsers(filePath: string): Map<string, UserRecord> {
+  const users = new Map<string, UserRecord>();
+
+  let parsed: { users?: unknown };
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      console.warn(`Auth: No users file at ${filePath}; logins are disabled`);
+      return users;
+    }
+    throw new Error(`Auth: Failed to read users file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed.users)) {
+    throw new Error(`Auth: ${filePath} must contain a "users" array`);
+  }
+
+  for (const user of parsed.users as Partial<UserRecord>[]) {
+    if (
+      typeof user.username !== "string" ||
+      typeof user.passwordHash !== "string" ||
+      !ROLES.includes(user.role as Role)
+    ) {
+      throw new Error(`Auth: Invalid user entry in ${filePath} (needs username, passwordHash and role ${ROLES.join("/")})`);
+    }
+    users.set(user.username, { username: user.username, role: user.role as Role, passwordHash: user.passwordHash });
+  }
+
+  console.log(`Auth: Loaded ${users.size} users from ${filePath}`);
+  return users;
+}
+
+/**
+ * Install session and passport middleware plus the /api/auth routes
+ */
+export function setupAuth(app: Express): void {
+  const users = loadUsers(AUTH_CONFIG.USERS_FILE);
+  const MemoryStore = createMemoryStore(session);
+
+  let secret = AUTH_CONFIG.SESSION_SECRET;
+  if (!secret) {
+    console.warn("Auth: SESSION_SECRET is not set; sessions will not survive a restart");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.use(session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: AUTH_CONFIG.SESSION_PRUNE_INTERVAL }),
+    cookie: { httpOnly: true, sameSite: "lax", maxAge: AUTH_CONFIG.SESSION_MAX_AGE },
+  }));
+
+  passport.use(new LocalStrategy((username, password, done) => {
+    const user = users.get(username);
+    if (!user) {
+      done(null, false);
+      return;
+    }
+    verifyPassword(password, user.passwordHash).then(
+      (valid) => done(null, valid ? { username: user.username, role: user.role } : false),
+      (error) => done(error),
+    );
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.username));
+  passport.deserializeUser((username: string, done) => {
+    // Users removed from the file lose their sessions on the next restart
+    const user = users.get(username);
+    done(null, user ? { username: user.username, role: user.role } : false);
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        next(error);
+        return;
+      }
+
+      if (!user) {
+        res.status(401).json({ error: "Invalid username or password" });
+        return;
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) {
+          next(loginError);
+          return;
+        }
+        res.json({ user });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) {
+        next(error);
+        return;
+      }
+      res.json({ user: null });
+    });
+  });
+
+  app.get("/api/auth/session", (req, res) => {
+    res.json({ user: req.user ?? null });
+  });
+}
+
+/**
+ * Allow the request only for a logged-in user with at least `role`
+ */
+export function requireRole(role: Role): RequestHandler {
+  return (req, res, next) => {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    if (ROLES.indexOf(req.user.role) < ROLES.indexOf(role)) {
+      res.status(403).json({ error: `Requires the ${role} role` });
+      return;
+    }
+
+    next();
+  };
+}
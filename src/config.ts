@@ -1,9 +1,11 @@
 /**
  * Centralized configuration for the world simulation
  */
+import { availableParallelism } from "node:os";
 
 // World Generation Configuration
 export interface WorldConfig {
+    seed: number;
     gridSize: number;
     noiseScale: number;
     numberOfSprings: number;
@@ -11,16 +13,22 @@ export interface WorldConfig {
     maxHeight: number;
     springMinHeight: number;
     springMaxHeight: number;
+    seaLevel: number;
 }
 
 export const DEFAULT_WORLD_CONFIG: WorldConfig = {
+    // Same seed + tick count reproduces the same world; random per boot unless pinned
+    seed: process.env.WORLD_SEED
+        ? parseInt(process.env.WORLD_SEED, 10) >>> 0
+        : Math.floor(Math.random() * 0x100000000),
     gridSize: 2000,
-    noiseScale: 0.001, // Adjusted for larger world size
-    numberOfSprings: 150,
+    noiseScale: 0, // Base noise frequency; 0 = scale with world area (gridSize² / 1,000,000)
+    numberOfSprings: 0, // Max springs placed; 0 = two per 100 cells of grid width
     minHeight: -200,
     maxHeight: 2000, // Matches Unity MAX_HEIGHT_VALUE
     springMinHeight: 1000,
     springMaxHeight: 1900,
+    seaLevel: 0, // Connected terrain below this floods into ocean
 };
 
 // Time System Configuration
@@ -30,6 +38,20 @@ export const TIME_CONFIG = {
     MONTHS_PER_YEAR: 12,
 };
 
+// Each simulation tick advances the clock by one in-game hour
+export const TICKS_PER_YEAR = TIME_CONFIG.HOURS_PER_DAY * TIME_CONFIG.DAYS_PER_MONTH * TIME_CONFIG.MONTHS_PER_YEAR;
+
+// Simulation Loop Configuration
+export const SIMULATION_CONFIG = {
+    DEFAULT_INTERVAL: process.env.SIMULATION_INTERVAL
+        ? parseInt(process.env.SIMULATION_INTERVAL, 10)
+        : 1000 * 60,             // Tick interval in ms (60 seconds)
+    MIN_INTERVAL: 100,           // Fastest interval accepted at runtime
+    MAX_INTERVAL: 1000 * 60 * 60 * 24, // Slowest interval accepted at runtime (1 day)
+    MAX_STEP_TICKS: 1000,        // Max ticks per manual step request
+    START_PAUSED: process.env.SIMULATION_START_PAUSED === "true",
+};
+
 // Viewport + Minimap Configuration
 export const VIEWPORT_CONFIG = {
     MAX_VIEWPORT_SIZE: 200,      // Max cells per dimension
@@ -37,12 +59,44 @@ export const VIEWPORT_CONFIG = {
     MINIMAP_CACHE_TTL: 60000,    // Cache time in ms
 };
 
+// Map Tile Configuration
+export const TILES_CONFIG = {
+    TILE_SIZE: 256,              // Pixels per tile edge (at max zoom one pixel is one cell)
+};
+
+// Live Update (WebSocket) Configuration
+export const LIVE_UPDATES_CONFIG = {
+    PATH: "/ws",                 // WebSocket endpoint on the HTTP server
+    HEARTBEAT_INTERVAL: 30000,   // Ping interval in ms (drops dead connections)
+    MAX_BUFFERED_BYTES: 8 * 1024 * 1024, // Skip pushes to clients that are this far behind
+};
+
 // Erosion Configuration
 export const EROSION_CONFIG = {
     EROSION_RATE_WATER: 0.0001, // 0.1mm per hour
     EROSION_RATE_WIND: 0.0001,  // 0.1mm per hour
 };
 
+// Standing Water (Ocean + Lakes) Configuration
+export const WATER_BODY_CONFIG = {
+    MIN_OCEAN_CELLS: 500,        // Below-sea-level basins smaller than this stay dry land
+    MAX_LAKE_CELLS: 50000,       // Depression filling stops growing a lake past this size
+};
+
+// Surface Runoff + River Channel Configuration (flow in water height x cells per tick)
+export const HYDROLOGY_CONFIG = {
+    SPRING_FLOW: 0.5,              // Water a spring feeds into its river every tick
+    RAIN_RUNOFF_FRACTION: 0.2,     // Share of rain on land that runs off instead of soaking in
+    SATURATED_WETNESS: 0.8,        // Ground wetness above this drains as runoff
+    SATURATION_DRAIN_RATE: 0.1,    // Share of the excess wetness drained per tick
+    FLOW_RESPONSE: 0.05,           // Share of the gap to this tick's flow that surface_flow closes per tick
+    CHANNEL_FLOW_THRESHOLD: 0.4,   // surface_flow that carves a river channel
+    CHANNEL_KEEP_FRACTION: 0.5,    // Channels stop being fed below this share of the threshold
+    DEPTH_PER_FLOW: 0.6,           // Channel depth (m) per square root of surface_flow
+    MAX_CHANNEL_DEPTH: 5,          // m
+    CHANNEL_FILL_RATE: 0.2,        // Share of the gap to the target depth filled or drained per tick
+};
+
 // Moisture System Configuration
 export const MOISTURE_CONFIG = {
     // Base moisture transfer
@@ -170,6 +224,191 @@ export const GRASS_CONFIG = {
     SEED_MOISTURE_THRESHOLD: 0.2,   // Minimum moisture for initial seeding
 };
 
+export interface WoodySpecies {
+    id: string;
+    name: string;
+    form: "tree" | "shrub";
+    // Temperature preferences (°C)
+    minGrowthTemp: number;       // Below this: no growth (winter rest)
+    optimalTempMin: number;
+    optimalTempMax: number;
+    maxGrowthTemp: number;       // Above this: no growth (heat stress)
+    frostTolerance: number;      // Below this: frost damage
+    // Moisture preferences (0-1), judged on the cell's yearly mean moisture
+    minMoisture: number;         // Below this: drought dieback
+    optimalMoistureMin: number;
+    optimalMoistureMax: number;
+    maxMoisture: number;         // Above this: waterlogged roots
+    // Growth characteristics
+    baseGrowthRate: number;      // Canopy cover gained per game year in optimal conditions
+    maturityAge: number;         // Years before it starts setting seed
+    seedProbability: number;     // Chance per day that a mature cell sends out a seed
+    dispersalRadius: number;     // Max seed travel distance (cells)
+    // Competition
+    shade: number;               // Fraction of grass capacity removed under full canopy
+    transpiration: number;       // Evapotranspiration boost under full canopy (1 = double)
+}
+
+export const WOODY_SPECIES: WoodySpecies[] = [
+    {
+        id: "oak",
+        name: "Oak",
+        form: "tree",
+        minGrowthTemp: 5,
+        optimalTempMin: 15,
+        optimalTempMax: 25,
+        maxGrowthTemp: 35,
+        frostTolerance: -25,
+        minMoisture: 0.25,
+        optimalMoistureMin: 0.4,
+        optimalMoistureMax: 0.7,
+        maxMoisture: 0.9,
+        baseGrowthRate: 0.05,
+        maturityAge: 20,
+        seedProbability: 0.05,
+        dispersalRadius: 2,
+        shade: 0.8,
+        transpiration: 1.0,
+    },
+    {
+        id: "pine",
+        name: "Pine",
+        form: "tree",
+        minGrowthTemp: 0,
+        optimalTempMin: 8,
+        optimalTempMax: 20,
+        maxGrowthTemp: 30,
+        frostTolerance: -40,
+        minMoisture: 0.15,
+        optimalMoistureMin: 0.3,
+        optimalMoistureMax: 0.6,
+        maxMoisture: 0.85,
+        baseGrowthRate: 0.07,
+        maturityAge: 12,
+        seedProbability: 0.08,
+        dispersalRadius: 4,
+        shade: 0.6,
+        transpiration: 0.7,
+    },
+    {
+        id: "acacia",
+        name: "Acacia",
+        form: "tree",
+        minGrowthTemp: 15,
+        optimalTempMin: 25,
+        optimalTempMax: 35,
+        maxGrowthTemp: 45,
+        frostTolerance: -2,
+        minMoisture: 0.1,
+        optimalMoistureMin: 0.2,
+        optimalMoistureMax: 0.45,
+        maxMoisture: 0.75,
+        baseGrowthRate: 0.06,
+        maturityAge: 6,
+        seedProbability: 0.06,
+        dispersalRadius: 3,
+        shade: 0.4,
+        transpiration: 0.5,
+    },
+    {
+        id: "sagebrush",
+        name: "Sagebrush",
+        form: "shrub",
+        minGrowthTemp: 3,
+        optimalTempMin: 10,
+        optimalTempMax: 28,
+        maxGrowthTemp: 40,
+        frostTolerance: -30,
+        minMoisture: 0.05,
+        optimalMoistureMin: 0.1,
+        optimalMoistureMax: 0.3,
+        maxMoisture: 0.6,
+        baseGrowthRate: 0.15,
+        maturityAge: 3,
+        seedProbability: 0.1,
+        dispersalRadius: 2,
+        shade: 0.2,
+        transpiration: 0.2,
+    },
+    {
+        id: "willow",
+        name: "Willow",
+        form: "shrub",
+        minGrowthTemp: 2,
+        optimalTempMin: 10,
+        optimalTempMax: 24,
+        maxGrowthTemp: 32,
+        frostTolerance: -35,
+        minMoisture: 0.5,
+        optimalMoistureMin: 0.7,
+        optimalMoistureMax: 1.0,
+        maxMoisture: 1.0,
+        baseGrowthRate: 0.2,
+        maturityAge: 4,
+        seedProbability: 0.1,
+        dispersalRadius: 3,
+        shade: 0.5,
+        transpiration: 1.2,
+    },
+];
+
+export const VEGETATION_CONFIG = {
+    INITIAL_SEED_PROBABILITY: 0.02, // Chance for a suitable cell to start with woody plants
+    INITIAL_MAX_COVER: 0.5,         // Initial canopy cover is drawn from 0..this
+    INITIAL_MAX_AGE: 40,            // Initial plant age is drawn from 0..this (years)
+    SEEDLING_COVER: 0.01,           // Canopy cover of a freshly established seedling
+    GRASS_COMPETITION: 0.7,         // Establishment/growth penalty from a dense grass sward
+    FROST_DAMAGE_RATE: 0.002,       // Cover lost per tick below frost tolerance
+    DROUGHT_DIEBACK_RATE: 0.0005,   // Cover lost per tick outside the moisture range
+    MIN_COVER: 0.001,               // Cells below this cover lose their woody plants
+    MAX_ALTITUDE: 1500,             // Tree line (same as grass)
+};
+
+// Herbivore Fauna Configuration (herds are agents; rates are per tick unless noted)
+export const HERBIVORE_CONFIG = {
+    INITIAL_HERDS: 40,              // Herds spawned once grass is established
+    INITIAL_HERD_SIZE_MIN: 5,
+    INITIAL_HERD_SIZE_MAX: 20,
+    MAX_HERDS: 500,                 // No new herds split off beyond this
+    SPLIT_SIZE: 60,                 // Herds larger than this split in two
+    GRAZE_PER_ANIMAL: 0.002,        // Grass density eaten per animal per tick
+    HUNGER_RATE: 0.01,              // Hunger gained per tick (0 = full, 1 = starving)
+    THIRST_RATE: 0.02,              // Thirst gained per tick (0 = watered, 1 = dehydrated)
+    THIRSTY_THRESHOLD: 0.5,         // Above this the herd heads for water instead of grass
+    STARVATION_DEATH_RATE: 0.05,    // Share of the herd lost per tick while starving or dehydrated
+    NATURAL_DEATH_RATE: 0.0002,     // Share of the herd lost per tick to old age
+    BIRTH_RATE: 0.01,               // Births per animal per day when well fed and watered
+    WELL_FED_THRESHOLD: 0.3,        // Hunger and thirst must stay below this to breed
+    SNOW_MOVE_PENALTY: 2.0,         // Chance of staying put per meter of snow
+};
+
+// Predator-Prey Density Field Configuration (Lotka-Volterra; densities are animals per cell, rates per tick)
+export const ECOLOGY_CONFIG = {
+    // Prey
+    PREY_BIRTH_RATE: 0.002,         // Intrinsic growth rate
+    PREY_CAPACITY_PER_GRASS: 20,    // Carrying capacity at full grass density
+    PREY_GRAZE_RATE: 0.0005,        // Grass density eaten per prey
+    // Predators
+    PREDATION_RATE: 0.002,          // Prey caught per prey per predator
+    PREDATOR_EFFICIENCY: 0.2,       // Predators born per prey eaten
+    PREDATOR_DEATH_RATE: 0.0005,    // Natural predator mortality
+    // Movement
+    PREY_DIFFUSION_RATE: 0.02,      // Share of prey moving to neighbors per tick
+    PREDATOR_DIFFUSION_RATE: 0.04,  // Predators roam further than prey
+    MAX_CROSSING_SLOPE: 20,         // Altitude step (m) animals cannot climb or descend
+    // Environmental stress
+    DROUGHT_MOISTURE: 0.05,         // Below this ground moisture populations collapse
+    DROUGHT_DEATH_RATE: 0.01,       // Share lost per tick in drought
+    FROST_TEMPERATURE: -20,         // Below this populations collapse
+    FROST_DEATH_RATE: 0.01,         // Share lost per tick in hard frost
+    // Seeding and extinction
+    PREY_SEED_PROBABILITY: 0.05,    // Chance for a grassy cell to start with prey
+    PREDATOR_SEED_PROBABILITY: 0.01,
+    INITIAL_PREY_DENSITY: 2,
+    INITIAL_PREDATOR_DENSITY: 0.2,
+    MIN_DENSITY: 0.0001,            // Local populations below this die out
+};
+
 // Atmospheric Humidity System Configuration
 export const EVAPORATION_CONFIG = {
     BASE_EVAP_RATE: 0.02,              // m/tick from water bodies
@@ -200,7 +439,6 @@ export const DIFFUSION_CONFIG = {
 // Performance Configuration
 export const PERFORMANCE_CONFIG = {
     // Hydrology
-    MAX_RIVER_FLOW_ITERATIONS: 100,     // Per tick
     MIN_WATER_HEIGHT_THRESHOLD: 0.01,   // Skip below this
 
     // Moisture
@@ -214,6 +452,20 @@ export const PERFORMANCE_CONFIG = {
     // General
     ENABLE_PERFORMANCE_LOGGING: process.env.ENABLE_PERFORMANCE_LOGGING === 'true',
     TICK_TIME_WARNING_MS: 5000,
+
+    // Profiling
+    PROFILE_WINDOW_SIZE: 100,           // Ticks kept for per-system timing statistics
+    PROFILE_MAX_WARNINGS: 20,           // Slow-tick warnings kept for the API
+    PROFILE_HISTOGRAM_BUCKETS_MS: [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000], // Upper bounds for /metrics
+};
+
+// Worker-thread parallelism for per-cell systems
+export const PARALLEL_CONFIG = {
+    // One core stays free for the HTTP server; 0 runs every system on the main thread
+    WORKER_THREADS: process.env.SIMULATION_WORKERS
+        ? parseInt(process.env.SIMULATION_WORKERS, 10)
+        : Math.min(8, availableParallelism() - 1),
+    BAND_ROWS: 64,                      // Bands are whole multiples of this many rows (smaller grids use fewer bands)
 };
 
 export const CONDENSATION_CONFIG = {
@@ -264,6 +516,91 @@ export const PRECIPITATION_CONFIG = {
     WETNESS_DRY_RATE: 0.02,       // ground wetness evaporation per tick
 };
 
+// Snow + Ice Configuration
+export const SNOW_CONFIG = {
+    SNOW_TEMPERATURE: 0,          // °C - precipitation below this falls as snow
+    SNOW_PER_PRECIP: 0.1,         // snow depth (m) per unit of precipitation
+    SNOW_WATER_EQUIVALENT: 0.1,   // water (m) released per meter of melted snow
+    MELT_TEMPERATURE: 0,          // °C - snowpack melts above this
+    MELT_RATE: 0.01,              // snow depth (m) melted per °C above melting, per tick
+    MELT_RUNOFF_FRACTION: 0.5,    // share of land meltwater that runs off into an adjacent river/lake
+    FREEZE_TEMPERATURE: -2,       // °C - springs, rivers and lakes freeze below this
+    THAW_TEMPERATURE: 0,          // °C - frozen water thaws above this
+    SNOW_COVER_MIN_DEPTH: 0.01,   // snow depth (m) counted as snow cover in metrics
+};
+
+// Biome Classification Configuration
+export const BIOME_CONFIG = {
+    // Whittaker temperature bands (annual mean °C)
+    ICE_TEMPERATURE: -10,          // Below this: permanent ice
+    TUNDRA_TEMPERATURE: -2,        // Below this: tundra
+    BOREAL_TEMPERATURE: 5,         // Below this: taiga or tundra
+    TROPICAL_TEMPERATURE: 20,      // At or above this: tropical biomes
+    // Wetness index (0-1) from annual ground moisture and precipitation
+    WET_ANNUAL_PRECIPITATION: 50,  // Annual precipitation counted as fully wet
+    ARID_WETNESS: 0.15,            // Below this: desert
+    DRY_WETNESS: 0.35,             // Below this: grassland / savanna
+    HUMID_WETNESS: 0.65,           // At or above this: rainforest
+    BOREAL_FOREST_WETNESS: 0.3,    // Taiga needs at least this much wetness
+    WETLAND_MOISTURE: 0.8,         // Waterlogged ground above freezing becomes wetland
+};
+
+// Climate Statistics Configuration (per-cell monthly and yearly records)
+export const CLIMATE_STATS_CONFIG = {
+    FROST_TEMPERATURE: 0,          // A day that drops below this (°C) counts as a frost day
+    DRY_DAY_RAINFALL: 0.01,        // A day with less rain than this counts as dry
+};
+
+// Weather History Configuration (time series of WeatherMetrics snapshots)
+export const WEATHER_HISTORY_CONFIG = {
+    RAW_RETENTION: 720,                 // Raw snapshots kept (one per metrics interval: ~1 year)
+    HOURLY_RETENTION: 2160,             // Hourly buckets kept (only hours with a snapshot count)
+    DAILY_RETENTION: 1800,              // Daily buckets kept (5 years)
+    MONTHLY_RETENTION: 1200,            // Monthly buckets kept (100 years)
+    MAX_QUERY_POINTS: 5000,             // Most points returned by one query
+};
+
+// Probe Configuration (per-tick series of cell fields at chosen spots)
+export const PROBES_CONFIG = {
+    MAX_PROBES: 100,
+    DEFAULT_CAPACITY: 1000,             // Ticks kept per probe unless the probe asks otherwise
+    MAX_CAPACITY: 20000,
+    MAX_REGION_CELLS: 40000,            // Largest region averaged every tick
+};
+
+// World Persistence Configuration
+export const PERSISTENCE_CONFIG = {
+    SAVE_FILE_PATH: process.env.WORLD_SAVE_PATH || "data/world.sav",
+    FORMAT_VERSION: 13,
+    AUTOSAVE_INTERVAL_TICKS: process.env.AUTOSAVE_INTERVAL_TICKS
+        ? parseInt(process.env.AUTOSAVE_INTERVAL_TICKS, 10)
+        : 60,                           // Ticks between autosaves (0 disables autosave)
+    COMPRESSION_LEVEL: 1,               // gzip level (1 = fastest, 9 = smallest)
+};
+
+// World Editing Configuration
+export const EDITING_CONFIG = {
+    MAX_BRUSH_RADIUS: 64,               // Cells
+    MAX_HEIGHT_DELTA: 500,              // Largest terrain raise/lower per stroke (meters)
+    MIN_TERRAIN_HEIGHT: -200,           // Same floor as river erosion
+    MAX_TERRAIN_HEIGHT: 9000,
+    MAX_WATER_HEIGHT: 100,
+    AUDIT_LOG_PATH: process.env.WORLD_AUDIT_LOG_PATH || "data/edits.log",
+    AUDIT_LOG_MEMORY_ENTRIES: 500,      // Recent edits kept in memory for /api/edits
+    MIN_GRID_SIZE: 16,                  // Bounds for regenerating the world via the API
+    MAX_GRID_SIZE: 2000,                // Live grid plus two snapshot buffers must fit in memory
+    MAX_SPRINGS: 10000,
+};
+
+// Authentication Configuration
+export const AUTH_CONFIG = {
+    USERS_FILE: process.env.AUTH_USERS_FILE || "data/users.json",
+    SESSION_SECRET: process.env.SESSION_SECRET, // Random per boot when unset (sessions end on restart)
+    SESSION_MAX_AGE: 1000 * 60 * 60 * 24 * 7,   // Session cookie lifetime (7 days)
+    SESSION_PRUNE_INTERVAL: 1000 * 60 * 60,     // Expired session cleanup (1 hour)
+    PASSWORD_KEY_LENGTH: 64,                    // scrypt derived key length in bytes
+};
+
 export const DEBUG_CONFIG = {
     WEATHER_VERBOSE_LOGGING: false,
 };
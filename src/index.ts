@@ -1,17 +1,9 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { storage } from "./storage";
-
-function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
+import { simulation } from "./simulationHost";
+import { setupAuth } from "./auth";
+import { log } from "./log";
 
 const app = express();
 
@@ -29,7 +21,11 @@ app.use((req, res, next) => {
   }
 
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, If-None-Match");
+  res.setHeader(
+    "Access-Control-Expose-Headers",
+    "ETag, X-Tile-Width, X-Tile-Height, X-Tile-Scale, X-Tile-Dtype, X-Tile-Tick, X-Tile-Min, X-Tile-Max",
+  );
   res.setHeader("Access-Control-Allow-Credentials", "true");
 
   if (req.method === "OPTIONS") {
@@ -42,78 +38,31 @@ app.use((req, res, next) => {
 
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+setupAuth(app);
 
-// Set up periodic task
-export const INTERVAL = process.env.SIMULATION_INTERVAL
-  ? parseInt(process.env.SIMULATION_INTERVAL, 10)
-  : 1000 * 60; // 60 seconds in milliseconds (update interval)
-let intervalId: NodeJS.Timeout;
-let isTickRunning = false;
-let lastTickTime: Date | null = null;
-let lastTickError: Error | null = null;
-
-function startPeriodicTask() {
-  // Clear any existing interval
-  if (intervalId) {
-    clearInterval(intervalId);
+// Graceful shutdown handling
+async function shutdown(signal: string) {
+  log(`${signal} received, shutting down gracefully...`, "system");
+
+  // Let an in-flight tick finish so the final save sees a fully updated world
+  try {
+    await simulation.call("stop");
+    await simulation.call("save");
+  } catch (error) {
+    console.error("Failed to save world on shutdown:", error);
   }
 
-  // Set up new interval
-  intervalId = setInterval(async () => {
-    // Prevent overlapping ticks
-    if (isTickRunning) {
-      log("⚠️  Skipping tick - previous tick still running", "simulation");
-      return;
-    }
-
-    isTickRunning = true;
-    try {
-      log("Running periodic terrain update", "simulation");
-      storage.landUpdate();
-      lastTickTime = new Date();
-      lastTickError = null;
-    } catch (error) {
-      lastTickError = error as Error;
-      console.error("Error in periodic task:", error);
-    } finally {
-      isTickRunning = false;
-    }
-  }, INTERVAL);
-}
-
-function stopPeriodicTask() {
-  if (intervalId) {
-    clearInterval(intervalId);
-    log("Periodic task stopped", "simulation");
-  }
+  process.exit(0);
 }
 
-// Graceful shutdown handling
 process.on("SIGTERM", () => {
-  log("SIGTERM received, shutting down gracefully...", "system");
-  stopPeriodicTask();
-  process.exit(0);
+  void shutdown("SIGTERM");
 });
 
 process.on("SIGINT", () => {
-  log("SIGINT received, shutting down gracefully...", "system");
-  stopPeriodicTask();
-  process.exit(0);
+  void shutdown("SIGINT");
 });
 
-// Export health check data
-export function getHealthStatus() {
-  return {
-    isTickRunning,
-    lastTickTime,
-    lastTickError: lastTickError ? {
-      message: lastTickError.message,
-      stack: lastTickError.stack,
-    } : null,
-    uptimeSeconds: process.uptime(),
-  };
-}
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -147,7 +96,7 @@ app.use((req, res, next) => {
   });
 
   // Start periodic task after server is ready
-  startPeriodicTask();
+  void simulation.call("start");
 
   const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 5001;
   server.listen(PORT, "0.0.0.0", () => {
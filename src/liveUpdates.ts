@@ -0,0 +1,281 @@
+/**
+ * Live tick streaming over WebSocket
+ *
+ * Clients connect to LIVE_UPDATES_CONFIG.PATH and subscribe to a viewport:
+ *   { "type": "subscribe", "x": 0, "y": 0, "width": 50, "height": 50, "fields": ["temperature"] }
+ *
+ * The server answers with a "snapshot" message holding every cell of the
+ * viewport, then pushes a "tick" message after each simulation tick that only
+ * contains the cells whose subscribed fields changed:
+ *   { "type": "tick", "gameTime": {...}, "changes": [{ "x": 3, "y": 7, "temperature": 21.4 }] }
+ *
+ * When the world is replaced (regenerated) every client gets a "worldChanged"
+ * message, and subscribed clients a fresh "snapshot" of their viewport:
+ *   { "type": "worldChanged", "worldSize": 2000, "worldConfig": {...}, "gameTime": {...} }
+ *
+ * Viewports wrap around the world edges exactly like /api/viewport.
+ */
+import type { Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { type TerrainCell } from "./schema";
+import { type TerrainGrid, type CellField, CELL_FIELDS } from "./terrainGrid";
+import { type GameTime } from "./storage";
+import { type SimulationHost } from "./simulationHost";
+import { type WorldConfig, LIVE_UPDATES_CONFIG, VIEWPORT_CONFIG } from "./config";
+
+type StreamableField = CellField;
+
+const STREAMABLE_FIELDS: ReadonlySet<string> = new Set<string>(CELL_FIELDS);
+
+type CellValue = TerrainCell[StreamableField];
+
+interface Subscription {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fields: StreamableField[];
+  // Last values sent to the client, one array per field in viewport row-major order
+  lastSent: CellValue[][] | null;
+}
+
+interface ClientState {
+  subscription: Subscription | null;
+  isAlive: boolean;
+}
+
+type CellChange = { x: number; y: number } & Partial<Record<StreamableField, CellValue>>;
+
+export class LiveUpdateServer {
+  private wss: WebSocketServer;
+  private clients = new Map<WebSocket, ClientState>();
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(httpServer: Server, private simulation: SimulationHost) {
+    this.wss = new WebSocketServer({ server: httpServer, path: LIVE_UPDATES_CONFIG.PATH });
+    this.wss.on("connection", (socket) => this.handleConnection(socket));
+
+    this.heartbeat = setInterval(() => this.checkConnections(), LIVE_UPDATES_CONFIG.HEARTBEAT_INTERVAL);
+    this.wss.on("close", () => clearInterval(this.heartbeat));
+  }
+
+  /**
+   * Push the changed cells of every subscribed viewport after a tick
+   */
+  publishTick(terrain: TerrainGrid, gameTime: GameTime): void {
+    this.clients.forEach((state, socket) => {
+      if (!state.subscription || socket.readyState !== WebSocket.OPEN) return;
+
+      // Leave lastSent untouched for lagging clients so they catch up on the next push
+      if (socket.bufferedAmount > LIVE_UPDATES_CONFIG.MAX_BUFFERED_BYTES) return;
+
+      const changes = this.collectChanges(terrain, state.subscription);
+      this.send(socket, { type: "tick", gameTime, changes });
+    });
+  }
+
+  /**
+   * Tell every client the world was replaced and resend each subscribed viewport in full
+   */
+  publishWorldChanged(terrain: TerrainGrid, gameTime: GameTime, worldConfig: WorldConfig): void {
+    this.clients.forEach((state, socket) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+
+      this.send(socket, { type: "worldChanged", worldSize: terrain.width, worldConfig, gameTime });
+
+      const subscription = state.subscription;
+      if (!subscription) return;
+
+      subscription.lastSent = null;
+      this.sendSnapshot(socket, terrain, gameTime, subscription);
+    });
+  }
+
+  /**
+   * Send a message to every connected client regardless of subscription
+   */
+  broadcast(message: object): void {
+    this.clients.forEach((_state, socket) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        this.send(socket, message);
+      }
+    });
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ClientState = { subscription: null, isAlive: true };
+    this.clients.set(socket, state);
+
+    socket.on("pong", () => {
+      state.isAlive = true;
+    });
+    socket.on("message", (data) => {
+      this.handleMessage(socket, state, data).catch((error) => {
+        console.error("LiveUpdates: failed to handle message:", error);
+        this.send(socket, { type: "error", error: "Failed to handle message" });
+      });
+    });
+    socket.on("close", () => this.clients.delete(socket));
+    socket.on("error", (error) => {
+      console.error("LiveUpdates: socket error:", error);
+      this.clients.delete(socket);
+    });
+
+    const { terrain, gameTime } = this.simulation.getSnapshot();
+    this.send(socket, {
+      type: "welcome",
+      worldSize: terrain.width,
+      fields: Array.from(STREAMABLE_FIELDS),
+      gameTime,
+    });
+  }
+
+  private async handleMessage(socket: WebSocket, state: ClientState, data: RawData): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.send(socket, { type: "error", error: "Invalid JSON message" });
+      return;
+    }
+
+    if (!isRecord(message)) {
+      this.send(socket, { type: "error", error: "Message must be a JSON object" });
+      return;
+    }
+
+    if (message.type === "unsubscribe") {
+      state.subscription = null;
+      return;
+    }
+
+    if (message.type !== "subscribe") {
+      this.send(socket, { type: "error", error: "Unknown message type" });
+      return;
+    }
+
+    const subscription = this.parseSubscription(message);
+    if (typeof subscription === "string") {
+      this.send(socket, { type: "error", error: subscription });
+      return;
+    }
+
+    state.subscription = subscription;
+
+    const { terrain, gameTime } = this.simulation.getSnapshot();
+    this.sendSnapshot(socket, terrain, gameTime, subscription);
+  }
+
+  private sendSnapshot(socket: WebSocket, terrain: TerrainGrid, gameTime: GameTime, subscription: Subscription): void {
+    // lastSent is empty, so the first diff carries the whole viewport
+    const changes = this.collectChanges(terrain, subscription);
+    this.send(socket, {
+      type: "snapshot",
+      gameTime,
+      x: subscription.x,
+      y: subscription.y,
+      width: subscription.width,
+      height: subscription.height,
+      fields: subscription.fields,
+      changes,
+    });
+  }
+
+  /**
+   * Validate a subscribe message; returns an error string when invalid
+   */
+  private parseSubscription(message: Record<string, unknown>): Subscription | string {
+    const x = Number(message.x);
+    const y = Number(message.y);
+    const width = Number(message.width);
+    const height = Number(message.height);
+
+    if (![x, y, width, height].every((value) => Number.isFinite(value))) {
+      return "Invalid viewport parameters";
+    }
+
+    if (width < 1 || height < 1) {
+      return "Viewport dimensions must be positive";
+    }
+
+    const fields: unknown = message.fields;
+    if (!Array.isArray(fields) || fields.length === 0) {
+      return "At least one field is required";
+    }
+
+    const unknownFields = fields.filter((field) => !STREAMABLE_FIELDS.has(String(field)));
+    if (unknownFields.length > 0) {
+      return `Unknown fields: ${unknownFields.join(", ")}`;
+    }
+
+    return {
+      x: Math.floor(x),
+      y: Math.floor(y),
+      width: Math.min(Math.floor(width), VIEWPORT_CONFIG.MAX_VIEWPORT_SIZE),
+      height: Math.min(Math.floor(height), VIEWPORT_CONFIG.MAX_VIEWPORT_SIZE),
+      fields: Array.from(new Set(fields as StreamableField[])),
+      lastSent: null,
+    };
+  }
+
+  /**
+   * Diff the viewport against the values last sent and remember the new ones
+   */
+  private collectChanges(terrain: TerrainGrid, subscription: Subscription): CellChange[] {
+    const gridSize = terrain.width;
+    const { width, height, fields } = subscription;
+    const isFirst = subscription.lastSent === null;
+    const lastSent = subscription.lastSent ?? fields.map(() => new Array<CellValue>(width * height));
+    const changes: CellChange[] = [];
+
+    for (let dy = 0; dy < height; dy++) {
+      const wrappedY = ((subscription.y + dy) % gridSize + gridSize) % gridSize;
+      for (let dx = 0; dx < width; dx++) {
+        const wrappedX = ((subscription.x + dx) % gridSize + gridSize) % gridSize;
+        const index = terrain.index(wrappedX, wrappedY);
+        const offset = dy * width + dx;
+        let change: CellChange | null = null;
+
+        for (let f = 0; f < fields.length; f++) {
+          const value = terrain.getValue(fields[f], index);
+          if (!isFirst && Object.is(lastSent[f][offset], value)) continue;
+
+          lastSent[f][offset] = value;
+          change ??= { x: wrappedX, y: wrappedY };
+          change[fields[f]] = value;
+        }
+
+        if (change) {
+          changes.push(change);
+        }
+      }
+    }
+
+    subscription.lastSent = lastSent;
+    return changes;
+  }
+
+  private checkConnections(): void {
+    this.clients.forEach((state, socket) => {
+      if (!state.isAlive) {
+        socket.terminate();
+        this.clients.delete(socket);
+        return;
+      }
+      state.isAlive = false;
+      socket.ping();
+    });
+  }
+
+  private send(socket: WebSocket, message: object): void {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,164 @@
+/**
+ * Prometheus metrics
+ *
+ * Renders simulation, weather and process statistics in the Prometheus text
+ * exposition format (version 0.0.4) for the `/metrics` endpoint. Values are
+ * read from the latest world snapshot on every scrape; nothing is kept between
+ * scrapes besides the cumulative histograms owned by the PerformanceProfiler.
+ */
+import { simulation } from "./simulationHost";
+import type { DurationHistogram } from "./systems/PerformanceProfiler";
+import type { WeatherSnapshot } from "./systems/WeatherMetrics";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type MetricType = "counter" | "gauge" | "histogram";
+type Labels = Record<string, string>;
+
+/**
+ * Collects metric families and formats them as exposition text
+ */
+class MetricsWriter {
+  private lines: string[] = [];
+
+  family(name: string, type: MetricType, help: string): void {
+    this.lines.push(`# HELP ${name} ${escapeHelp(help)}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+  }
+
+  sample(name: string, value: number, labels: Labels = {}): void {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  /**
+   * One-sample metric family
+   */
+  single(name: string, type: MetricType, help: string, value: number): void {
+    this.family(name, type, help);
+    this.sample(name, value);
+  }
+
+  /**
+   * Histogram samples; bounds are converted from milliseconds to seconds
+   */
+  histogram(name: string, histogram: DurationHistogram, labels: Labels = {}): void {
+    histogram.buckets.forEach((boundMs, i) => {
+      this.sample(`${name}_bucket`, histogram.counts[i], { ...labels, le: formatValue(boundMs / 1000) });
+    });
+    this.sample(`${name}_bucket`, histogram.count, { ...labels, le: "+Inf" });
+    this.sample(`${name}_sum`, histogram.sum / 1000, labels);
+    this.sample(`${name}_count`, histogram.count, labels);
+  }
+
+  toString(): string {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+// Help text for each exported WeatherSnapshot field (averages and coverages)
+const WEATHER_GAUGES: { field: keyof WeatherSnapshot; name: string; help: string }[] = [
+  { field: "avgTemperature", name: "weather_avg_temperature_celsius", help: "Mean air temperature over all cells" },
+  { field: "avgHumidity", name: "weather_avg_humidity", help: "Mean atmospheric humidity over all cells" },
+  { field: "avgPressure", name: "weather_avg_pressure_hpa", help: "Mean air pressure over all cells" },
+  { field: "avgWindSpeed", name: "weather_avg_wind_speed", help: "Mean wind speed over all cells" },
+  { field: "avgCloudDensity", name: "weather_avg_cloud_density", help: "Mean cloud density over all cells" },
+  { field: "avgPrecipitation", name: "weather_avg_precipitation", help: "Mean precipitation rate over all cells" },
+  { field: "avgGroundWetness", name: "weather_avg_ground_wetness", help: "Mean ground wetness over all cells" },
+  { field: "avgMoisture", name: "weather_avg_moisture", help: "Mean soil moisture over all cells" },
+  { field: "avgSnowDepth", name: "weather_avg_snow_depth", help: "Mean snow depth over all cells" },
+  { field: "avgWoodyCover", name: "weather_avg_woody_cover", help: "Mean tree and shrub canopy cover over all cells" },
+  { field: "cloudCoverage", name: "weather_cloud_coverage_percent", help: "Percentage of cells with clouds" },
+  { field: "rainCoverage", name: "weather_rain_coverage_percent", help: "Percentage of cells with precipitation" },
+  { field: "wetGroundCoverage", name: "weather_wet_ground_coverage_percent", help: "Percentage of cells with wet ground" },
+  { field: "snowCoverage", name: "weather_snow_coverage_percent", help: "Percentage of cells covered by snow" },
+  { field: "frozenWaterCoverage", name: "weather_frozen_water_coverage_percent", help: "Percentage of water cells that are frozen" },
+  { field: "woodyCoverage", name: "weather_woody_coverage_percent", help: "Percentage of cells with trees or shrubs" },
+];
+
+/**
+ * Render all metrics as Prometheus exposition text
+ */
+export function renderMetrics(): string {
+  const writer = new MetricsWriter();
+  const snapshot = simulation.getSnapshot();
+
+  // Tick counters
+  writer.single("simulation_ticks_total", "counter", "Simulation ticks run since the world was created", snapshot.tick);
+  writer.single("simulation_ticks_profiled_total", "counter", "Simulation ticks run since the server started", snapshot.ticksProfiled);
+
+  writer.family("simulation_system_runs_total", "counter", "Times each simulation system has run since the server started");
+  for (const system of snapshot.systems) {
+    writer.sample("simulation_system_runs_total", system.runCount, { system: system.name });
+  }
+
+  writer.family("simulation_system_enabled", "gauge", "Whether each simulation system is enabled (1) or disabled (0)");
+  for (const system of snapshot.systems) {
+    writer.sample("simulation_system_enabled", system.enabled ? 1 : 0, { system: system.name });
+  }
+
+  writer.single("simulation_worker_threads", "gauge", "Worker threads running per-cell systems (0 = main thread)", snapshot.workerThreads);
+
+  // Tick durations
+  writer.family("simulation_tick_duration_seconds", "histogram", "Wall-clock duration of a whole simulation tick");
+  writer.histogram("simulation_tick_duration_seconds", snapshot.tickHistogram);
+
+  writer.family("simulation_system_duration_seconds", "histogram", "Wall-clock duration of each simulation system per run");
+  for (const { name, histogram } of snapshot.systemHistograms) {
+    writer.histogram("simulation_system_duration_seconds", histogram, { system: name });
+  }
+
+  // Weather (latest snapshot; absent until the first snapshot is captured)
+  const weather = snapshot.weather.latest;
+  if (weather) {
+    for (const gauge of WEATHER_GAUGES) {
+      writer.single(gauge.name, "gauge", gauge.help, weather[gauge.field] as number);
+    }
+  }
+
+  // Hydrology and vegetation
+  writer.single("hydrology_rivers", "gauge", "Number of active rivers", snapshot.riverCount);
+  writer.single("hydrology_lakes", "gauge", "Number of lakes", snapshot.lakeCount);
+  writer.single("grass_coverage_percent", "gauge", "Percentage of cells with grass", getGrassCoverage(snapshot.terrain.grass_density));
+
+  // Process
+  const memory = process.memoryUsage();
+  writer.single("process_resident_memory_bytes", "gauge", "Resident set size in bytes", memory.rss);
+  writer.single("process_heap_used_bytes", "gauge", "V8 heap used in bytes", memory.heapUsed);
+  writer.single("process_heap_total_bytes", "gauge", "V8 heap allocated in bytes", memory.heapTotal);
+  writer.single("process_external_memory_bytes", "gauge", "Memory of C++ objects bound to JavaScript objects in bytes", memory.external);
+  writer.single("process_array_buffers_bytes", "gauge", "Memory allocated for ArrayBuffers (terrain planes) in bytes", memory.arrayBuffers);
+  writer.single("process_uptime_seconds", "gauge", "Time since the server process started", process.uptime());
+
+  return writer.toString();
+}
+
+function getGrassCoverage(grassDensity: Float32Array): number {
+  if (grassDensity.length === 0) return 0;
+
+  let cellsWithGrass = 0;
+  for (let i = 0; i < grassDensity.length; i++) {
+    if (grassDensity[i] > 0) cellsWithGrass++;
+  }
+  return (cellsWithGrass / grassDensity.length) * 100;
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,215 @@
+/**
+ * World save/load
+ *
+ * Save files are gzip-compressed and laid out as:
+ * 1. Magic bytes "FWSV"
+ * 2. Format version (uint32, little-endian)
+ * 3. Header length in bytes (uint32, little-endian)
+ * 4. Header JSON (world config, game time, engine state, field descriptors)
+ * 5. One binary block per grid field, in header order
+ *
+ * Each block is the raw contents of one TerrainGrid plane. String planes hold
+ * codes into their string tables, which are stored in the header.
+ */
+import { createGzip, gunzip } from "node:zlib";
+import { createWriteStream } from "node:fs";
+import { access, mkdir, readFile, rename } from "node:fs/promises";
+import { dirname } from "node:path";
+import { once } from "node:events";
+import { promisify } from "node:util";
+import {
+  TerrainGrid,
+  StringTable,
+  FLOAT_PLANES,
+  UINT8_PLANES,
+  UINT16_PLANES,
+  ACCUMULATOR_PLANES,
+  STRING_TABLES,
+  type PlaneName,
+  type AccumulatorPlane,
+  type StringTableName,
+} from "./terrainGrid";
+import { type GameTime } from "./storage";
+import { type SimulationEngineState } from "./systems/SimulationEngine";
+import { type WorldConfig, PERSISTENCE_CONFIG } from "./config";
+
+const gunzipAsync = promisify(gunzip);
+
+const MAGIC = "FWSV";
+
+// Cell planes plus the climate accumulators, which are not cell fields but must survive a restart
+type SavedPlane = PlaneName | AccumulatorPlane;
+
+const PLANES: readonly SavedPlane[] = [...FLOAT_PLANES, ...UINT8_PLANES, ...UINT16_PLANES, ...ACCUMULATOR_PLANES];
+
+interface FieldDescriptor {
+  name: SavedPlane;
+  byteLength: number;
+}
+
+interface SaveHeader {
+  version: number;
+  savedAt: string;
+  gridSize: number;
+  gameTime: GameTime;
+  worldConfig: WorldConfig;
+  randomState: number;
+  simulation: SimulationEngineState;
+  tables: Record<StringTableName, string[]>;
+  fields: FieldDescriptor[];
+}
+
+export interface WorldSaveData {
+  terrain: TerrainGrid;
+  gameTime: GameTime;
+  worldConfig: WorldConfig;
+  randomState: number;
+  simulation: SimulationEngineState;
+}
+
+/**
+ * Serialize the complete world to disk.
+ * Writes to a temporary file first and renames it so a crash mid-save
+ * never leaves a truncated save behind.
+ */
+export async function saveWorld(filePath: string, data: WorldSaveData): Promise<void> {
+  const { terrain } = data;
+  const gridSize = terrain.width;
+
+  const fields = PLANES.map((name): FieldDescriptor => ({
+    name,
+    byteLength: savedPlane(terrain, name).byteLength,
+  }));
+
+  const header: SaveHeader = {
+    version: PERSISTENCE_CONFIG.FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    gridSize,
+    gameTime: data.gameTime,
+    worldConfig: data.worldConfig,
+    randomState: data.randomState,
+    simulation: data.simulation,
+    tables: terrain.exportTables(),
+    fields,
+  };
+  const headerBytes = Buffer.from(JSON.stringify(header), "utf8");
+  const prelude = Buffer.alloc(12);
+  prelude.write(MAGIC, 0, "ascii");
+  prelude.writeUInt32LE(PERSISTENCE_CONFIG.FORMAT_VERSION, 4);
+  prelude.writeUInt32LE(headerBytes.length, 8);
+
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  const gzip = createGzip({ level: PERSISTENCE_CONFIG.COMPRESSION_LEVEL });
+  const output = createWriteStream(tempPath);
+  gzip.pipe(output);
+
+  const write = async (chunk: Buffer) => {
+    if (!gzip.write(chunk)) {
+      await once(gzip, "drain");
+    }
+  };
+
+  await write(prelude);
+  await write(headerBytes);
+
+  for (const name of PLANES) {
+    const plane = savedPlane(terrain, name);
+    // Copy so later ticks cannot mutate a chunk still queued in the gzip stream
+    await write(Buffer.from(plane.buffer.slice(plane.byteOffset, plane.byteOffset + plane.byteLength)));
+  }
+
+  gzip.end();
+  await once(output, "finish");
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Load a world save from disk.
+ * Returns null when no save exists or the save uses an incompatible format
+ * version; such a save is renamed to `<file>.v<version>` (numbered `.1`, `.2`, ...
+ * if that is taken) and left untouched.
+ */
+export async function loadWorld(filePath: string): Promise<WorldSaveData | null> {
+  let compressed: Buffer;
+  try {
+    compressed = await readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const data = await gunzipAsync(compressed);
+
+  if (data.toString("ascii", 0, 4) !== MAGIC) {
+    throw new Error(`${filePath} is not a world save file`);
+  }
+
+  const version = data.readUInt32LE(4);
+  if (version !== PERSISTENCE_CONFIG.FORMAT_VERSION) {
+    // Move the old save aside so the next autosave cannot overwrite it
+    const keptPath = await findUnusedPath(`${filePath}.v${version}`);
+    await rename(filePath, keptPath);
+    console.warn(
+      `Persistence: save format v${version} does not match v${PERSISTENCE_CONFIG.FORMAT_VERSION}, kept it as ${keptPath}`,
+    );
+    return null;
+  }
+
+  const headerLength = data.readUInt32LE(8);
+  const header = JSON.parse(data.toString("utf8", 12, 12 + headerLength)) as SaveHeader;
+  const { gridSize } = header;
+  const tables: Partial<Record<StringTableName, StringTable>> = {};
+  for (const name of STRING_TABLES) {
+    tables[name] = StringTable.fromArray(header.tables[name]);
+  }
+  const terrain = new TerrainGrid(gridSize, gridSize, tables);
+
+  let offset = 12 + headerLength;
+  for (const field of header.fields) {
+    const plane = savedPlane(terrain, field.name);
+    if (field.byteLength !== plane.byteLength) {
+      throw new Error(`${filePath} has a malformed ${field.name} block`);
+    }
+    // Copy byte-wise - the block offset is not guaranteed to be aligned
+    new Uint8Array(plane.buffer, plane.byteOffset, plane.byteLength).set(
+      data.subarray(offset, offset + field.byteLength),
+    );
+    offset += field.byteLength;
+  }
+
+  return {
+    terrain,
+    gameTime: header.gameTime,
+    worldConfig: header.worldConfig,
+    randomState: header.randomState,
+    simulation: header.simulation,
+  };
+}
+
+/**
+ * Plane backing a saved field
+ */
+function savedPlane(terrain: TerrainGrid, name: SavedPlane): Float32Array | Uint8Array | Uint16Array {
+  if ((ACCUMULATOR_PLANES as readonly string[]).includes(name)) {
+    return terrain.getAccumulators()[name as AccumulatorPlane];
+  }
+  return terrain.plane(name as PlaneName);
+}
+
+/**
+ * `path`, or the first of `path.1`, `path.2`, ... that does not exist yet
+ */
+async function findUnusedPath(path: string): Promise<string> {
+  for (let n = 0; ; n++) {
+    const candidate = n === 0 ? path : `${path}.${n}`;
+    try {
+      await access(candidate);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return candidate;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Probes
+ *
+ * A probe watches one cell or a region (rectangle or circle, wrapping around
+ * the world edges) and records selected cell fields after every tick into a
+ * fixed-size ring buffer. Numeric fields record the mean over the region's
+ * cells; categorical fields (type, river_name, ...) record the most common
+ * label, or null where it is unset. Probes live in memory only: they are not
+ * saved with the world, and their series restart when the world is
+ * regenerated or loaded.
+ *
+ * Recording runs from the tick listener in the simulation worker.
+ */
+import { type IStorage, type GameTime } from "./storage";
+import { type TerrainGrid, type CellField, type PlaneName, type StringTableName, CELL_FIELDS, CATEGORICAL_FIELDS } from "./terrainGrid";
+import { fromGameHour, toGameHour, type GameTimeKey } from "./systems/WeatherHistory";
+
+export type ProbeField = CellField;
+
+export const PROBE_FIELDS: readonly ProbeField[] = CELL_FIELDS;
+
+export type ProbeValue = number | string | null;
+
+export type ProbeRegion =
+  | { shape: "cell"; x: number; y: number }
+  | { shape: "rect"; x: number; y: number; width: number; height: number }
+  | { shape: "circle"; x: number; y: number; radius: number };
+
+export const PROBE_SHAPES: readonly ProbeRegion["shape"][] = ["cell", "rect", "circle"];
+
+export interface ProbeDefinition {
+  name: string;
+  region: ProbeRegion;
+  fields: ProbeField[];
+  capacity: number;
+}
+
+export interface ProbeInfo extends ProbeDefinition {
+  createdBy: string;
+  cellCount: number;
+  samples: number;
+}
+
+export interface ProbeSample {
+  tick: number;
+  time: GameTimeKey;
+  values: Partial<Record<ProbeField, ProbeValue>>;
+}
+
+export interface ProbeSeries {
+  name: string;
+  fields: ProbeField[];
+  samples: ProbeSample[]; // Oldest first
+}
+
+interface Probe extends ProbeDefinition {
+  createdBy: string;
+  cells: number[];
+  ticks: Float64Array;
+  hours: Float64Array;
+  values: (Float64Array | (string | null)[])[]; // One ring per field; labels for categorical fields
+  next: number;
+  count: number;
+}
+
+export class ProbeRegistry {
+  private probes = new Map<string, Probe>();
+  private worldId = "";
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Register a probe; returns null if the name is taken
+   */
+  async add(definition: ProbeDefinition, user: string): Promise<ProbeInfo | null> {
+    if (this.probes.has(definition.name)) {
+      return null;
+    }
+
+    const terrain = await this.storage.getTerrainData();
+    const probe: Probe = {
+      ...definition,
+      createdBy: user,
+      cells: getRegionCells(terrain, definition.region),
+      ticks: new Float64Array(definition.capacity),
+      hours: new Float64Array(definition.capacity),
+      values: definition.fields.map((field) =>
+        CATEGORICAL_FIELDS.has(field) ? new Array<string | null>(definition.capacity).fill(null) : new Float64Array(definition.capacity),
+      ),
+      next: 0,
+      count: 0,
+    };
+    this.probes.set(definition.name, probe);
+    return toInfo(probe);
+  }
+
+  remove(name: string): boolean {
+    return this.probes.delete(name);
+  }
+
+  list(): ProbeInfo[] {
+    return Array.from(this.probes.values()).map(toInfo);
+  }
+
+  /**
+   * The last `limit` samples of a probe (all when omitted); null if there is no such probe
+   */
+  getSeries(name: string, limit?: number): ProbeSeries | null {
+    const probe = this.probes.get(name);
+    if (!probe) return null;
+
+    const count = Math.min(probe.count, limit ?? probe.count);
+    const samples: ProbeSample[] = [];
+    for (let k = count; k > 0; k--) {
+      const slot = (probe.next - k + probe.capacity) % probe.capacity;
+      const values: Partial<Record<ProbeField, ProbeValue>> = {};
+      probe.fields.forEach((field, f) => {
+        values[field] = probe.values[f][slot];
+      });
+      samples.push({ tick: probe.ticks[slot], time: fromGameHour(probe.hours[slot]), values });
+    }
+
+    return { name: probe.name, fields: probe.fields, samples };
+  }
+
+  /**
+   * Start every series over for a new world; the cell lists follow its grid
+   */
+  resetWorld(terrain: TerrainGrid): void {
+    this.worldId = this.storage.getWorldId();
+    this.probes.forEach((probe) => {
+      probe.cells = getRegionCells(terrain, probe.region);
+      probe.next = 0;
+      probe.count = 0;
+    });
+  }
+
+  /**
+   * Record every probe for the tick that just completed
+   */
+  record(terrain: TerrainGrid, gameTime: GameTime): void {
+    if (this.probes.size === 0) return;
+
+    if (this.storage.getWorldId() !== this.worldId) {
+      this.resetWorld(terrain);
+    }
+
+    const planes = terrain.getPlanes();
+    const tick = this.storage.getSimulationEngine().getTickCount();
+    const hour = toGameHour(gameTime);
+
+    this.probes.forEach((probe) => {
+      const slot = probe.next;
+      probe.ticks[slot] = tick;
+      probe.hours[slot] = hour;
+
+      probe.fields.forEach((field, f) => {
+        const ring = probe.values[f];
+        if (!(ring instanceof Float64Array)) {
+          ring[slot] = getMostCommonLabel(terrain, field as StringTableName, probe.cells);
+          return;
+        }
+
+        const plane = planes[field as PlaneName];
+        let sum = 0;
+        for (const i of probe.cells) {
+          sum += plane[i];
+        }
+        ring[slot] = sum / probe.cells.length;
+      });
+
+      probe.next = (slot + 1) % probe.capacity;
+      probe.count = Math.min(probe.count + 1, probe.capacity);
+    });
+  }
+}
+
+/**
+ * Number of cells a region covers before it is clipped to the world size
+ */
+export function getRegionSize(region: ProbeRegion): number {
+  switch (region.shape) {
+    case "cell":
+      return 1;
+    case "rect":
+      return region.width * region.height;
+    case "circle":
+      return (2 * region.radius + 1) ** 2;
+  }
+}
+
+/**
+ * Series as CSV: tick, game time columns, then one column per field
+ */
+export function formatProbeCsv(series: ProbeSeries): string {
+  const lines = [["tick", "year", "month", "day", "hour", ...series.fields].join(",")];
+  for (const sample of series.samples) {
+    const { year, month, day, hour } = sample.time;
+    lines.push([sample.tick, year, month, day, hour, ...series.fields.map((field) => sample.values[field])].join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Label held by the most cells (ties go to the lowest code); null when that is the unset code
+ */
+function getMostCommonLabel(terrain: TerrainGrid, field: StringTableName, cells: number[]): string | null {
+  const plane = terrain.plane(field);
+  const counts = new Map<number, number>();
+  let best = 0;
+  let bestCount = 0;
+  for (const i of cells) {
+    const code = plane[i];
+    const count = (counts.get(code) ?? 0) + 1;
+    counts.set(code, count);
+    if (count > bestCount || (count === bestCount && code < best)) {
+      best = code;
+      bestCount = count;
+    }
+  }
+  return terrain.tables[field].get(best) ?? null;
+}
+
+function toInfo(probe: Probe): ProbeInfo {
+  return {
+    name: probe.name,
+    region: probe.region,
+    fields: probe.fields,
+    capacity: probe.capacity,
+    createdBy: probe.createdBy,
+    cellCount: probe.cells.length,
+    samples: probe.count,
+  };
+}
+
+/**
+ * Indices of the cells in a region, wrapping around the edges; regions wider
+ * than the world are clipped so no cell is counted twice
+ */
+function getRegionCells(terrain: TerrainGrid, region: ProbeRegion): number[] {
+  const cells: number[] = [];
+
+  switch (region.shape) {
+    case "cell":
+      cells.push(terrain.wrapIndex(region.x, region.y));
+      break;
+
+    case "rect": {
+      const width = Math.min(region.width, terrain.width);
+      const height = Math.min(region.height, terrain.height);
+      for (let dy = 0; dy < height; dy++) {
+        for (let dx = 0; dx < width; dx++) {
+          cells.push(terrain.wrapIndex(region.x + dx, region.y + dy));
+        }
+      }
+      break;
+    }
+
+    case "circle": {
+      const r = Math.min(region.radius, Math.floor((Math.min(terrain.width, terrain.height) - 1) / 2));
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          if (dx * dx + dy * dy <= r * r) {
+            cells.push(terrain.wrapIndex(region.x + dx, region.y + dy));
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return cells;
+}
@@ -0,0 +1,48 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ *
+ * A single instance is shared by world generation and every stochastic
+ * simulation system, so the same seed and tick count always reproduce
+ * the same world. The internal state is a single 32-bit integer, which
+ * makes it trivial to persist and restore alongside the world.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Reset the generator to the start of the sequence for a seed
+   */
+  reseed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
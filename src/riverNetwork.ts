@@ -0,0 +1,256 @@
+/**
+ * River network
+ *
+ * Builds a directed graph of the named rivers from a world snapshot. Every
+ * river cell flows to its lowest lower neighbor (of 8, wrapping around the
+ * world edges) among the river cells, or failing that into a lake or the
+ * ocean; a cell with nothing lower is a sink. The graph's nodes are sources
+ * (cells nothing flows into), confluences (where rivers join) and mouths
+ * (where water leaves the network); reaches are the polylines between them.
+ *
+ * Catchments follow D8 drainage over the whole map, except that river cells
+ * drain along their channel. Discharge is the surface_flow through the
+ * river's outlet cell, in water height x cells per tick.
+ */
+import { type TerrainGrid, CellType } from "./terrainGrid";
+import { NO_RECEIVER, accumulateFlow, computeReceivers, getStepLength } from "./systems/drainage";
+import { GridHelper } from "./systems/GridHelper";
+
+export type RiverNodeKind = "source" | "confluence" | "mouth";
+
+export type RiverOutlet = "river" | "lake" | "ocean" | "sink";
+
+export interface RiverNode {
+  id: number; // Cell index
+  kind: RiverNodeKind;
+  x: number;
+  y: number;
+  river: string;
+  outlet?: Exclude<RiverOutlet, "river">; // Where the water goes, for cells that leave the network
+}
+
+export interface RiverReach {
+  from: number; // Node ids
+  to: number;
+  river: string;
+  length: number; // Cells (diagonal steps count √2)
+  coordinates: [number, number][];
+}
+
+export interface RiverSummary {
+  name: string;
+  length: number;
+  elevationDrop: number; // Meters between the highest and lowest riverbed
+  discharge: number;
+  catchmentArea: number; // Cells
+  sources: number;
+  confluences: number;
+  outlet: { x: number; y: number; into: RiverOutlet };
+  flowsInto: string | null;
+  tributaries: string[];
+}
+
+export interface RiverNetwork {
+  nodes: RiverNode[];
+  reaches: RiverReach[];
+  rivers: RiverSummary[]; // Largest catchment first
+}
+
+/**
+ * GeoJSON-like feature of one river in grid coordinates; reaches that cross
+ * the world edge are split there
+ */
+export interface RiverFeature {
+  type: "Feature";
+  id: string;
+  geometry: { type: "MultiLineString"; coordinates: [number, number][][] };
+  properties: RiverSummary;
+}
+
+export function buildRiverNetwork(terrain: TerrainGrid): RiverNetwork {
+  const { width, height } = GridHelper.getDimensions(terrain);
+  const channel: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    const type = terrain.type[i];
+    if ((type === CellType.RIVER || type === CellType.SPRING) && terrain.river_name[i] !== 0) {
+      channel.push(i);
+    }
+  }
+
+  // Downstream links; mouths keep NO_RECEIVER and record their outlet
+  const downstream = new Map<number, number>();
+  const outlets = new Map<number, Exclude<RiverOutlet, "river">>();
+  const upstreamCount = new Map<number, number>();
+  const joined = new Set<number>();
+
+  for (const cell of channel) {
+    let next = NO_RECEIVER;
+    let water = NO_RECEIVER;
+    for (const n of GridHelper.getNeighbors(terrain, terrain.xOf(cell), terrain.yOf(cell))) {
+      if (terrain.altitude[n] >= terrain.altitude[cell]) continue;
+
+      const type = terrain.type[n];
+      if ((type === CellType.RIVER || type === CellType.SPRING) && terrain.river_name[n] !== 0) {
+        if (next === NO_RECEIVER || terrain.altitude[n] < terrain.altitude[next]) next = n;
+      } else if (type === CellType.LAKE || type === CellType.OCEAN) {
+        if (water === NO_RECEIVER || terrain.altitude[n] < terrain.altitude[water]) water = n;
+      }
+    }
+
+    downstream.set(cell, next);
+    if (next === NO_RECEIVER) {
+      outlets.set(cell, water === NO_RECEIVER ? "sink" : terrain.type[water] === CellType.LAKE ? "lake" : "ocean");
+      continue;
+    }
+
+    upstreamCount.set(next, (upstreamCount.get(next) ?? 0) + 1);
+    if (terrain.river_name[next] !== terrain.river_name[cell]) {
+      joined.add(next);
+    }
+  }
+
+  // Nodes
+  const nodes: RiverNode[] = [];
+  const nodeIds = new Set<number>();
+  for (const cell of channel) {
+    const upstream = upstreamCount.get(cell) ?? 0;
+    const outlet = outlets.get(cell);
+    let kind: RiverNodeKind | null = null;
+    if (upstream === 0) kind = "source";
+    else if (outlet) kind = "mouth";
+    else if (upstream >= 2 || joined.has(cell)) kind = "confluence";
+    if (!kind) continue;
+
+    const node: RiverNode = { id: cell, kind, x: terrain.xOf(cell), y: terrain.yOf(cell), river: terrain.getRiverName(cell)! };
+    if (outlet) node.outlet = outlet;
+    nodes.push(node);
+    nodeIds.add(cell);
+  }
+
+  // Reaches from every node down to the next one
+  const reaches: RiverReach[] = [];
+  for (const node of nodes) {
+    let cell = node.id;
+    if (downstream.get(cell) === NO_RECEIVER) continue;
+
+    const coordinates: [number, number][] = [[node.x, node.y]];
+    let length = 0;
+    while (true) {
+      const next = downstream.get(cell)!;
+      length += getStepLength(terrain, cell, next);
+      coordinates.push([terrain.xOf(next), terrain.yOf(next)]);
+      cell = next;
+      if (nodeIds.has(cell)) break;
+    }
+    reaches.push({ from: node.id, to: cell, river: node.river, length, coordinates });
+  }
+
+  // Catchments: D8 over the hillslopes, along the channel for river cells
+  const receivers = computeReceivers(terrain);
+  for (const cell of channel) {
+    receivers[cell] = downstream.get(cell)!;
+  }
+  const area = accumulateFlow(receivers, () => 1);
+
+  return { nodes, reaches, rivers: summarizeRivers(terrain, channel, downstream, outlets, nodes, area) };
+}
+
+export function toRiverFeature(network: RiverNetwork, summary: RiverSummary): RiverFeature {
+  const coordinates: [number, number][][] = [];
+  for (const reach of network.reaches) {
+    if (reach.river !== summary.name) continue;
+
+    // Split where a step wraps around the world edge
+    let part: [number, number][] = [reach.coordinates[0]];
+    for (let k = 1; k < reach.coordinates.length; k++) {
+      const [x, y] = reach.coordinates[k];
+      const [px, py] = reach.coordinates[k - 1];
+      if (Math.abs(x - px) > 1 || Math.abs(y - py) > 1) {
+        if (part.length > 1) coordinates.push(part);
+        part = [];
+      }
+      part.push([x, y]);
+    }
+    if (part.length > 1) coordinates.push(part);
+  }
+
+  return {
+    type: "Feature",
+    id: summary.name,
+    geometry: { type: "MultiLineString", coordinates },
+    properties: summary,
+  };
+}
+
+function summarizeRivers(
+  terrain: TerrainGrid,
+  channel: number[],
+  downstream: Map<number, number>,
+  outlets: Map<number, Exclude<RiverOutlet, "river">>,
+  nodes: RiverNode[],
+  area: Float64Array,
+): RiverSummary[] {
+  const byName = new Map<string, number[]>();
+  for (const cell of channel) {
+    const name = terrain.getRiverName(cell)!;
+    const cells = byName.get(name);
+    if (cells) cells.push(cell);
+    else byName.set(name, [cell]);
+  }
+
+  const nodeCounts = new Map<string, { sources: number; confluences: number }>();
+  for (const node of nodes) {
+    const counts = nodeCounts.get(node.river) ?? { sources: 0, confluences: 0 };
+    if (node.kind === "source") counts.sources++;
+    if (node.kind === "confluence") counts.confluences++;
+    nodeCounts.set(node.river, counts);
+  }
+
+  const summaries: RiverSummary[] = [];
+  byName.forEach((cells, name) => {
+    let length = 0;
+    let highest = -Infinity;
+    let lowest = Infinity;
+    let outletCell = NO_RECEIVER;
+
+    for (const cell of cells) {
+      const next = downstream.get(cell)!;
+      if (next !== NO_RECEIVER) length += getStepLength(terrain, cell, next);
+
+      highest = Math.max(highest, terrain.terrain_height[cell]);
+      lowest = Math.min(lowest, terrain.terrain_height[cell]);
+
+      // The river ends where it leaves the network or flows into another river (the largest such exit)
+      const leaves = next === NO_RECEIVER || terrain.river_name[next] !== terrain.river_name[cell];
+      if (leaves && (outletCell === NO_RECEIVER || area[cell] > area[outletCell])) {
+        outletCell = cell;
+      }
+    }
+
+    const next = downstream.get(outletCell)!;
+    const counts = nodeCounts.get(name);
+    summaries.push({
+      name,
+      length,
+      elevationDrop: highest - lowest,
+      discharge: terrain.surface_flow[outletCell],
+      catchmentArea: area[outletCell],
+      sources: counts?.sources ?? 0,
+      confluences: counts?.confluences ?? 0,
+      outlet: {
+        x: terrain.xOf(outletCell),
+        y: terrain.yOf(outletCell),
+        into: next === NO_RECEIVER ? outlets.get(outletCell)! : "river",
+      },
+      flowsInto: next === NO_RECEIVER ? null : terrain.getRiverName(next)!,
+      tributaries: [],
+    });
+  });
+
+  const byRiver = new Map(summaries.map((summary) => [summary.name, summary]));
+  for (const summary of summaries) {
+    if (summary.flowsInto) byRiver.get(summary.flowsInto)?.tributaries.push(summary.name);
+  }
+
+  return summaries.sort((a, b) => b.catchmentArea - a.catchmentArea);
+}
@@ -1,9 +1,56 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { INTERVAL, getHealthStatus } from "./index";
-import { VIEWPORT_CONFIG } from "./config";
-import type { TerrainCell, TerrainGrid } from "./schema";
+import { simulation } from "./simulationHost";
+import {
+  type WorldConfig,
+  EDITING_CONFIG,
+  GRASS_SPECIES,
+  SIMULATION_CONFIG,
+  PROBES_CONFIG,
+  TILES_CONFIG,
+  TIME_CONFIG,
+  VIEWPORT_CONFIG,
+  WOODY_SPECIES,
+} from "./config";
+import {
+  TILE_FIELDS,
+  type TileAggregation,
+  getFieldDtype,
+  getFieldRange,
+  getMaxZoom,
+  isCategoricalField,
+  isTileField,
+  renderTile,
+  encodeTileBinary,
+  encodeTilePng,
+} from "./tiles";
+import { LiveUpdateServer } from "./liveUpdates";
+import { requireRole } from "./auth";
+import { filterHerdsInRegion } from "./systems/FaunaSystem";
+import { summarizeVegetation } from "./systems/VegetationSystem";
+import { BRUSH_FALLOFFS, type BrushFalloff } from "./worldEditor";
+import {
+  HISTORY_AGGREGATIONS,
+  HISTORY_RESOLUTIONS,
+  WEATHER_METRIC_NAMES,
+  toGameHour,
+  type HistoryAggregation,
+  type HistoryResolution,
+  type WeatherMetricName,
+} from "./systems/WeatherHistory";
+import {
+  PROBE_FIELDS,
+  PROBE_SHAPES,
+  formatProbeCsv,
+  getRegionSize,
+  type ProbeDefinition,
+  type ProbeField,
+  type ProbeRegion,
+} from "./probes";
+import { toRiverFeature } from "./riverNetwork";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "./metrics";
+import type { TerrainCell } from "./schema";
+import type { TerrainGrid } from "./terrainGrid";
 
 function extractViewport(
   terrain: TerrainGrid,
@@ -12,7 +59,7 @@ function extractViewport(
   width: number,
   height: number,
 ): TerrainCell[][] {
-  const gridSize = terrain.length;
+  const gridSize = terrain.width;
   const viewport: TerrainCell[][] = [];
 
   for (let dy = 0; dy < height; dy += 1) {
@@ -20,7 +67,7 @@ function extractViewport(
     for (let dx = 0; dx < width; dx += 1) {
       const wrappedX = ((x + dx) % gridSize + gridSize) % gridSize;
       const wrappedY = ((y + dy) % gridSize + gridSize) % gridSize;
-      row.push(terrain[wrappedY][wrappedX]);
+      row.push(terrain.getCell(wrappedX, wrappedY));
     }
     viewport.push(row);
   }
@@ -28,15 +75,189 @@ function extractViewport(
   return viewport;
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate the center (and radius, default 0) of an edit; returns an error string when invalid
+ */
+function parseBrush(body: unknown): { x: number; y: number; radius: number } | string {
+  if (!isRecord(body)) {
+    return "Request body must be a JSON object";
+  }
+
+  const x = Number(body.x);
+  const y = Number(body.y);
+  const radius = body.radius === undefined ? 0 : Number(body.radius);
+
+  if (!Number.isInteger(x) || !Number.isInteger(y)) {
+    return "x and y must be integers";
+  }
+
+  if (!Number.isInteger(radius) || radius < 0 || radius > EDITING_CONFIG.MAX_BRUSH_RADIUS) {
+    return `radius must be an integer between 0 and ${EDITING_CONFIG.MAX_BRUSH_RADIUS}`;
+  }
+
+  return { x, y, radius };
+}
+
+/**
+ * Parse a game time given as "year-month-day" or "year-month-dayThour" into a game hour
+ */
+function parseGameHour(value: unknown, name: string): number | string {
+  const match = typeof value === "string" ? /^(\d+)-(\d{1,2})-(\d{1,2})(?:T(\d{1,2}))?$/.exec(value) : null;
+  const invalid = `${name} must be a game time like 3-06-15 or 3-06-15T12`;
+  if (!match) {
+    return invalid;
+  }
+
+  const [year, month, day, hour] = match.slice(1).map((part) => (part === undefined ? 0 : Number(part)));
+  if (
+    year < 1 ||
+    month < 1 || month > TIME_CONFIG.MONTHS_PER_YEAR ||
+    day < 1 || day > TIME_CONFIG.DAYS_PER_MONTH ||
+    hour >= TIME_CONFIG.HOURS_PER_DAY
+  ) {
+    return invalid;
+  }
+
+  return toGameHour({ year, month, day, hour });
+}
+
+const PROBE_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * Validate a probe registration; returns an error string when invalid
+ */
+function parseProbeDefinition(body: unknown): ProbeDefinition | string {
+  if (!isRecord(body)) {
+    return "Request body must be a JSON object";
+  }
+
+  const name = body.name;
+  if (typeof name !== "string" || !PROBE_NAME_PATTERN.test(name)) {
+    return "name must be 1-64 letters, digits, '_', '-' or '.'";
+  }
+
+  const region = body.region;
+  if (!isRecord(region) || !PROBE_SHAPES.includes(region.shape as ProbeRegion["shape"])) {
+    return `region.shape must be one of: ${PROBE_SHAPES.join(", ")}`;
+  }
+
+  const x = Number(region.x);
+  const y = Number(region.y);
+  if (!Number.isInteger(x) || !Number.isInteger(y)) {
+    return "region x and y must be integers";
+  }
+
+  let parsedRegion: ProbeRegion;
+  if (region.shape === "rect") {
+    const width = Number(region.width);
+    const height = Number(region.height);
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      return "region width and height must be positive integers";
+    }
+    parsedRegion = { shape: "rect", x, y, width, height };
+  } else if (region.shape === "circle") {
+    const radius = Number(region.radius);
+    if (!Number.isInteger(radius) || radius < 0) {
+      return "region radius must be a non-negative integer";
+    }
+    parsedRegion = { shape: "circle", x, y, radius };
+  } else {
+    parsedRegion = { shape: "cell", x, y };
+  }
+
+  if (getRegionSize(parsedRegion) > PROBES_CONFIG.MAX_REGION_CELLS) {
+    return `region must cover at most ${PROBES_CONFIG.MAX_REGION_CELLS} cells`;
+  }
+
+  const fields: unknown = body.fields;
+  if (!Array.isArray(fields) || fields.length === 0) {
+    return "fields must be a non-empty array";
+  }
+  for (const field of fields) {
+    if (!PROBE_FIELDS.includes(field as ProbeField)) {
+      return `Unknown probe field: ${field} (allowed: ${PROBE_FIELDS.join(", ")})`;
+    }
+  }
+
+  const capacity = body.capacity === undefined ? PROBES_CONFIG.DEFAULT_CAPACITY : Number(body.capacity);
+  if (!Number.isInteger(capacity) || capacity < 1 || capacity > PROBES_CONFIG.MAX_CAPACITY) {
+    return `capacity must be an integer between 1 and ${PROBES_CONFIG.MAX_CAPACITY}`;
+  }
+
+  return {
+    name,
+    region: parsedRegion,
+    fields: Array.from(new Set(fields as ProbeField[])),
+    capacity,
+  };
+}
+
+const WORLD_CONFIG_FIELDS: readonly (keyof WorldConfig)[] = [
+  "seed", "gridSize", "noiseScale", "numberOfSprings", "minHeight", "maxHeight",
+  "springMinHeight", "springMaxHeight", "seaLevel",
+];
+
+/**
+ * Validate WorldConfig overrides against the current config; returns an error string when invalid
+ */
+function parseWorldConfigOverrides(body: unknown, current: WorldConfig): Partial<WorldConfig> | string {
+  if (body !== undefined && !isRecord(body)) {
+    return "Request body must be a JSON object";
+  }
+
+  const overrides: Partial<WorldConfig> = {};
+
+  for (const [key, value] of Object.entries(body ?? {})) {
+    if (!WORLD_CONFIG_FIELDS.includes(key as keyof WorldConfig)) {
+      return `Unknown world config field: ${key} (allowed: ${WORLD_CONFIG_FIELDS.join(", ")})`;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return `${key} must be a number`;
+    }
+    overrides[key as keyof WorldConfig] = value;
+  }
+
+  const { seed, gridSize, noiseScale, numberOfSprings } = overrides;
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff)) {
+    return "seed must be an unsigned 32-bit integer";
+  }
+  if (gridSize !== undefined && (!Number.isInteger(gridSize) || gridSize < EDITING_CONFIG.MIN_GRID_SIZE || gridSize > EDITING_CONFIG.MAX_GRID_SIZE)) {
+    return `gridSize must be an integer between ${EDITING_CONFIG.MIN_GRID_SIZE} and ${EDITING_CONFIG.MAX_GRID_SIZE}`;
+  }
+  if (noiseScale !== undefined && noiseScale < 0) {
+    return "noiseScale must be positive (0 scales with the world size)";
+  }
+  if (numberOfSprings !== undefined && (!Number.isInteger(numberOfSprings) || numberOfSprings < 0 || numberOfSprings > EDITING_CONFIG.MAX_SPRINGS)) {
+    return `numberOfSprings must be an integer between 0 and ${EDITING_CONFIG.MAX_SPRINGS} (0 scales with the world size)`;
+  }
+
+  const merged = { ...current, ...overrides };
+  if (merged.minHeight >= merged.maxHeight) {
+    return "minHeight must be below maxHeight";
+  }
+  if (merged.springMinHeight > merged.springMaxHeight) {
+    return "springMinHeight must not exceed springMaxHeight";
+  }
+
+  return overrides;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Generate initial terrain
-  await storage.generateTerrain();
+  // Read routes are public; control and editing routes need an admin session
+  const requireAdmin = requireRole("admin");
+
+  // Restore the saved world, or generate initial terrain on first boot (in the simulation worker)
+  await simulation.call("initialize");
 
   app.get("/api/terrain", async (req, res) => {
     try {
-      const terrain = await storage.getTerrainData();
+      const { terrain } = simulation.getSnapshot();
 
-      res.json(terrain);
+      res.json(terrain.toCells());
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch terrain data" });
     }
@@ -44,7 +265,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/time", async (req, res) => {
     try {
-      const gameTime = storage.getGameTime();
+      const { gameTime } = simulation.getSnapshot();
       res.json(gameTime);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch game time" });
@@ -53,9 +274,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/weather-stats", async (req, res) => {
     try {
-      const metrics = storage.getSimulationEngine().getWeatherMetrics();
-      const latest = metrics.getLatest();
-      const history = metrics.getHistory();
+      const { latest, history } = simulation.getSnapshot().weather;
 
       res.json({
         current: latest,
@@ -66,6 +285,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Downsampled weather time series; `to` is exclusive
+  app.get("/api/weather-history", async (req, res) => {
+    try {
+      const metric = req.query.metric as WeatherMetricName;
+      const resolution = (req.query.resolution ?? "daily") as HistoryResolution;
+      const aggregation = (req.query.aggregation ?? "mean") as HistoryAggregation;
+
+      if (!WEATHER_METRIC_NAMES.includes(metric)) {
+        res.status(400).json({ error: `metric must be one of: ${WEATHER_METRIC_NAMES.join(", ")}` });
+        return;
+      }
+
+      if (!HISTORY_RESOLUTIONS.includes(resolution)) {
+        res.status(400).json({ error: `resolution must be one of: ${HISTORY_RESOLUTIONS.join(", ")}` });
+        return;
+      }
+
+      if (!HISTORY_AGGREGATIONS.includes(aggregation)) {
+        res.status(400).json({ error: `aggregation must be one of: ${HISTORY_AGGREGATIONS.join(", ")}` });
+        return;
+      }
+
+      const from = req.query.from === undefined ? 0 : parseGameHour(req.query.from, "from");
+      const to = req.query.to === undefined ? Infinity : parseGameHour(req.query.to, "to");
+      if (typeof from === "string" || typeof to === "string") {
+        res.status(400).json({ error: typeof from === "string" ? from : to });
+        return;
+      }
+
+      if (to <= from) {
+        res.status(400).json({ error: "to must be after from" });
+        return;
+      }
+
+      res.json(await simulation.call("queryWeatherHistory", { metric, from, to, resolution, aggregation }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to query weather history" });
+    }
+  });
+
+  // River network as GeoJSON-like features in grid coordinates, plus the graph's nodes
+  app.get("/api/rivers", async (req, res) => {
+    try {
+      const network = await simulation.call("getRiverNetwork");
+
+      res.json({
+        type: "FeatureCollection",
+        features: network.rivers.map((river) => toRiverFeature(network, river)),
+        nodes: network.nodes,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get river network" });
+    }
+  });
+
+  app.get("/api/rivers/:name", async (req, res) => {
+    try {
+      const network = await simulation.call("getRiverNetwork");
+      const river = network.rivers.find((summary) => summary.name === req.params.name);
+      if (!river) {
+        res.status(404).json({ error: `No river named ${req.params.name}` });
+        return;
+      }
+
+      res.json({
+        ...toRiverFeature(network, river),
+        nodes: network.nodes.filter((node) => node.river === river.name),
+        reaches: network.reaches
+          .filter((reach) => reach.river === river.name)
+          .map(({ from, to, length }) => ({ from, to, length })),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get river" });
+    }
+  });
+
+  app.get("/api/ecology-stats", async (req, res) => {
+    try {
+      const { latest, history } = simulation.getSnapshot().ecology;
+
+      res.json({
+        current: latest,
+        history: history.slice(-20),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get ecology stats" });
+    }
+  });
+
+  app.get("/api/vegetation", async (req, res) => {
+    try {
+      const summary = summarizeVegetation(simulation.getSnapshot().terrain);
+
+      res.json({
+        ...summary,
+        speciesDefinitions: WOODY_SPECIES,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get vegetation stats" });
+    }
+  });
+
+  app.get("/api/herds", async (req, res) => {
+    try {
+      const { terrain, herds: allHerds, population } = simulation.getSnapshot();
+
+      // Without a region, list every herd in the world
+      const regionParams = [req.query.x, req.query.y, req.query.width, req.query.height];
+      let region = { x: 0, y: 0, width: terrain.width, height: terrain.height };
+
+      if (regionParams.some((value) => value !== undefined)) {
+        const [x, y, width, height] = regionParams.map(Number);
+
+        if (![x, y, width, height].every((value) => Number.isFinite(value))) {
+          res.status(400).json({ error: "Invalid region parameters" });
+          return;
+        }
+
+        if (width < 1 || height < 1) {
+          res.status(400).json({ error: "Region dimensions must be positive" });
+          return;
+        }
+
+        region = {
+          x: Math.floor(x),
+          y: Math.floor(y),
+          width: Math.min(Math.floor(width), terrain.width),
+          height: Math.min(Math.floor(height), terrain.height),
+        };
+      }
+
+      const herds = filterHerdsInRegion(allHerds, terrain, region.x, region.y, region.width, region.height);
+
+      res.json({
+        region,
+        herds,
+        population: herds.reduce((total, herd) => total + herd.size, 0),
+        totalHerds: allHerds.length,
+        totalPopulation: population,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch herds" });
+    }
+  });
+
   app.get("/api/viewport", async (req, res) => {
     try {
       const x = Number(req.query.x);
@@ -92,7 +456,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         Math.min(Math.floor(height), VIEWPORT_CONFIG.MAX_VIEWPORT_SIZE),
       );
 
-      const terrain = await storage.getTerrainData();
+      const { terrain } = simulation.getSnapshot();
       const viewport = extractViewport(
         terrain,
         Math.floor(x),
@@ -103,7 +467,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         viewport,
-        worldSize: terrain.length,
+        worldSize: terrain.width,
         timestamp: Date.now(),
       });
     } catch (error) {
@@ -123,12 +487,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      const worldSize = storage.getWorldSize();
+      const worldSize = simulation.getSnapshot().terrain.width;
       const clampedResolution = Math.max(
         1,
         Math.min(Math.floor(requestedResolution), worldSize),
       );
-      const minimap = storage.getMinimapData(clampedResolution);
+      const minimap = simulation.getMinimapData(clampedResolution);
 
       res.json({
         minimap,
@@ -140,11 +504,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/tiles", async (req, res) => {
+    try {
+      const { terrain } = simulation.getSnapshot();
+      res.json({
+        tileSize: TILES_CONFIG.TILE_SIZE,
+        maxZoom: getMaxZoom(terrain.width),
+        worldSize: terrain.width,
+        fields: TILE_FIELDS.map((name) => ({
+          name,
+          dtype: getFieldDtype(name),
+          aggregations: isCategoricalField(name) ? ["mode"] : ["mean", "max"],
+        })),
+        // Categorical tiles carry codes; index i + 1 of a table is code i + 1
+        tables: terrain.exportTables(),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tile metadata" });
+    }
+  });
+
+  // Normalization ranges for PNG tiles, valid for a single tick
+  let fieldRangeKey = "";
+  const fieldRanges = new Map<string, { min: number; max: number }>();
+
+  app.get("/api/tiles/:field/:z/:x/:y", async (req, res) => {
+    try {
+      const { field } = req.params;
+      const [yParam, format = "bin"] = req.params.y.split(".");
+      const z = Number(req.params.z);
+      const x = Number(req.params.x);
+      const y = Number(yParam);
+
+      if (!isTileField(field)) {
+        res.status(400).json({ error: `Unknown field: ${field}` });
+        return;
+      }
+
+      if (format !== "bin" && format !== "png") {
+        res.status(400).json({ error: "Tile format must be bin or png" });
+        return;
+      }
+
+      const { terrain, tick, worldId } = simulation.getSnapshot();
+      const maxZoom = getMaxZoom(terrain.width);
+      if (![z, x, y].every((value) => Number.isInteger(value)) || z < 0 || z > maxZoom) {
+        res.status(400).json({ error: `Invalid tile coordinates (zoom must be 0-${maxZoom})` });
+        return;
+      }
+
+      const categorical = isCategoricalField(field);
+      const agg = (req.query.agg ?? (categorical ? "mode" : "mean")) as TileAggregation;
+      const allowed: TileAggregation[] = categorical ? ["mode"] : ["mean", "max"];
+      if (!allowed.includes(agg)) {
+        res.status(400).json({ error: `Aggregation for ${field} must be one of: ${allowed.join(", ")}` });
+        return;
+      }
+
+      // Tiles only change when the world ticks or is replaced
+      const worldKey = `${worldId}-${tick}`;
+      const etag = `"${worldKey}-${field}-${z}-${x}-${y}-${agg}-${format}"`;
+      res.setHeader("ETag", etag);
+      res.setHeader("Cache-Control", "no-cache");
+      if (req.headers["if-none-match"] === etag) {
+        res.status(304).end();
+        return;
+      }
+
+      const tile = renderTile(terrain, { field, z, x, y, agg });
+      res.setHeader("X-Tile-Width", tile.width);
+      res.setHeader("X-Tile-Height", tile.height);
+      res.setHeader("X-Tile-Scale", tile.scale);
+      res.setHeader("X-Tile-Dtype", tile.dtype);
+      res.setHeader("X-Tile-Tick", tick);
+
+      if (format === "bin") {
+        res.type("application/octet-stream").send(encodeTileBinary(tile));
+        return;
+      }
+
+      let range: { min: number; max: number } | null = null;
+      if (!categorical) {
+        if (fieldRangeKey !== worldKey) {
+          fieldRangeKey = worldKey;
+          fieldRanges.clear();
+        }
+        range = fieldRanges.get(field) ?? getFieldRange(terrain, field);
+        fieldRanges.set(field, range);
+        res.setHeader("X-Tile-Min", range.min);
+        res.setHeader("X-Tile-Max", range.max);
+      }
+
+      res.type("image/png").send(encodeTilePng(tile, range));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to render tile" });
+    }
+  });
+
   app.get("/api/config", async (req, res) => {
     try {
+      const status = simulation.getStatus();
+      const { terrain, worldConfig } = simulation.getSnapshot();
       res.json({
-        updateInterval: INTERVAL, // Backend update interval in milliseconds
-        worldSize: storage.getWorldSize(),
+        updateInterval: status.intervalMs, // Backend update interval in milliseconds
+        simulationState: status.state,
+        worldSize: terrain.width,
+        seed: worldConfig.seed,
+        seaLevel: worldConfig.seaLevel,
       });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch config" });
@@ -153,13 +619,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/health", async (req, res) => {
     try {
-      const health = getHealthStatus();
+      const health = simulation.getStatus();
       const status = health.lastTickError ? 503 : 200;
 
       res.status(status).json({
         status: health.lastTickError ? "unhealthy" : "healthy",
         simulation: {
+          state: health.state,
           isRunning: health.isTickRunning,
+          pendingSteps: health.pendingSteps,
+          tickCount: health.tickCount,
           lastTickTime: health.lastTickTime,
           timeSinceLastTick: health.lastTickTime
             ? Date.now() - health.lastTickTime.getTime()
@@ -167,8 +636,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           lastError: health.lastTickError,
         },
         server: {
-          uptimeSeconds: health.uptimeSeconds,
-          updateInterval: INTERVAL,
+          uptimeSeconds: process.uptime(),
+          updateInterval: health.intervalMs,
         },
       });
     } catch (error) {
@@ -176,6 +645,401 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/simulation", async (req, res) => {
+    try {
+      res.json(simulation.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch simulation status" });
+    }
+  });
+
+  app.post("/api/simulation/pause", requireAdmin, async (req, res) => {
+    try {
+      await simulation.call("pause");
+      res.json(simulation.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to pause simulation" });
+    }
+  });
+
+  app.post("/api/simulation/resume", requireAdmin, async (req, res) => {
+    try {
+      await simulation.call("resume");
+      res.json(simulation.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resume simulation" });
+    }
+  });
+
+  app.post("/api/simulation/step", requireAdmin, async (req, res) => {
+    try {
+      const ticks = req.body?.ticks === undefined ? 1 : Number(req.body.ticks);
+
+      if (!Number.isInteger(ticks) || ticks < 1 || ticks > SIMULATION_CONFIG.MAX_STEP_TICKS) {
+        res.status(400).json({
+          error: `ticks must be an integer between 1 and ${SIMULATION_CONFIG.MAX_STEP_TICKS}`,
+        });
+        return;
+      }
+
+      // Stepping a running loop would interleave with timer ticks, so N would not be exact
+      if (simulation.getStatus().state !== "paused") {
+        res.status(409).json({ error: "Simulation must be paused to step" });
+        return;
+      }
+
+      const completed = await simulation.call("step", ticks);
+      res.json({
+        requested: ticks,
+        completed,
+        gameTime: simulation.getSnapshot().gameTime,
+        simulation: simulation.getStatus(),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to step simulation" });
+    }
+  });
+
+  app.post("/api/simulation/interval", requireAdmin, async (req, res) => {
+    try {
+      const intervalMs = Number(req.body?.intervalMs);
+
+      if (
+        !Number.isInteger(intervalMs) ||
+        intervalMs < SIMULATION_CONFIG.MIN_INTERVAL ||
+        intervalMs > SIMULATION_CONFIG.MAX_INTERVAL
+      ) {
+        res.status(400).json({
+          error: `intervalMs must be an integer between ${SIMULATION_CONFIG.MIN_INTERVAL} and ${SIMULATION_CONFIG.MAX_INTERVAL}`,
+        });
+        return;
+      }
+
+      await simulation.call("setTickInterval", intervalMs);
+      res.json(simulation.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to set simulation interval" });
+    }
+  });
+
+  app.get("/api/performance", async (req, res) => {
+    try {
+      res.json(simulation.getSnapshot().performance);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get performance stats" });
+    }
+  });
+
+  // Prometheus scrape target (text exposition format)
+  app.get("/metrics", async (req, res) => {
+    try {
+      res.set("Content-Type", METRICS_CONTENT_TYPE);
+      res.send(renderMetrics());
+    } catch (error) {
+      res.status(500).type("text/plain").send("Failed to render metrics\n");
+    }
+  });
+
+  app.get("/api/systems", async (req, res) => {
+    try {
+      res.json({ systems: simulation.getSnapshot().systems });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to list simulation systems" });
+    }
+  });
+
+  app.post("/api/systems/:name", requireAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      const enabled = req.body?.enabled;
+      const cadence = req.body?.cadence;
+
+      if (!simulation.getSnapshot().systems.some((system) => system.name === name)) {
+        res.status(404).json({ error: `Unknown system: ${name}` });
+        return;
+      }
+
+      if (enabled === undefined && cadence === undefined) {
+        res.status(400).json({ error: "Provide enabled and/or cadence" });
+        return;
+      }
+
+      if (enabled !== undefined && typeof enabled !== "boolean") {
+        res.status(400).json({ error: "enabled must be a boolean" });
+        return;
+      }
+
+      if (cadence !== undefined && (!Number.isInteger(cadence) || cadence < 1)) {
+        res.status(400).json({ error: "cadence must be a positive integer" });
+        return;
+      }
+
+      const info = await simulation.call("updateSystem", name, { enabled, cadence });
+      if (!info) {
+        res.status(404).json({ error: `Unknown system: ${name}` });
+        return;
+      }
+
+      res.json(info);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update simulation system" });
+    }
+  });
+
+  // World editing; every applied edit is recorded in the audit log
+  app.post("/api/terrain/brush", requireAdmin, async (req, res) => {
+    try {
+      const brush = parseBrush(req.body);
+      const delta = Number(req.body?.delta);
+      const falloff = (req.body?.falloff ?? "smooth") as BrushFalloff;
+
+      if (typeof brush === "string") {
+        res.status(400).json({ error: brush });
+        return;
+      }
+
+      if (!Number.isFinite(delta) || delta === 0 || Math.abs(delta) > EDITING_CONFIG.MAX_HEIGHT_DELTA) {
+        res.status(400).json({
+          error: `delta must be a non-zero number between -${EDITING_CONFIG.MAX_HEIGHT_DELTA} and ${EDITING_CONFIG.MAX_HEIGHT_DELTA}`,
+        });
+        return;
+      }
+
+      if (!BRUSH_FALLOFFS.includes(falloff)) {
+        res.status(400).json({ error: `falloff must be one of: ${BRUSH_FALLOFFS.join(", ")}` });
+        return;
+      }
+
+      const entry = await simulation.call("edit", { action: "terrain", ...brush, delta, falloff }, req.user!.username);
+      res.json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to edit terrain" });
+    }
+  });
+
+  app.post("/api/terrain/water", requireAdmin, async (req, res) => {
+    try {
+      const brush = parseBrush(req.body);
+      const height = Number(req.body?.height);
+
+      if (typeof brush === "string") {
+        res.status(400).json({ error: brush });
+        return;
+      }
+
+      if (!Number.isFinite(height) || height < 0 || height > EDITING_CONFIG.MAX_WATER_HEIGHT) {
+        res.status(400).json({ error: `height must be a number between 0 and ${EDITING_CONFIG.MAX_WATER_HEIGHT}` });
+        return;
+      }
+
+      const entry = await simulation.call("edit", { action: "water", ...brush, height }, req.user!.username);
+      res.json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to set water height" });
+    }
+  });
+
+  app.post("/api/terrain/grass", requireAdmin, async (req, res) => {
+    try {
+      const brush = parseBrush(req.body);
+      const species = req.body?.species ?? null;
+      const density = req.body?.density === undefined ? 0.5 : Number(req.body.density);
+
+      if (typeof brush === "string") {
+        res.status(400).json({ error: brush });
+        return;
+      }
+
+      // species: null clears grass
+      if (species !== null && !GRASS_SPECIES.some((grass) => grass.id === species)) {
+        res.status(400).json({
+          error: `species must be null or one of: ${GRASS_SPECIES.map((grass) => grass.id).join(", ")}`,
+        });
+        return;
+      }
+
+      if (!Number.isFinite(density) || density <= 0 || density > 1) {
+        res.status(400).json({ error: "density must be a number in (0, 1]" });
+        return;
+      }
+
+      const entry = await simulation.call("edit", { action: "grass", ...brush, species, density }, req.user!.username);
+      if (!entry) {
+        res.status(409).json({ error: "No land cells under the brush" });
+        return;
+      }
+
+      res.json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to paint grass" });
+    }
+  });
+
+  app.post("/api/springs", requireAdmin, async (req, res) => {
+    try {
+      const brush = parseBrush(req.body);
+      if (typeof brush === "string") {
+        res.status(400).json({ error: brush });
+        return;
+      }
+
+      const { x, y } = brush;
+      const entry = await simulation.call("edit", { action: "addSpring", x, y }, req.user!.username);
+      if (!entry) {
+        res.status(409).json({ error: `Cell (${x}, ${y}) is already water` });
+        return;
+      }
+
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to place spring" });
+    }
+  });
+
+  app.delete("/api/springs/:x/:y", requireAdmin, async (req, res) => {
+    try {
+      const brush = parseBrush(req.params);
+      if (typeof brush === "string") {
+        res.status(400).json({ error: brush });
+        return;
+      }
+
+      const { x, y } = brush;
+      const entry = await simulation.call("edit", { action: "removeSpring", x, y }, req.user!.username);
+      if (!entry) {
+        res.status(404).json({ error: `No spring at (${x}, ${y})` });
+        return;
+      }
+
+      res.json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove spring" });
+    }
+  });
+
+  app.get("/api/edits", requireAdmin, async (req, res) => {
+    try {
+      const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > EDITING_CONFIG.AUDIT_LOG_MEMORY_ENTRIES) {
+        res.status(400).json({ error: `limit must be an integer between 1 and ${EDITING_CONFIG.AUDIT_LOG_MEMORY_ENTRIES}` });
+        return;
+      }
+
+      res.json({ edits: await simulation.call("getEdits", limit) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch edit log" });
+    }
+  });
+
+  app.get("/api/probes", async (req, res) => {
+    try {
+      res.json({ probes: await simulation.call("listProbes") });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to list probes" });
+    }
+  });
+
+  app.post("/api/probes", requireAdmin, async (req, res) => {
+    try {
+      const definition = parseProbeDefinition(req.body);
+      if (typeof definition === "string") {
+        res.status(400).json({ error: definition });
+        return;
+      }
+
+      if ((await simulation.call("listProbes")).length >= PROBES_CONFIG.MAX_PROBES) {
+        res.status(409).json({ error: `At most ${PROBES_CONFIG.MAX_PROBES} probes can be registered` });
+        return;
+      }
+
+      const probe = await simulation.call("addProbe", definition, req.user!.username);
+      if (!probe) {
+        res.status(409).json({ error: `Probe ${definition.name} already exists` });
+        return;
+      }
+
+      res.status(201).json(probe);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to register probe" });
+    }
+  });
+
+  app.delete("/api/probes/:name", requireAdmin, async (req, res) => {
+    try {
+      if (!(await simulation.call("removeProbe", req.params.name))) {
+        res.status(404).json({ error: `No probe named ${req.params.name}` });
+        return;
+      }
+
+      res.json({ removed: req.params.name });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove probe" });
+    }
+  });
+
+  // Recorded series, oldest first, as JSON or CSV (?format=csv)
+  app.get("/api/probes/:name/series", async (req, res) => {
+    try {
+      const format = req.query.format ?? "json";
+      const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+      if (format !== "json" && format !== "csv") {
+        res.status(400).json({ error: "format must be json or csv" });
+        return;
+      }
+
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        res.status(400).json({ error: "limit must be a positive integer" });
+        return;
+      }
+
+      const series = await simulation.call("getProbeSeries", req.params.name, limit);
+      if (!series) {
+        res.status(404).json({ error: `No probe named ${req.params.name}` });
+        return;
+      }
+
+      if (format === "csv") {
+        res.type("text/csv").send(formatProbeCsv(series));
+        return;
+      }
+      res.json(series);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch probe series" });
+    }
+  });
+
+  // Replace the live world; clients are told through the snapshot listener below
+  app.post("/api/world/regenerate", requireAdmin, async (req, res) => {
+    try {
+      const overrides = parseWorldConfigOverrides(req.body, simulation.getSnapshot().worldConfig);
+      if (typeof overrides === "string") {
+        res.status(400).json({ error: overrides });
+        return;
+      }
+
+      await simulation.call("regenerate", overrides);
+      const { worldConfig, gameTime, terrain } = simulation.getSnapshot();
+      res.json({ worldConfig, gameTime, worldSize: terrain.width });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to regenerate world" });
+    }
+  });
+
   const httpServer = createServer(app);
+
+  // Push changed cells to WebSocket subscribers after every tick
+  const liveUpdates = new LiveUpdateServer(httpServer, simulation);
+  let worldId = simulation.getSnapshot().worldId;
+  simulation.onSnapshot((snapshot) => {
+    if (snapshot.worldId !== worldId) {
+      worldId = snapshot.worldId;
+      liveUpdates.publishWorldChanged(snapshot.terrain, snapshot.gameTime, snapshot.worldConfig);
+      return;
+    }
+    liveUpdates.publishTick(snapshot.terrain, snapshot.gameTime);
+  });
+
   return httpServer;
 }
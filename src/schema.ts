@@ -4,6 +4,7 @@ export interface TerrainCell {
   altitude: number;
   terrain_height: number;
   water_height: number;
+  surface_flow: number;
   distance_from_water: number;
   base_moisture: number;
   added_moisture: number;
@@ -13,19 +14,55 @@ export interface TerrainCell {
   cloud_density: number;
   precipitation_rate: number;
   ground_wetness: number;
+  snow_depth: number;
+  frozen: number;
   grass_density?: number;
   grass_type?: string;
   grass_health?: number;
   grass_dormant?: number;
+  woody_type?: string;
+  woody_cover?: number;
+  woody_age?: number;
+  prey_density?: number;
+  predator_density?: number;
   atmospheric_pressure?: number;
   wind_speed?: number;
   wind_direction?: number;
   type: string;
   river_name?: string;
+  // Climate history and the biome classified from it
+  biome?: string;
+  climate_temperature: number;
+  climate_precipitation: number;
+  climate_moisture: number;
+  // Climate statistics of the last completed month and year (rainfall totals, °C, day counts)
+  climate_month_rainfall: number;
+  climate_month_temp_min: number;
+  climate_month_temp_max: number;
+  climate_month_temp_mean: number;
+  climate_year_rainfall: number;
+  climate_year_temp_min: number;
+  climate_year_temp_max: number;
+  climate_year_temp_mean: number;
+  climate_month_frost_days: number;
+  climate_month_dry_spell: number;
+  climate_year_frost_days: number;
+  climate_year_dry_spell: number;
+  // The same for the month and year in progress, up to the last completed day
+  climate_current_month_rainfall: number;
+  climate_current_month_temp_min: number;
+  climate_current_month_temp_max: number;
+  climate_current_month_temp_mean: number;
+  climate_current_year_rainfall: number;
+  climate_current_year_temp_min: number;
+  climate_current_year_temp_max: number;
+  climate_current_year_temp_mean: number;
+  climate_current_month_frost_days: number;
+  climate_current_month_dry_spell: number;
+  climate_current_year_frost_days: number;
+  climate_current_year_dry_spell: number;
 }
 
-export type TerrainGrid = TerrainCell[][];
-
 // Game time system
 export interface GameTime {
   year: number;
@@ -0,0 +1,30 @@
+/**
+ * Script to create a users file entry with a hashed password
+ * Run with: npm run hash-password -- <username> <viewer|admin>
+ * The password is read from stdin, e.g. `echo -n secret | npm run hash-password -- alice admin`
+ */
+import { hashPassword, ROLES, type Role } from "../auth";
+
+async function main() {
+    const [username, role] = process.argv.slice(2);
+
+    if (!username || !ROLES.includes(role as Role)) {
+        console.error(`Usage: npm run hash-password -- <username> <${ROLES.join("|")}>  (password on stdin)`);
+        process.exit(1);
+    }
+
+    let password = "";
+    for await (const chunk of process.stdin) {
+        password += chunk;
+    }
+    password = password.replace(/\r?\n$/, "");
+
+    if (!password) {
+        console.error("No password given on stdin");
+        process.exit(1);
+    }
+
+    console.log(JSON.stringify({ username, role, passwordHash: hashPassword(password) }));
+}
+
+main();
@@ -1,6 +1,9 @@
 /**
  * Script to regenerate terrain from command line
  * Run with: npm run regenerate-terrain
+ *
+ * This runs in its own process and does not touch a running server's world;
+ * use POST /api/world/regenerate (admin) for that.
  */
 import { storage } from "../storage";
 
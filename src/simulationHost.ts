@@ -0,0 +1,265 @@
+/**
+ * Simulation host (main thread)
+ *
+ * The world lives in a dedicated worker thread (see simulationWorker.ts) so a
+ * long tick never blocks the HTTP server. At the end of every tick the worker
+ * copies the grid into one of two shared snapshot buffers and posts the
+ * non-grid state alongside it; the host swaps that buffer in as the current
+ * snapshot and acknowledges it, which frees the other buffer for the next
+ * tick. The worker never writes the buffer the host is reading, so a snapshot
+ * is immutable and always shows a fully completed tick.
+ *
+ * Read a snapshot within one synchronous section: once control returns to the
+ * event loop a newer snapshot may be swapped in and the old buffer reused.
+ */
+import { type Worker } from "node:worker_threads";
+import { TerrainGrid, StringTable, STRING_TABLES, type GridPlanes, type StringTableName } from "./terrainGrid";
+import { type TerrainCell } from "./schema";
+import { type WorldConfig, VIEWPORT_CONFIG } from "./config";
+import { createWorker, RUNNING_FROM_SOURCE } from "./workerThreads";
+import type { GameTime } from "./storage";
+import type { SimulationStatus } from "./simulationLoop";
+import type { SimulationCommands } from "./simulationWorker";
+import type { Herd } from "./systems/FaunaSystem";
+import type { SystemInfo } from "./systems/SystemRegistry";
+import type { DurationHistogram, PerformanceReport } from "./systems/PerformanceProfiler";
+import type { WeatherSnapshot } from "./systems/WeatherMetrics";
+import type { EcologySnapshot } from "./systems/EcologyMetrics";
+
+/**
+ * Non-grid world state captured with every snapshot
+ */
+export interface SnapshotMeta {
+  worldId: string;
+  tick: number;
+  gameTime: GameTime;
+  worldConfig: WorldConfig;
+  tables: Record<StringTableName, string[]>;
+  weather: { latest: WeatherSnapshot | null; history: WeatherSnapshot[] };
+  ecology: { latest: EcologySnapshot | null; history: EcologySnapshot[] };
+  herds: Herd[];
+  population: number;
+  riverCount: number;
+  lakeCount: number;
+  systems: SystemInfo[];
+  performance: PerformanceReport;
+  ticksProfiled: number;
+  tickHistogram: DurationHistogram;
+  systemHistograms: { name: string; histogram: DurationHistogram }[];
+  workerThreads: number;
+}
+
+/**
+ * A completed tick: the grid (read-only) plus the state captured with it
+ */
+export interface WorldSnapshot extends SnapshotMeta {
+  sequence: number;
+  terrain: TerrainGrid;
+}
+
+type CommandName = keyof SimulationCommands;
+type CommandResult<M extends CommandName> = Awaited<ReturnType<SimulationCommands[M]>>;
+
+/**
+ * Messages posted to the simulation worker
+ */
+export type SimulationRequest =
+  | { type: "call"; id: number; method: CommandName; args: unknown[] }
+  | { type: "ack"; sequence: number };
+
+/**
+ * Messages posted back by the simulation worker
+ */
+export type SimulationResponse =
+  | { type: "result"; id: number; result?: unknown; error?: string }
+  | { type: "status"; status: SimulationStatus }
+  | { type: "buffers"; width: number; height: number; buffers: [GridPlanes, GridPlanes] }
+  | { type: "snapshot"; sequence: number; buffer: number; meta: SnapshotMeta };
+
+export type SnapshotListener = (snapshot: WorldSnapshot) => void;
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Source entry under tsx; the production bundle emits it as dist/simulationWorker.js
+const WORKER_ENTRY = RUNNING_FROM_SOURCE
+  ? new URL("./simulationWorker.ts", import.meta.url)
+  : new URL("./simulationWorker.js", import.meta.url);
+
+export class SimulationHost {
+  private worker: Worker | null = null;
+  private failure: Error | null = null;
+  private pending = new Map<number, PendingCall>();
+  private nextCallId = 1;
+  private buffers: { width: number; height: number; planes: [GridPlanes, GridPlanes] } | null = null;
+  private snapshot: WorldSnapshot | null = null;
+  private snapshotListeners: SnapshotListener[] = [];
+  private status: SimulationStatus = {
+    state: "stopped",
+    intervalMs: 0,
+    isTickRunning: false,
+    pendingSteps: 0,
+    tickCount: 0,
+    lastTickTime: null,
+    lastTickError: null,
+  };
+  private minimapCache: {
+    data: TerrainCell[][] | null;
+    timestamp: number;
+    resolution: number;
+    worldId: string;
+  } = { data: null, timestamp: 0, resolution: 0, worldId: "" };
+
+  /**
+   * Run a command on the simulation worker (starting the worker on first use)
+   */
+  call<M extends CommandName>(method: M, ...args: Parameters<SimulationCommands[M]>): Promise<CommandResult<M>> {
+    // The world died with the worker, so it is not restarted
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const worker = this.getWorker();
+    const id = this.nextCallId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this.post(worker, { type: "call", id, method, args });
+    });
+  }
+
+  /**
+   * The latest completed tick
+   */
+  getSnapshot(): WorldSnapshot {
+    if (!this.snapshot) {
+      throw new Error("No world snapshot published yet");
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Loop status as last reported by the worker
+   */
+  getStatus(): SimulationStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Register a callback invoked with every new snapshot, before the previous buffer is released
+   */
+  onSnapshot(listener: SnapshotListener): void {
+    this.snapshotListeners.push(listener);
+  }
+
+  getMinimapData(resolution: number): TerrainCell[][] {
+    const now = Date.now();
+    const snapshot = this.getSnapshot();
+    const cacheValid = this.minimapCache.data
+      && this.minimapCache.resolution === resolution
+      && this.minimapCache.worldId === snapshot.worldId
+      && (now - this.minimapCache.timestamp) < VIEWPORT_CONFIG.MINIMAP_CACHE_TTL;
+
+    if (cacheValid) {
+      return this.minimapCache.data!;
+    }
+
+    const minimap = snapshot.terrain.sample(resolution);
+    this.minimapCache = { data: minimap, timestamp: now, resolution, worldId: snapshot.worldId };
+    return minimap;
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = createWorker(WORKER_ENTRY);
+    worker.on("message", (response: SimulationResponse) => this.handleResponse(worker, response));
+    worker.on("error", (error) => this.handleFailure(error));
+    worker.on("exit", (code) => {
+      if (this.worker === worker) {
+        this.handleFailure(new Error(`Simulation worker exited with code ${code}`));
+      }
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleResponse(worker: Worker, response: SimulationResponse): void {
+    switch (response.type) {
+      case "result": {
+        const call = this.pending.get(response.id);
+        if (!call) return;
+        this.pending.delete(response.id);
+
+        if (response.error !== undefined) {
+          call.reject(new Error(response.error));
+        } else {
+          call.resolve(response.result);
+        }
+        return;
+      }
+
+      case "status":
+        this.status = response.status;
+        return;
+
+      case "buffers":
+        this.buffers = { width: response.width, height: response.height, planes: response.buffers };
+        return;
+
+      case "snapshot":
+        this.swapSnapshot(response.sequence, response.buffer, response.meta);
+        this.post(worker, { type: "ack", sequence: response.sequence });
+        return;
+    }
+  }
+
+  private swapSnapshot(sequence: number, buffer: number, meta: SnapshotMeta): void {
+    if (!this.buffers) {
+      throw new Error("Snapshot received before its buffers");
+    }
+
+    const tables = {} as Record<StringTableName, StringTable>;
+    for (const name of STRING_TABLES) {
+      tables[name] = StringTable.fromArray(meta.tables[name]);
+    }
+
+    const { width, height, planes } = this.buffers;
+    this.snapshot = {
+      ...meta,
+      sequence,
+      terrain: new TerrainGrid(width, height, tables, planes[buffer]),
+    };
+
+    for (const listener of this.snapshotListeners) {
+      try {
+        listener(this.snapshot);
+      } catch (error) {
+        console.error("Error in snapshot listener:", error);
+      }
+    }
+  }
+
+  private handleFailure(error: Error): void {
+    if (this.failure) return;
+    console.error("SimulationHost: Simulation worker failed:", error);
+    this.failure = error;
+    this.status = {
+      ...this.status,
+      isTickRunning: false,
+      lastTickError: { message: error.message, stack: error.stack },
+    };
+
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    pending.forEach((call) => call.reject(error));
+  }
+
+  private post(worker: Worker, request: SimulationRequest): void {
+    worker.postMessage(request);
+  }
+}
+
+export const simulation = new SimulationHost();
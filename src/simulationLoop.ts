@@ -0,0 +1,236 @@
+/**
+ * Simulation tick loop
+ *
+ * Owns the periodic timer that drives `storage.landUpdate()` and exposes
+ * run control (pause, resume, single-step, interval changes) to the API.
+ * Every tick - periodic or stepped - runs through one queue, so ticks never
+ * overlap and autosaves always see a fully updated world.
+ */
+import { setImmediate as yieldToEventLoop } from "node:timers/promises";
+import { storage, type IStorage } from "./storage";
+import { PERSISTENCE_CONFIG, SIMULATION_CONFIG } from "./config";
+import { log } from "./log";
+
+export type SimulationRunState = "running" | "paused" | "stopped";
+
+export interface SimulationStatus {
+  state: SimulationRunState;
+  intervalMs: number;
+  isTickRunning: boolean;
+  pendingSteps: number;
+  tickCount: number;
+  lastTickTime: Date | null;
+  lastTickError: { message: string; stack?: string } | null;
+}
+
+export type StatusListener = (status: SimulationStatus) => void;
+
+export class SimulationLoop {
+  private state: SimulationRunState = "stopped";
+  private intervalMs = SIMULATION_CONFIG.DEFAULT_INTERVAL;
+  private intervalId: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private isTickRunning = false;
+  private pendingSteps = 0;
+  private lastTickTime: Date | null = null;
+  private lastTickError: Error | null = null;
+  private ticksSinceLastSave = 0;
+  private statusListeners: StatusListener[] = [];
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Start the loop (paused when SIMULATION_START_PAUSED is set)
+   */
+  start(): void {
+    if (SIMULATION_CONFIG.START_PAUSED) {
+      this.state = "paused";
+      log("Simulation started paused", "simulation");
+      this.notifyStatus();
+      return;
+    }
+
+    this.state = "running";
+    this.schedule();
+    this.notifyStatus();
+  }
+
+  /**
+   * Stop the timer and wait for any in-flight tick to finish
+   */
+  async stop(): Promise<void> {
+    this.clearTimer();
+    this.state = "stopped";
+    this.pendingSteps = 0;
+    await this.queue;
+    log("Periodic task stopped", "simulation");
+    this.notifyStatus();
+  }
+
+  pause(): void {
+    if (this.state !== "running") return;
+
+    this.clearTimer();
+    this.state = "paused";
+    log("Simulation paused", "simulation");
+    this.notifyStatus();
+  }
+
+  resume(): void {
+    if (this.state !== "paused") return;
+
+    this.state = "running";
+    this.schedule();
+    log("Simulation resumed", "simulation");
+    this.notifyStatus();
+  }
+
+  /**
+   * Change the tick interval; a running timer is restarted with the new interval
+   */
+  setTickInterval(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+    if (this.state === "running") {
+      this.schedule();
+    }
+    log(`Tick interval set to ${intervalMs}ms`, "simulation");
+    this.notifyStatus();
+  }
+
+  /**
+   * Run exactly `ticks` ticks back to back.
+   * Stops early if a tick fails or the loop is stopped; returns the number of ticks completed.
+   */
+  async step(ticks: number): Promise<number> {
+    log(`Stepping ${ticks} tick(s)`, "simulation");
+    this.pendingSteps += ticks;
+
+    let started = 0;
+    let completed = 0;
+    await this.enqueue(async () => {
+      while (started < ticks && this.state !== "stopped") {
+        started += 1;
+        this.pendingSteps = Math.max(0, this.pendingSteps - 1);
+        if (!(await this.runTick())) break;
+        completed += 1;
+        // A tick on the main thread alone never yields, so let messages (stop, acks, queries) in
+        await yieldToEventLoop();
+      }
+    });
+
+    // Drop the ticks that were never started
+    this.pendingSteps = Math.max(0, this.pendingSteps - (ticks - started));
+    return completed;
+  }
+
+  /**
+   * Run a task between ticks (after every queued tick, before any later one)
+   */
+  runExclusive<T>(task: () => Promise<T> | T): Promise<T> {
+    let result: T;
+    return this.enqueue(async () => {
+      result = await task();
+    }).then(() => result);
+  }
+
+  /**
+   * Register a callback invoked whenever the run state or tick status changes
+   */
+  onStatusChange(listener: StatusListener): void {
+    this.statusListeners.push(listener);
+  }
+
+  getIntervalMs(): number {
+    return this.intervalMs;
+  }
+
+  getStatus(): SimulationStatus {
+    return {
+      state: this.state,
+      intervalMs: this.intervalMs,
+      isTickRunning: this.isTickRunning,
+      pendingSteps: this.pendingSteps,
+      tickCount: this.storage.getSimulationEngine().getTickCount(),
+      lastTickTime: this.lastTickTime,
+      lastTickError: this.lastTickError ? {
+        message: this.lastTickError.message,
+        stack: this.lastTickError.stack,
+      } : null,
+    };
+  }
+
+  private notifyStatus(): void {
+    if (this.statusListeners.length === 0) return;
+
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+
+    this.intervalId = setInterval(() => {
+      // Prevent overlapping ticks
+      if (this.isTickRunning) {
+        log("⚠️  Skipping tick - previous tick still running", "simulation");
+        return;
+      }
+
+      log("Running periodic terrain update", "simulation");
+      void this.enqueue(async () => {
+        await this.runTick();
+      });
+    }, this.intervalMs);
+  }
+
+  private clearTimer(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Chain a task after every previously queued tick
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run one tick plus autosave; returns false if the tick failed
+   */
+  private async runTick(): Promise<boolean> {
+    this.isTickRunning = true;
+    this.notifyStatus();
+    try {
+      await this.storage.landUpdate();
+      this.lastTickTime = new Date();
+      this.lastTickError = null;
+
+      // Autosave inside the tick guard so no tick mutates the world mid-save
+      this.ticksSinceLastSave += 1;
+      if (
+        PERSISTENCE_CONFIG.AUTOSAVE_INTERVAL_TICKS > 0 &&
+        this.ticksSinceLastSave >= PERSISTENCE_CONFIG.AUTOSAVE_INTERVAL_TICKS
+      ) {
+        this.ticksSinceLastSave = 0;
+        await this.storage.saveWorld();
+      }
+      return true;
+    } catch (error) {
+      this.lastTickError = error as Error;
+      console.error("Error in periodic task:", error);
+      return false;
+    } finally {
+      this.isTickRunning = false;
+      this.notifyStatus();
+    }
+  }
+}
+
+export const simulationLoop = new SimulationLoop(storage);
@@ -0,0 +1,290 @@
+/**
+ * Simulation worker entry point
+ *
+ * Owns the live world (storage plus the tick loop) and publishes a snapshot
+ * into the double buffer shared with the SimulationHost after every tick.
+ * Commands from the host run here; anything that touches the world is queued
+ * between ticks.
+ */
+import { parentPort } from "node:worker_threads";
+import { storage } from "./storage";
+import { simulationLoop } from "./simulationLoop";
+import { TerrainGrid, CELL_FIELDS, type PlaneName } from "./terrainGrid";
+import { WorldEditor, type WorldEdit } from "./worldEditor";
+import { ProbeRegistry, type ProbeDefinition } from "./probes";
+import { type WorldConfig } from "./config";
+import { type HistoryQuery } from "./systems/WeatherHistory";
+import { buildRiverNetwork, type RiverNetwork } from "./riverNetwork";
+import type { SimulationRequest, SimulationResponse, SnapshotMeta } from "./simulationHost";
+
+const port = parentPort!;
+
+function post(response: SimulationResponse): void {
+  port.postMessage(response);
+}
+
+/**
+ * Copies the live grid into whichever snapshot buffer the host is not reading.
+ *
+ * Only one snapshot is in flight at a time: until the host acknowledges it,
+ * later publishes just mark the snapshot stale, and the latest state is
+ * published on the ack (or at the end of the tick running at that moment).
+ */
+class SnapshotPublisher {
+  private buffers: TerrainGrid[] = [];
+  private backBuffer = 0;
+  private sequence = 0;
+  private awaitingAck = false;
+  private stale = false;
+  private terrain: TerrainGrid | null = null;
+  private flushWaiters: (() => void)[] = [];
+
+  publish(terrain: TerrainGrid): void {
+    this.terrain = terrain;
+    this.ensureBuffers(terrain);
+
+    if (this.awaitingAck) {
+      this.stale = true;
+      return;
+    }
+
+    const back = this.buffers[this.backBuffer].getPlanes();
+    const live = terrain.getPlanes();
+    for (const name of CELL_FIELDS as readonly PlaneName[]) {
+      back[name].set(live[name]);
+    }
+
+    this.sequence += 1;
+    post({ type: "snapshot", sequence: this.sequence, buffer: this.backBuffer, meta: captureMeta(terrain) });
+
+    this.backBuffer = 1 - this.backBuffer;
+    this.awaitingAck = true;
+    this.stale = false;
+
+    const waiters = this.flushWaiters;
+    this.flushWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  acknowledge(sequence: number): void {
+    if (sequence !== this.sequence) return;
+
+    this.awaitingAck = false;
+    // A tick in progress publishes when it completes
+    if (this.stale && this.terrain && !simulationLoop.getStatus().isTickRunning) {
+      this.publish(this.terrain);
+    }
+  }
+
+  /**
+   * Resolve once the latest world state has been posted to the host
+   */
+  flush(): Promise<void> {
+    if (!this.stale) return Promise.resolve();
+    return new Promise((resolve) => this.flushWaiters.push(resolve));
+  }
+
+  /**
+   * (Re)allocate both buffers when the world size changes; fresh buffers are never in use by the host
+   */
+  private ensureBuffers(terrain: TerrainGrid): void {
+    const current = this.buffers[0];
+    if (current && current.width === terrain.width && current.height === terrain.height) return;
+
+    this.buffers = [new TerrainGrid(terrain.width, terrain.height), new TerrainGrid(terrain.width, terrain.height)];
+    this.backBuffer = 0;
+    this.awaitingAck = false;
+    post({
+      type: "buffers",
+      width: terrain.width,
+      height: terrain.height,
+      buffers: [this.buffers[0].getPlanes(), this.buffers[1].getPlanes()],
+    });
+  }
+}
+
+function captureMeta(terrain: TerrainGrid): SnapshotMeta {
+  const engine = storage.getSimulationEngine();
+  const profiler = engine.getProfiler();
+  const weather = engine.getWeatherMetrics();
+  const ecology = engine.getEcologyMetrics();
+  const fauna = engine.getFaunaSystem();
+
+  return {
+    worldId: storage.getWorldId(),
+    tick: engine.getTickCount(),
+    gameTime: storage.getGameTime(),
+    worldConfig: storage.getWorldConfig(),
+    tables: terrain.exportTables(),
+    weather: { latest: weather.getLatest(), history: weather.getHistory() },
+    ecology: { latest: ecology.getLatest(), history: ecology.getHistory() },
+    herds: fauna.getHerds(),
+    population: fauna.getPopulation(),
+    riverCount: engine.getHydrologySystem().getRivers().length,
+    lakeCount: engine.getLakeManager().getLakes().length,
+    systems: engine.getRegistry().list(),
+    performance: profiler.getReport(),
+    ticksProfiled: profiler.getTicksProfiled(),
+    tickHistogram: profiler.getTickHistogram(),
+    systemHistograms: profiler.getSystemHistograms(),
+    workerThreads: engine.getWorkerPool().getWorkerCount(),
+  };
+}
+
+const publisher = new SnapshotPublisher();
+const editor = new WorldEditor(storage);
+const probes = new ProbeRegistry(storage);
+
+// River graph of the live world; built on request, at most once per tick or edit
+let riverNetworkCache: { network: RiverNetwork; worldId: string; tick: number } | null = null;
+
+/**
+ * Publish the current world (after a change made outside a tick) and wait until it is posted
+ */
+async function publishNow(): Promise<void> {
+  await simulationLoop.runExclusive(async () => publisher.publish(await storage.getTerrainData()));
+  await publisher.flush();
+}
+
+const commands = {
+  async initialize(): Promise<void> {
+    await storage.initializeWorld();
+    await publishNow();
+    post({ type: "status", status: simulationLoop.getStatus() });
+  },
+
+  start(): void {
+    simulationLoop.start();
+  },
+
+  async stop(): Promise<void> {
+    await simulationLoop.stop();
+  },
+
+  pause(): void {
+    simulationLoop.pause();
+  },
+
+  resume(): void {
+    simulationLoop.resume();
+  },
+
+  setTickInterval(intervalMs: number): void {
+    simulationLoop.setTickInterval(intervalMs);
+  },
+
+  /**
+   * Run `ticks` ticks; resolves once the snapshot of the last one has been posted
+   */
+  async step(ticks: number): Promise<number> {
+    const completed = await simulationLoop.step(ticks);
+    await publisher.flush();
+    return completed;
+  },
+
+  /**
+   * Enable/disable a system or change its cadence; null if there is no such system
+   */
+  async updateSystem(name: string, changes: { enabled?: boolean; cadence?: number }) {
+    const registry = storage.getSimulationEngine().getRegistry();
+    const info = await simulationLoop.runExclusive(() => {
+      if (!registry.has(name)) return null;
+      if (changes.enabled !== undefined) registry.setEnabled(name, changes.enabled);
+      if (changes.cadence !== undefined) registry.setCadence(name, changes.cadence);
+      return registry.getInfo(name) ?? null;
+    });
+
+    if (info) {
+      await publishNow();
+    }
+    return info;
+  },
+
+  /**
+   * Apply a world edit; null if it did not apply (nothing is recorded then)
+   */
+  async edit(edit: WorldEdit, user: string) {
+    const entry = await simulationLoop.runExclusive(() => editor.apply(edit, user));
+    if (entry) {
+      riverNetworkCache = null;
+      await publishNow();
+    }
+    return entry;
+  },
+
+  getEdits(limit: number) {
+    return editor.getEntries(limit);
+  },
+
+  /**
+   * Replace the world with a newly generated one and save it; resolves once its snapshot is posted
+   */
+  async regenerate(overrides: Partial<WorldConfig>): Promise<void> {
+    await simulationLoop.runExclusive(async () => {
+      probes.resetWorld(await storage.regenerateWorld(overrides));
+      await storage.saveWorld();
+    });
+    await publishNow();
+  },
+
+  addProbe(definition: ProbeDefinition, user: string) {
+    return probes.add(definition, user);
+  },
+
+  removeProbe(name: string): boolean {
+    return probes.remove(name);
+  },
+
+  listProbes() {
+    return probes.list();
+  },
+
+  getProbeSeries(name: string, limit?: number) {
+    return probes.getSeries(name, limit);
+  },
+
+  /**
+   * River graph of the live world, built here so the host never walks the grid
+   */
+  async getRiverNetwork(): Promise<RiverNetwork> {
+    return simulationLoop.runExclusive(async () => {
+      const worldId = storage.getWorldId();
+      const tick = storage.getSimulationEngine().getTickCount();
+      if (riverNetworkCache?.worldId !== worldId || riverNetworkCache.tick !== tick) {
+        riverNetworkCache = { network: buildRiverNetwork(await storage.getTerrainData()), worldId, tick };
+      }
+      return riverNetworkCache.network;
+    });
+  },
+
+  queryWeatherHistory(query: HistoryQuery) {
+    return storage.getSimulationEngine().getWeatherHistory().query(query);
+  },
+
+  async save(): Promise<void> {
+    await simulationLoop.runExclusive(() => storage.saveWorld());
+  },
+};
+
+export type SimulationCommands = typeof commands;
+
+storage.onTick((terrain, gameTime) => {
+  probes.record(terrain, gameTime);
+  publisher.publish(terrain);
+});
+simulationLoop.onStatusChange((status) => post({ type: "status", status }));
+
+port.on("message", async (request: SimulationRequest) => {
+  if (request.type === "ack") {
+    publisher.acknowledge(request.sequence);
+    return;
+  }
+
+  try {
+    const command = commands[request.method] as (...args: unknown[]) => unknown;
+    const result = await command(...request.args);
+    post({ type: "result", id: request.id, result });
+  } catch (error) {
+    post({ type: "result", id: request.id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -1,8 +1,10 @@
-import { type TerrainCell, type TerrainGrid } from "./schema";
+import { TerrainGrid, CellType } from "./terrainGrid";
 import { WorldGenerator } from "./worldGenerator";
-import { DEFAULT_WORLD_CONFIG, GRASS_CONFIG, TIME_CONFIG, VIEWPORT_CONFIG } from "./config";
+import { type WorldConfig, DEFAULT_WORLD_CONFIG, PERSISTENCE_CONFIG, TIME_CONFIG } from "./config";
 import { SimulationEngine } from "./systems/SimulationEngine";
-import { GridHelper } from "./systems/GridHelper";
+import { loadWorld, saveWorld } from "./persistence";
+import { SeededRandom } from "./random";
+import { randomUUID } from "node:crypto";
 
 // Month information with daylight hours and base temperatures (at equator, sea level)
 interface MonthInfo {
@@ -41,43 +43,45 @@ export interface GameTime {
   daylight_hours: number;
 }
 
+export type TickListener = (terrain: TerrainGrid, gameTime: GameTime) => void;
+
 export interface IStorage {
   getTerrainData(): Promise<TerrainGrid>;
-  getMinimapData(resolution: number): TerrainCell[][];
   getWorldSize(): number;
+  getWorldConfig(): WorldConfig;
   generateTerrain(): Promise<TerrainGrid>;
+  initializeWorld(): Promise<void>;
+  saveWorld(filePath?: string): Promise<void>;
+  loadWorld(filePath?: string): Promise<boolean>;
   landUpdate(): Promise<void>;
+  onTick(listener: TickListener): void;
   getGameTime(): GameTime;
   getSimulationEngine(): SimulationEngine;
+  getWorldId(): string;
+  regenerateWorld(overrides: Partial<WorldConfig>): Promise<TerrainGrid>;
+  addSpring(x: number, y: number): boolean;
+  removeSpring(x: number, y: number): boolean;
 }
 
 export class MemStorage implements IStorage {
   private terrain: TerrainGrid;
+  private worldConfig: WorldConfig;
+  private random: SeededRandom;
   private worldGenerator: WorldGenerator;
   private gameTime: GameTime;
   private simulationEngine: SimulationEngine;
-  private minimapCache: {
-    data: TerrainCell[][] | null;
-    timestamp: number;
-    resolution: number;
-  } = { data: null, timestamp: 0, resolution: 0 };
+  private tickListeners: TickListener[] = [];
+  // Changes whenever the world is replaced (generated or loaded), unlike the seed
+  private worldId = "";
 
   constructor() {
-    this.terrain = [];
-    this.worldGenerator = new WorldGenerator(DEFAULT_WORLD_CONFIG);
-    this.simulationEngine = new SimulationEngine();
-
-    // Initialize game time - starting at Year 1, January 1st, midnight
-    this.gameTime = {
-      year: 1,
-      month: 1,
-      day: 1,
-      hour: 0,
-      minute: 0,
-      is_day: false,
-      month_name: "January",
-      daylight_hours: 8
-    };
+    this.terrain = new TerrainGrid(0, 0);
+    this.worldConfig = { ...DEFAULT_WORLD_CONFIG };
+    this.random = new SeededRandom(this.worldConfig.seed);
+    this.worldGenerator = new WorldGenerator(this.worldConfig, this.random);
+    this.simulationEngine = new SimulationEngine(this.random);
+
+    this.gameTime = createInitialGameTime();
     this.updateDayNightStatus();
   }
 
@@ -127,134 +131,225 @@ export class MemStorage implements IStorage {
   }
 
   getWorldSize(): number {
-    return this.terrain.length;
+    return this.terrain.width;
+  }
+
+  getWorldConfig(): WorldConfig {
+    return { ...this.worldConfig };
   }
 
   getSimulationEngine(): SimulationEngine {
     return this.simulationEngine;
   }
 
+  getWorldId(): string {
+    return this.worldId;
+  }
+
 
   async landUpdate() {
     this.advanceTime();
-    this.simulationEngine.update(this.terrain, this.gameTime);
+    await this.simulationEngine.update(this.terrain, this.gameTime);
+
+    const gameTime = this.getGameTime();
+    for (const listener of this.tickListeners) {
+      try {
+        listener(this.terrain, gameTime);
+      } catch (error) {
+        console.error("Error in tick listener:", error);
+      }
+    }
   }
 
-  async getTerrainData(): Promise<TerrainGrid> {
-    return this.terrain;
+  /**
+   * Register a callback invoked after every completed tick
+   */
+  onTick(listener: TickListener): void {
+    this.tickListeners.push(listener);
   }
 
-  getMinimapData(resolution: number): TerrainCell[][] {
-    const now = Date.now();
-    const cacheValid = this.minimapCache.data
-      && this.minimapCache.resolution === resolution
-      && (now - this.minimapCache.timestamp) < VIEWPORT_CONFIG.MINIMAP_CACHE_TTL;
-
-    if (cacheValid) {
-      return this.minimapCache.data!;
+  /**
+   * Restore the world from the save file, or generate a fresh one if none exists
+   */
+  async initializeWorld(): Promise<void> {
+    const restored = await this.loadWorld();
+    if (!restored) {
+      await this.generateTerrain();
     }
-
-    const minimap = this.generateMinimap(resolution);
-    this.minimapCache = { data: minimap, timestamp: now, resolution };
-    return minimap;
   }
 
-  private generateMinimap(resolution: number): TerrainCell[][] {
-    const gridSize = this.terrain.length;
-    if (gridSize === 0) {
-      return [];
-    }
-    const clampedResolution = Math.max(1, Math.min(resolution, gridSize));
-    const samplingInterval = Math.max(1, Math.floor(gridSize / clampedResolution));
-    const minimap: TerrainCell[][] = [];
-
-    for (let y = 0; y < clampedResolution; y += 1) {
-      const row: TerrainCell[] = [];
-      const sourceY = (y * samplingInterval) % gridSize;
-      const terrainRow = this.terrain[sourceY];
-      for (let x = 0; x < clampedResolution; x += 1) {
-        const sourceX = (x * samplingInterval) % gridSize;
-        row.push(terrainRow[sourceX]);
-      }
-      minimap.push(row);
+  async saveWorld(filePath: string = PERSISTENCE_CONFIG.SAVE_FILE_PATH): Promise<void> {
+    if (this.terrain.size === 0) {
+      return;
     }
 
-    return minimap;
+    const start = Date.now();
+    await saveWorld(filePath, {
+      terrain: this.terrain,
+      gameTime: this.getGameTime(),
+      worldConfig: { ...this.worldConfig },
+      randomState: this.random.getState(),
+      simulation: this.simulationEngine.getState(),
+    });
+    console.log(`Persistence: world saved to ${filePath} in ${Date.now() - start}ms`);
   }
 
-  private seedInitialGrass(terrain: TerrainGrid): void {
-    const { width, height } = GridHelper.getDimensions(terrain);
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const cell = terrain[y][x];
+  async loadWorld(filePath: string = PERSISTENCE_CONFIG.SAVE_FILE_PATH): Promise<boolean> {
+    const start = Date.now();
+    const saved = await loadWorld(filePath);
+    if (!saved) {
+      return false;
+    }
 
-        // Skip water and high mountains
-        if (cell.type === "river" || cell.type === "spring" || cell.water_height > 0.5) continue;
-        if ((cell.altitude ?? 0) > 1500) continue;
+    this.terrain = saved.terrain;
+    // In place: the world generator shares this config
+    Object.assign(this.worldConfig, saved.worldConfig);
+    this.worldConfig.gridSize = saved.terrain.width;
+    this.random.setState(saved.randomState);
+    this.gameTime = { ...saved.gameTime };
+    this.updateDayNightStatus();
+    this.simulationEngine.loadState(saved.simulation);
+    this.worldId = createWorldId();
 
-        // Check if conditions are suitable
-        const moisture = cell.moisture ?? 0;
-        if (moisture < GRASS_CONFIG.SEED_MOISTURE_THRESHOLD) continue;
+    console.log(
+      `Persistence: world restored from ${filePath} (Year ${this.gameTime.year}, ${this.gameTime.month_name} ${this.gameTime.day}, ${this.gameTime.hour}:00) in ${Date.now() - start}ms`,
+    );
+    return true;
+  }
 
-        // Random seeding
-        if (Math.random() > GRASS_CONFIG.INITIAL_SEED_PROBABILITY) continue;
+  async getTerrainData(): Promise<TerrainGrid> {
+    return this.terrain;
+  }
 
-        // Select species based on climate
-        const temp = cell.temperature ?? 15;
-        let selectedSpecies: string;
+  /**
+   * Turn a dry cell into a spring feeding a new river; false if the cell is already water
+   */
+  addSpring(x: number, y: number): boolean {
+    const i = this.terrain.wrapIndex(x, y);
+    if (this.terrain.isWater(i)) {
+      return false;
+    }
 
-        if (moisture < 0.25) {
-          selectedSpecies = "drought_resistant";
-        } else if (temp > 25) {
-          selectedSpecies = "warm_season";
-        } else {
-          selectedSpecies = "cool_season";
-        }
+    initializeSpring(this.terrain, i);
+    this.simulationEngine.getHydrologySystem().addSpring(this.terrain, i);
+    return true;
+  }
 
-        cell.grass_density = 0.2 + Math.random() * 0.3;
-        cell.grass_type = selectedSpecies;
-        cell.grass_health = 0.7 + Math.random() * 0.3;
-        cell.grass_dormant = 0;
-      }
+  /**
+   * Turn a spring back into dry rock (soil type is restored by the moisture system); false if the cell is not a spring
+   */
+  removeSpring(x: number, y: number): boolean {
+    const terrain = this.terrain;
+    const i = terrain.wrapIndex(x, y);
+    if (terrain.type[i] !== CellType.SPRING) {
+      return false;
     }
 
-    console.log("GrassSystem: Initial grass seeded");
+    this.simulationEngine.getHydrologySystem().removeSpring(terrain, i);
+    terrain.type[i] = CellType.ROCK;
+    terrain.base_moisture[i] = 0;
+    terrain.water_height[i] = 0;
+    terrain.altitude[i] = terrain.terrain_height[i];
+    terrain.distance_from_water[i] = Infinity;
+    return true;
+  }
+
+  /**
+   * Replace the world with a freshly generated one, applying `overrides` to the world config.
+   * Game time and simulation state start over. The new world is generated aside first, so
+   * if generation fails the current world, config and simulation state are left as they were.
+   */
+  async regenerateWorld(overrides: Partial<WorldConfig>): Promise<TerrainGrid> {
+    const start = Date.now();
+    const worldConfig = { ...this.worldConfig, ...overrides };
+    const random = new SeededRandom(worldConfig.seed);
+    const terrain = buildTerrain(new WorldGenerator(worldConfig, random), random, worldConfig.seed);
+
+    // In place: the world generator shares this config
+    Object.assign(this.worldConfig, worldConfig);
+    this.random.setState(random.getState());
+    this.gameTime = createInitialGameTime();
+    this.updateDayNightStatus();
+    this.simulationEngine.reset();
+    this.installTerrain(terrain);
+
+    console.log(`World regenerated (seed ${this.worldConfig.seed}, ${terrain.width}x${terrain.height}) in ${Date.now() - start}ms`);
+    return terrain;
   }
 
   async generateTerrain(): Promise<TerrainGrid> {
-    // Regenerate the world with new noise seed
-    this.worldGenerator.regenerate();
-
-    // Generate terrain using the world generator with wrapping noise
-    this.terrain = this.worldGenerator.generateTerrain();
-
-    // Select and mark spring points
-    const springs = this.worldGenerator.selectSpringPoints(this.terrain);
-
-    // Initialize springs in terrain
-    for (const spring of springs) {
-      if (this.terrain[spring.y] && this.terrain[spring.y][spring.x]) {
-        const cell = this.terrain[spring.y][spring.x];
-        cell.type = "spring";
-        cell.base_moisture = 1;
-        cell.added_moisture = 0;
-        cell.moisture = 1;
-        cell.water_height = 1;
-        cell.altitude = cell.terrain_height + cell.water_height;
-        cell.distance_from_water = 0;
-        cell.temperature = 0;
-      }
-    }
+    const terrain = buildTerrain(this.worldGenerator, this.random, this.worldConfig.seed);
+    this.installTerrain(terrain);
+    return terrain;
+  }
+
+  /**
+   * Make a generated grid the live world and start its rivers
+   */
+  private installTerrain(terrain: TerrainGrid): void {
+    this.terrain = terrain;
+    this.worldId = createWorldId();
 
     // Initialize rivers in the hydrology system
-    this.simulationEngine.getHydrologySystem().initializeRivers(this.terrain);
+    this.simulationEngine.getHydrologySystem().initializeRivers(terrain);
 
     // Note: Grass seeding is delayed until tick 100 in SimulationEngine
     // to allow moisture to establish first
+  }
+}
 
-    return this.terrain;
+/**
+ * Generate terrain with springs from a seed, touching nothing but the generator and its random source
+ */
+function buildTerrain(generator: WorldGenerator, random: SeededRandom, seed: number): TerrainGrid {
+  // Restart the random sequence so the same seed always yields the same world
+  random.reseed(seed);
+  generator.regenerate();
+
+  // Generate terrain using the world generator with wrapping noise
+  const terrain = generator.generateTerrain();
+
+  // Select and mark spring points
+  const springs = generator.selectSpringPoints(terrain);
+  for (const spring of springs) {
+    if (spring.x < terrain.width && spring.y < terrain.height) {
+      initializeSpring(terrain, terrain.index(spring.x, spring.y));
+    }
   }
+
+  return terrain;
+}
+
+// Initial game time - Year 1, January 1st, midnight
+function createInitialGameTime(): GameTime {
+  return {
+    year: 1,
+    month: 1,
+    day: 1,
+    hour: 0,
+    minute: 0,
+    is_day: false,
+    month_name: "January",
+    daylight_hours: 8
+  };
+}
+
+function createWorldId(): string {
+  return randomUUID();
+}
+
+/**
+ * Mark a cell as a spring: permanently wet with a little standing water
+ */
+function initializeSpring(terrain: TerrainGrid, i: number): void {
+  terrain.type[i] = CellType.SPRING;
+  terrain.base_moisture[i] = 1;
+  terrain.added_moisture[i] = 0;
+  terrain.moisture[i] = 1;
+  terrain.water_height[i] = 1;
+  terrain.altitude[i] = terrain.terrain_height[i] + terrain.water_height[i];
+  terrain.distance_from_water[i] = 0;
+  terrain.temperature[i] = 0;
 }
 
 export const storage = new MemStorage();
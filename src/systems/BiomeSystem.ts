@@ -0,0 +1,136 @@
+import { type TerrainGrid, type BiomeName, BIOMES, CellType } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { GridHelper } from "./GridHelper";
+import { BIOME_CONFIG, PERFORMANCE_CONFIG, TICKS_PER_YEAR, TIME_CONFIG } from "../config";
+import { performance } from "node:perf_hooks";
+
+// Biomes are pre-interned in table order, so codes are fixed
+const BIOME_CODE = Object.fromEntries(BIOMES.map((biome, index) => [biome, index + 1])) as Record<BiomeName, number>;
+
+/**
+ * Serializable biome system state
+ */
+export interface BiomeState {
+    ticksRecorded: number;
+    lastClassifiedMonth: number;
+}
+
+/**
+ * Tracks rolling per-cell climate statistics and classifies cells into biomes.
+ *
+ * Annual mean temperature, annual precipitation and mean ground moisture are
+ * exponential moving averages over one simulated year (a plain running mean
+ * until the first year is complete). Cells are reclassified at the start of
+ * every in-game month, so biomes follow the climate as it shifts.
+ */
+export class BiomeSystem implements ISimulationSystem {
+    private ticksRecorded = 0;
+    private lastClassifiedMonth = -1;
+
+    getState(): BiomeState {
+        return {
+            ticksRecorded: this.ticksRecorded,
+            lastClassifiedMonth: this.lastClassifiedMonth,
+        };
+    }
+
+    loadState(state: BiomeState): void {
+        this.ticksRecorded = state.ticksRecorded;
+        this.lastClassifiedMonth = state.lastClassifiedMonth;
+    }
+
+    update(terrain: TerrainGrid, gameTime: GameTime): void {
+        const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
+        const start = shouldLog ? performance.now() : 0;
+
+        this.recordClimate(terrain);
+
+        const monthKey = gameTime.year * TIME_CONFIG.MONTHS_PER_YEAR + gameTime.month;
+        if (monthKey !== this.lastClassifiedMonth) {
+            this.lastClassifiedMonth = monthKey;
+            this.classify(terrain);
+        }
+
+        if (shouldLog) {
+            const duration = performance.now() - start;
+            if (duration > 1000) {
+                console.warn(`${this.constructor.name} took ${Math.round(duration)}ms`);
+            }
+        }
+    }
+
+    /**
+     * Fold this tick's conditions into the rolling annual statistics
+     */
+    private recordClimate(terrain: TerrainGrid): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+        this.ticksRecorded++;
+        const alpha = 1 / Math.min(this.ticksRecorded, TICKS_PER_YEAR);
+
+        for (let i = 0; i < width * height; i++) {
+            terrain.climate_temperature[i] += (terrain.temperature[i] - terrain.climate_temperature[i]) * alpha;
+            // Scaled to an annual total
+            terrain.climate_precipitation[i] +=
+                (terrain.precipitation_rate[i] * TICKS_PER_YEAR - terrain.climate_precipitation[i]) * alpha;
+            terrain.climate_moisture[i] += (terrain.moisture[i] - terrain.climate_moisture[i]) * alpha;
+        }
+    }
+
+    private classify(terrain: TerrainGrid): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+        let changed = 0;
+
+        for (let i = 0; i < width * height; i++) {
+            const code = BIOME_CODE[this.classifyCell(terrain, i)];
+            if (terrain.biome[i] !== code) {
+                terrain.biome[i] = code;
+                changed++;
+            }
+        }
+
+        console.log(`BiomeSystem: Reclassified biomes (${changed} cells changed)`);
+    }
+
+    /**
+     * Whittaker-style classification from annual temperature and wetness
+     */
+    private classifyCell(terrain: TerrainGrid, i: number): BiomeName {
+        const config = BIOME_CONFIG;
+
+        switch (terrain.type[i]) {
+            case CellType.OCEAN:
+                return "ocean";
+            case CellType.LAKE:
+                return "lake";
+            case CellType.RIVER:
+            case CellType.SPRING:
+                return "river";
+        }
+
+        const temperature = terrain.climate_temperature[i];
+        const moisture = terrain.climate_moisture[i];
+        const wetness = Math.min(1, Math.max(moisture, terrain.climate_precipitation[i] / config.WET_ANNUAL_PRECIPITATION));
+
+        if (temperature < config.ICE_TEMPERATURE) return "ice";
+        if (moisture >= config.WETLAND_MOISTURE && temperature >= 0) return "wetland";
+        if (temperature < config.TUNDRA_TEMPERATURE) return "tundra";
+
+        if (temperature < config.BOREAL_TEMPERATURE) {
+            if (wetness >= config.BOREAL_FOREST_WETNESS) return "taiga";
+            return wetness < config.ARID_WETNESS ? "cold_desert" : "tundra";
+        }
+
+        if (temperature < config.TROPICAL_TEMPERATURE) {
+            if (wetness < config.ARID_WETNESS) return "cold_desert";
+            if (wetness < config.DRY_WETNESS) return "temperate_grassland";
+            if (wetness < config.HUMID_WETNESS) return "temperate_forest";
+            return "temperate_rainforest";
+        }
+
+        if (wetness < config.ARID_WETNESS) return "desert";
+        if (wetness < config.DRY_WETNESS) return "savanna";
+        if (wetness < config.HUMID_WETNESS) return "tropical_seasonal_forest";
+        return "tropical_rainforest";
+    }
+}
@@ -0,0 +1,234 @@
+import { type TerrainGrid } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { GridHelper } from "./GridHelper";
+import { CLIMATE_STATS_CONFIG, PERFORMANCE_CONFIG, TIME_CONFIG } from "../config";
+import { toGameHour } from "./WeatherHistory";
+import { performance } from "node:perf_hooks";
+
+const HOURS_PER_MONTH = TIME_CONFIG.HOURS_PER_DAY * TIME_CONFIG.DAYS_PER_MONTH;
+const HOURS_PER_YEAR = HOURS_PER_MONTH * TIME_CONFIG.MONTHS_PER_YEAR;
+
+/**
+ * Serializable climate statistics state
+ */
+export interface ClimateStatsState {
+    lastRecordedHour: number;    // Game hour of the last recorded tick (-1 before the first)
+    monthHours: number;          // Hours recorded in the current month
+    yearHours: number;           // Hours recorded in the current year
+    yearMonths: number;          // Months folded into the current year
+}
+
+/**
+ * Keeps per-cell climate records over calendar months and years.
+ *
+ * Every hour adds the cell's rainfall and temperature to running accumulators
+ * (the grid's private accumulator planes). When a day ends, frost days and dry spells are counted: a
+ * frost day dropped below FROST_TEMPERATURE at least once, a dry day had less
+ * than DRY_DAY_RAINFALL, and dry_run_days carries the current spell across
+ * month and year boundaries.
+ *
+ * Periods are calendar months and years, not rolling windows. When a month or
+ * year ends, its totals, extremes, mean temperature, frost days and longest dry
+ * spell are published to the climate_month_* / climate_year_* planes, which
+ * hold until the next one ends (and read 0 until the first one has). The same
+ * statistics for the month and year in progress go to the
+ * climate_current_month_* / climate_current_year_* planes at the end of every
+ * day.
+ */
+export class ClimateStatsSystem implements ISimulationSystem {
+    private lastRecordedHour = -1;
+    private monthHours = 0;
+    private yearHours = 0;
+    private yearMonths = 0;
+
+    getState(): ClimateStatsState {
+        return {
+            lastRecordedHour: this.lastRecordedHour,
+            monthHours: this.monthHours,
+            yearHours: this.yearHours,
+            yearMonths: this.yearMonths,
+        };
+    }
+
+    loadState(state: ClimateStatsState): void {
+        this.lastRecordedHour = state.lastRecordedHour;
+        this.monthHours = state.monthHours;
+        this.yearHours = state.yearHours;
+        this.yearMonths = state.yearMonths;
+    }
+
+    update(terrain: TerrainGrid, gameTime: GameTime): void {
+        const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
+        const start = shouldLog ? performance.now() : 0;
+
+        // Close the periods that ended since the last recorded hour (hours may be skipped by cadence)
+        const hour = toGameHour(gameTime);
+        const last = this.lastRecordedHour;
+        if (last >= 0) {
+            if (Math.floor(hour / TIME_CONFIG.HOURS_PER_DAY) !== Math.floor(last / TIME_CONFIG.HOURS_PER_DAY)) {
+                this.closeDay(terrain);
+                this.publishToDate(terrain);
+            }
+            if (Math.floor(hour / HOURS_PER_MONTH) !== Math.floor(last / HOURS_PER_MONTH)) {
+                this.closeMonth(terrain);
+            }
+            if (Math.floor(hour / HOURS_PER_YEAR) !== Math.floor(last / HOURS_PER_YEAR)) {
+                this.closeYear(terrain);
+            }
+        }
+
+        this.recordHour(terrain);
+        this.lastRecordedHour = hour;
+
+        if (shouldLog) {
+            const duration = performance.now() - start;
+            if (duration > 1000) {
+                console.warn(`${this.constructor.name} took ${Math.round(duration)}ms`);
+            }
+        }
+    }
+
+    private recordHour(terrain: TerrainGrid): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const acc = terrain.getAccumulators();
+        const firstHour = this.monthHours === 0;
+
+        for (let i = 0; i < width * height; i++) {
+            const rain = terrain.precipitation_rate[i];
+            const temperature = terrain.temperature[i];
+
+            acc.acc_day_rainfall[i] += rain;
+            acc.acc_month_rainfall[i] += rain;
+            acc.acc_month_temp_sum[i] += temperature;
+            if (firstHour || temperature < acc.acc_month_temp_min[i]) acc.acc_month_temp_min[i] = temperature;
+            if (firstHour || temperature > acc.acc_month_temp_max[i]) acc.acc_month_temp_max[i] = temperature;
+            if (temperature < CLIMATE_STATS_CONFIG.FROST_TEMPERATURE) acc.frost_today[i] = 1;
+        }
+
+        this.monthHours++;
+    }
+
+    private closeDay(terrain: TerrainGrid): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const acc = terrain.getAccumulators();
+
+        for (let i = 0; i < width * height; i++) {
+            if (acc.frost_today[i]) {
+                acc.acc_month_frost_days[i]++;
+            }
+
+            if (acc.acc_day_rainfall[i] < CLIMATE_STATS_CONFIG.DRY_DAY_RAINFALL) {
+                // Saturates at the uint16 limit (about 180 years)
+                acc.dry_run_days[i] = Math.min(acc.dry_run_days[i] + 1, 0xffff);
+                if (acc.dry_run_days[i] > acc.acc_month_dry_spell[i]) {
+                    acc.acc_month_dry_spell[i] = acc.dry_run_days[i];
+                }
+            } else {
+                acc.dry_run_days[i] = 0;
+            }
+
+            acc.frost_today[i] = 0;
+            acc.acc_day_rainfall[i] = 0;
+        }
+    }
+
+    /**
+     * Publish the month and year so far (up to the day just closed)
+     */
+    private publishToDate(terrain: TerrainGrid): void {
+        if (this.monthHours === 0) return;
+
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const acc = terrain.getAccumulators();
+        const firstMonth = this.yearMonths === 0;
+        const yearHours = this.yearHours + this.monthHours;
+
+        for (let i = 0; i < width * height; i++) {
+            terrain.climate_current_month_rainfall[i] = acc.acc_month_rainfall[i];
+            terrain.climate_current_month_temp_min[i] = acc.acc_month_temp_min[i];
+            terrain.climate_current_month_temp_max[i] = acc.acc_month_temp_max[i];
+            terrain.climate_current_month_temp_mean[i] = acc.acc_month_temp_sum[i] / this.monthHours;
+            terrain.climate_current_month_frost_days[i] = acc.acc_month_frost_days[i];
+            terrain.climate_current_month_dry_spell[i] = acc.acc_month_dry_spell[i];
+
+            // The year's completed months plus the current one
+            terrain.climate_current_year_rainfall[i] = acc.acc_year_rainfall[i] + acc.acc_month_rainfall[i];
+            terrain.climate_current_year_temp_min[i] = firstMonth
+                ? acc.acc_month_temp_min[i]
+                : Math.min(acc.acc_year_temp_min[i], acc.acc_month_temp_min[i]);
+            terrain.climate_current_year_temp_max[i] = firstMonth
+                ? acc.acc_month_temp_max[i]
+                : Math.max(acc.acc_year_temp_max[i], acc.acc_month_temp_max[i]);
+            terrain.climate_current_year_temp_mean[i] = (acc.acc_year_temp_sum[i] + acc.acc_month_temp_sum[i]) / yearHours;
+            terrain.climate_current_year_frost_days[i] = acc.acc_year_frost_days[i] + acc.acc_month_frost_days[i];
+            terrain.climate_current_year_dry_spell[i] = Math.max(acc.acc_year_dry_spell[i], acc.acc_month_dry_spell[i]);
+        }
+    }
+
+    /**
+     * Publish the month and fold it into the year
+     */
+    private closeMonth(terrain: TerrainGrid): void {
+        if (this.monthHours === 0) return;
+
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const acc = terrain.getAccumulators();
+        const firstMonth = this.yearMonths === 0;
+
+        for (let i = 0; i < width * height; i++) {
+            terrain.climate_month_rainfall[i] = acc.acc_month_rainfall[i];
+            terrain.climate_month_temp_min[i] = acc.acc_month_temp_min[i];
+            terrain.climate_month_temp_max[i] = acc.acc_month_temp_max[i];
+            terrain.climate_month_temp_mean[i] = acc.acc_month_temp_sum[i] / this.monthHours;
+            terrain.climate_month_frost_days[i] = acc.acc_month_frost_days[i];
+            terrain.climate_month_dry_spell[i] = acc.acc_month_dry_spell[i];
+
+            acc.acc_year_rainfall[i] += acc.acc_month_rainfall[i];
+            acc.acc_year_temp_sum[i] += acc.acc_month_temp_sum[i];
+            acc.acc_year_frost_days[i] += acc.acc_month_frost_days[i];
+            if (firstMonth || acc.acc_month_temp_min[i] < acc.acc_year_temp_min[i]) {
+                acc.acc_year_temp_min[i] = acc.acc_month_temp_min[i];
+            }
+            if (firstMonth || acc.acc_month_temp_max[i] > acc.acc_year_temp_max[i]) {
+                acc.acc_year_temp_max[i] = acc.acc_month_temp_max[i];
+            }
+            if (acc.acc_month_dry_spell[i] > acc.acc_year_dry_spell[i]) {
+                acc.acc_year_dry_spell[i] = acc.acc_month_dry_spell[i];
+            }
+
+            acc.acc_month_rainfall[i] = 0;
+            acc.acc_month_temp_sum[i] = 0;
+            acc.acc_month_frost_days[i] = 0;
+            acc.acc_month_dry_spell[i] = 0;
+        }
+
+        this.yearHours += this.monthHours;
+        this.yearMonths++;
+        this.monthHours = 0;
+    }
+
+    private closeYear(terrain: TerrainGrid): void {
+        if (this.yearHours === 0) return;
+
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const acc = terrain.getAccumulators();
+
+        for (let i = 0; i < width * height; i++) {
+            terrain.climate_year_rainfall[i] = acc.acc_year_rainfall[i];
+            terrain.climate_year_temp_min[i] = acc.acc_year_temp_min[i];
+            terrain.climate_year_temp_max[i] = acc.acc_year_temp_max[i];
+            terrain.climate_year_temp_mean[i] = acc.acc_year_temp_sum[i] / this.yearHours;
+            terrain.climate_year_frost_days[i] = acc.acc_year_frost_days[i];
+            terrain.climate_year_dry_spell[i] = acc.acc_year_dry_spell[i];
+
+            acc.acc_year_rainfall[i] = 0;
+            acc.acc_year_temp_sum[i] = 0;
+            acc.acc_year_frost_days[i] = 0;
+            acc.acc_year_dry_spell[i] = 0;
+        }
+
+        this.yearHours = 0;
+        this.yearMonths = 0;
+    }
+}
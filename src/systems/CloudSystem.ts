@@ -1,4 +1,4 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
@@ -16,10 +16,8 @@ export class CloudSystem implements ISimulationSystem {
      */
     update(terrain: TerrainGrid, gameTime: GameTime): void {
         const { width, height } = GridHelper.getDimensions(terrain);
-        const baseClouds: number[][] = Array.from({ length: height }, (_, y) =>
-            Array.from({ length: width }, (_, x) => terrain[y][x].cloud_density ?? 0),
-        );
-        const newClouds = baseClouds.map((row) => [...row]);
+        const baseClouds = new Float64Array(terrain.cloud_density);
+        const newClouds = baseClouds.slice();
 
         this.advectClouds(terrain, baseClouds, newClouds);
 
@@ -31,9 +29,9 @@ export class CloudSystem implements ISimulationSystem {
 
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
+                const i = y * width + x;
                 const altitudeNormalized = altitudeRange > 0
-                    ? Math.min(1, Math.max(0, (cell.terrain_height - DEFAULT_WORLD_CONFIG.minHeight) / altitudeRange))
+                    ? Math.min(1, Math.max(0, (terrain.terrain_height[i] - DEFAULT_WORLD_CONFIG.minHeight) / altitudeRange))
                     : 0;
 
                 const saturationThreshold = Math.max(
@@ -41,11 +39,12 @@ export class CloudSystem implements ISimulationSystem {
                     CLOUD_CONFIG.BASE_SATURATION * (1 - CLOUD_CONFIG.ALTITUDE_SATURATION_FACTOR * altitudeNormalized),
                 );
 
-                if (cell.air_humidity > saturationThreshold) {
-                    const excessHumidity = cell.air_humidity - saturationThreshold;
+                const humidity = terrain.air_humidity[i];
+                if (humidity > saturationThreshold) {
+                    const excessHumidity = humidity - saturationThreshold;
                     const formation = excessHumidity * CLOUD_CONFIG.CLOUD_FORMATION_RATE;
-                    newClouds[y][x] = Math.min(1, newClouds[y][x] + formation);
-                    cell.air_humidity = Math.max(0, cell.air_humidity - formation);
+                    newClouds[i] = Math.min(1, newClouds[i] + formation);
+                    terrain.air_humidity[i] = Math.max(0, humidity - formation);
                     cloudFormed += formation;
 
                     if (formation > maxFormation) {
@@ -53,16 +52,14 @@ export class CloudSystem implements ISimulationSystem {
                         maxFormationCell = { x, y };
                     }
                 } else {
-                    const deficit = saturationThreshold - cell.air_humidity;
-                    newClouds[y][x] = Math.max(0, newClouds[y][x] - deficit * CLOUD_CONFIG.CLOUD_DISSIPATION_RATE);
+                    const deficit = saturationThreshold - humidity;
+                    newClouds[i] = Math.max(0, newClouds[i] - deficit * CLOUD_CONFIG.CLOUD_DISSIPATION_RATE);
                 }
             }
         }
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                terrain[y][x].cloud_density = Math.min(1, Math.max(0, newClouds[y][x]));
-            }
+        for (let i = 0; i < width * height; i++) {
+            terrain.cloud_density[i] = Math.min(1, Math.max(0, newClouds[i]));
         }
 
         if (DEBUG_CONFIG.WEATHER_VERBOSE_LOGGING && cloudFormed > 0) {
@@ -78,16 +75,16 @@ export class CloudSystem implements ISimulationSystem {
 
     private advectClouds(
         terrain: TerrainGrid,
-        baseClouds: number[][],
-        newClouds: number[][],
+        baseClouds: Float64Array,
+        newClouds: Float64Array,
     ): void {
         const { width, height } = GridHelper.getDimensions(terrain);
 
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                const windSpeed = cell.wind_speed ?? 0;
-                const windDirection = cell.wind_direction ?? 0;
+                const i = y * width + x;
+                const windSpeed = terrain.wind_speed[i];
+                const windDirection = terrain.wind_direction[i];
 
                 if (windSpeed <= 0) {
                     continue;
@@ -106,15 +103,16 @@ export class CloudSystem implements ISimulationSystem {
 
                 const sourceX = (x + sourceOffsetX + width) % width;
                 const sourceY = (y + sourceOffsetY + height) % height;
+                const source = sourceY * width + sourceX;
 
                 const speedFactor = Math.min(1, windSpeed / WEATHER_CONFIG.MAX_WIND_SPEED);
-                const advectionAmount = baseClouds[sourceY][sourceX]
+                const advectionAmount = baseClouds[source]
                     * CLOUD_CONFIG.CLOUD_ADVECTION_RATE
                     * speedFactor;
 
                 if (advectionAmount > 0) {
-                    newClouds[sourceY][sourceX] = Math.max(0, newClouds[sourceY][sourceX] - advectionAmount);
-                    newClouds[y][x] = Math.min(1, newClouds[y][x] + advectionAmount);
+                    newClouds[source] = Math.max(0, newClouds[source] - advectionAmount);
+                    newClouds[i] = Math.min(1, newClouds[i] + advectionAmount);
                 }
             }
         }
@@ -0,0 +1,109 @@
+import { type TerrainGrid } from "../terrainGrid";
+import { GridHelper } from "./GridHelper";
+
+export interface EcologySnapshot {
+  tick: number;
+  timestamp: Date;
+  // Totals
+  totalPrey: number;
+  totalPredators: number;
+  // Occupied area (% of cells)
+  preyRange: number;
+  predatorRange: number;
+  // Extremes
+  maxPreyDensity: number;
+  maxPredatorDensity: number;
+  // Ratio
+  predatorPreyRatio: number; // Predators per prey (0 when no prey)
+}
+
+export interface EcologyMetricsState {
+  tickCounter: number;
+  history: EcologySnapshot[];
+}
+
+export class EcologyMetrics {
+  private history: EcologySnapshot[] = [];
+  private maxHistorySize = 100;
+  private tickCounter = 0;
+
+  captureSnapshot(terrain: TerrainGrid): EcologySnapshot {
+    const { width, height } = GridHelper.getDimensions(terrain);
+    const totalCells = width * height;
+
+    let totalPrey = 0;
+    let totalPredators = 0;
+    let preyCells = 0;
+    let predatorCells = 0;
+    let maxPrey = 0;
+    let maxPredators = 0;
+
+    for (let i = 0; i < totalCells; i += 1) {
+      const prey = terrain.prey_density[i];
+      const predators = terrain.predator_density[i];
+
+      totalPrey += prey;
+      totalPredators += predators;
+
+      if (prey > 0) preyCells += 1;
+      if (predators > 0) predatorCells += 1;
+
+      if (prey > maxPrey) maxPrey = prey;
+      if (predators > maxPredators) maxPredators = predators;
+    }
+
+    const snapshot: EcologySnapshot = {
+      tick: this.tickCounter,
+      timestamp: new Date(),
+      totalPrey,
+      totalPredators,
+      preyRange: (preyCells / totalCells) * 100,
+      predatorRange: (predatorCells / totalCells) * 100,
+      maxPreyDensity: maxPrey,
+      maxPredatorDensity: maxPredators,
+      predatorPreyRatio: totalPrey > 0 ? totalPredators / totalPrey : 0,
+    };
+
+    this.tickCounter += 1;
+    this.history.push(snapshot);
+    if (this.history.length > this.maxHistorySize) {
+      this.history.shift();
+    }
+
+    return snapshot;
+  }
+
+  getHistory(): EcologySnapshot[] {
+    return [...this.history];
+  }
+
+  getLatest(): EcologySnapshot | null {
+    return this.history.length > 0 ? this.history[this.history.length - 1] : null;
+  }
+
+  getState(): EcologyMetricsState {
+    return {
+      tickCounter: this.tickCounter,
+      history: this.getHistory(),
+    };
+  }
+
+  loadState(state: EcologyMetricsState): void {
+    this.tickCounter = state.tickCounter;
+    this.history = state.history
+      .slice(-this.maxHistorySize)
+      .map((snapshot) => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) }));
+  }
+
+  logSummary(snapshot: EcologySnapshot): void {
+    console.log(`
+╔══════════════════════════════════════════════════════════════╗
+║                   ECOLOGY METRICS (Tick ${snapshot.tick})
+╠══════════════════════════════════════════════════════════════╣
+║ Prey:         ${snapshot.totalPrey.toFixed(0)} total on ${snapshot.preyRange.toFixed(1)}% of cells (max density: ${snapshot.maxPreyDensity.toFixed(1)})
+║ Predators:    ${snapshot.totalPredators.toFixed(0)} total on ${snapshot.predatorRange.toFixed(1)}% of cells (max density: ${snapshot.maxPredatorDensity.toFixed(1)})
+║ Ratio:        ${snapshot.predatorPreyRatio.toFixed(3)} predators per prey
+╚══════════════════════════════════════════════════════════════╝
+    `);
+  }
+}
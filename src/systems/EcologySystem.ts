@@ -0,0 +1,158 @@
+import { type TerrainGrid } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { GridHelper } from "./GridHelper";
+import { ECOLOGY_CONFIG, PERFORMANCE_CONFIG } from "../config";
+import { type SeededRandom } from "../random";
+import { performance } from "node:perf_hooks";
+
+/**
+ * Grid-level food chain: prey and predator population densities per cell.
+ *
+ * Unlike the herd agents of the FaunaSystem, populations here are continuous
+ * fields, so the cost does not grow with the number of animals. Each tick:
+ * 1. Lotka-Volterra update - prey grow logistically up to a carrying capacity
+ *    set by the local grass, predators grow by eating prey and die off otherwise
+ * 2. Prey graze the grass they live on
+ * 3. Drought and hard frost cut both populations down
+ * 4. Both fields diffuse to cardinal neighbors; water (rivers, lakes, ocean)
+ *    and steep altitude steps act as barriers
+ */
+export class EcologySystem implements ISimulationSystem {
+    private random: SeededRandom;
+    private scratch = new Float32Array(0);
+    private cellsTouched = 0;
+
+    constructor(random: SeededRandom) {
+        this.random = random;
+    }
+
+    /**
+     * Seed prey on grassy land and a few predator packs among them
+     */
+    seedInitialPopulations(terrain: TerrainGrid): void {
+        const config = ECOLOGY_CONFIG;
+        const { width, height } = GridHelper.getDimensions(terrain);
+
+        for (let i = 0; i < width * height; i++) {
+            terrain.prey_density[i] = 0;
+            terrain.predator_density[i] = 0;
+            if (terrain.isWater(i) || terrain.grass_density[i] <= 0) continue;
+
+            if (this.random.next() < config.PREY_SEED_PROBABILITY) {
+                terrain.prey_density[i] = config.INITIAL_PREY_DENSITY;
+                if (this.random.next() < config.PREDATOR_SEED_PROBABILITY / config.PREY_SEED_PROBABILITY) {
+                    terrain.predator_density[i] = config.INITIAL_PREDATOR_DENSITY;
+                }
+            }
+        }
+
+        console.log("EcologySystem: Initial prey and predator populations seeded");
+    }
+
+    getCellsTouched(): number {
+        return this.cellsTouched;
+    }
+
+    update(terrain: TerrainGrid, gameTime: GameTime): void {
+        const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
+        const start = shouldLog ? performance.now() : 0;
+
+        this.updatePopulations(terrain);
+        this.diffuse(terrain, terrain.prey_density, ECOLOGY_CONFIG.PREY_DIFFUSION_RATE);
+        this.diffuse(terrain, terrain.predator_density, ECOLOGY_CONFIG.PREDATOR_DIFFUSION_RATE);
+
+        if (shouldLog) {
+            const duration = performance.now() - start;
+            if (duration > 1000) {
+                console.warn(`${this.constructor.name} took ${Math.round(duration)}ms`);
+            }
+        }
+    }
+
+    private updatePopulations(terrain: TerrainGrid): void {
+        const config = ECOLOGY_CONFIG;
+        const { width, height } = GridHelper.getDimensions(terrain);
+        this.cellsTouched = 0;
+
+        for (let i = 0; i < width * height; i++) {
+            let prey = terrain.prey_density[i];
+            let predators = terrain.predator_density[i];
+            if (prey <= 0 && predators <= 0) continue;
+            this.cellsTouched++;
+
+            if (terrain.isWater(i)) {
+                terrain.prey_density[i] = 0;
+                terrain.predator_density[i] = 0;
+                continue;
+            }
+
+            const grass = terrain.grass_density[i];
+            const capacity = grass * config.PREY_CAPACITY_PER_GRASS;
+
+            // Logistic prey growth; without grass the prey starve at the birth rate
+            const preyGrowth = capacity > 0
+                ? config.PREY_BIRTH_RATE * prey * (1 - prey / capacity)
+                : -config.PREY_BIRTH_RATE * prey;
+            const predation = Math.min(prey, config.PREDATION_RATE * prey * predators);
+
+            prey = Math.max(0, prey + preyGrowth - predation);
+            predators = Math.max(
+                0,
+                predators + config.PREDATOR_EFFICIENCY * predation - config.PREDATOR_DEATH_RATE * predators
+            );
+
+            terrain.grass_density[i] = Math.max(0, grass - prey * config.PREY_GRAZE_RATE);
+
+            // Drought and hard frost collapse local populations
+            if (terrain.moisture[i] < config.DROUGHT_MOISTURE) {
+                prey *= 1 - config.DROUGHT_DEATH_RATE;
+                predators *= 1 - config.DROUGHT_DEATH_RATE;
+            }
+            if (terrain.temperature[i] < config.FROST_TEMPERATURE) {
+                prey *= 1 - config.FROST_DEATH_RATE;
+                predators *= 1 - config.FROST_DEATH_RATE;
+            }
+
+            terrain.prey_density[i] = prey < config.MIN_DENSITY ? 0 : prey;
+            terrain.predator_density[i] = predators < config.MIN_DENSITY ? 0 : predators;
+        }
+    }
+
+    /**
+     * Spread a density field to passable cardinal neighbors (world wraps).
+     * The share headed for a barrier stays in place.
+     */
+    private diffuse(terrain: TerrainGrid, field: Float32Array, rate: number): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+        if (this.scratch.length !== field.length) {
+            this.scratch = new Float32Array(field.length);
+        }
+        const next = this.scratch;
+        next.set(field);
+
+        for (let i = 0; i < width * height; i++) {
+            const density = field[i];
+            if (density <= 0) continue;
+
+            const share = (density * rate) / GridHelper.CARDINAL_OFFSETS.length;
+            const x = terrain.xOf(i);
+            const y = terrain.yOf(i);
+
+            for (const [dx, dy] of GridHelper.CARDINAL_OFFSETS) {
+                const neighbor = ((y + dy + height) % height) * width + ((x + dx + width) % width);
+                if (!this.canCross(terrain, i, neighbor)) continue;
+
+                next[i] -= share;
+                next[neighbor] += share;
+            }
+        }
+
+        field.set(next);
+    }
+
+    private canCross(terrain: TerrainGrid, from: number, to: number): boolean {
+        if (terrain.isWater(to)) return false;
+        return Math.abs(terrain.altitude[to] - terrain.altitude[from]) <= ECOLOGY_CONFIG.MAX_CROSSING_SLOPE;
+    }
+}
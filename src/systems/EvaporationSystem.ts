@@ -1,20 +1,29 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
-import { GridHelper } from "./GridHelper";
-import { EVAPORATION_CONFIG, PERFORMANCE_CONFIG } from "../config";
+import { type GridWorkerPool } from "./GridWorkerPool";
+import { type LakeManager, type Lake } from "./LakeManager";
+import { PERFORMANCE_CONFIG, WOODY_SPECIES, type WoodySpecies } from "../config";
 import { performance } from "node:perf_hooks";
 
 /**
  * Manages evaporation from water bodies and evapotranspiration from ground
  */
 export class EvaporationSystem implements ISimulationSystem {
-    update(terrain: TerrainGrid, gameTime: GameTime): void {
+    private woodySpecies = new Map<string, WoodySpecies>();
+
+    constructor(private lakes: LakeManager, private workers: GridWorkerPool) {
+        for (const species of WOODY_SPECIES) {
+            this.woodySpecies.set(species.id, species);
+        }
+    }
+
+    async update(terrain: TerrainGrid, gameTime: GameTime): Promise<void> {
         const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
         const start = shouldLog ? performance.now() : 0;
 
-        this.processWaterEvaporation(terrain);
-        this.processEvapotranspiration(terrain);
+        await this.processWaterEvaporation(terrain);
+        await this.processEvapotranspiration(terrain);
 
         if (shouldLog) {
             const duration = performance.now() - start;
@@ -26,72 +35,41 @@ export class EvaporationSystem implements ISimulationSystem {
 
     /**
      * Process evaporation from water bodies into air
+     * Lake losses are pooled and taken from the whole lake, so its surface stays flat;
+     * the ocean is an unlimited reservoir and never loses depth.
      */
-    private processWaterEvaporation(terrain: TerrainGrid): void {
-        const config = EVAPORATION_CONFIG;
-        const { width, height } = GridHelper.getDimensions(terrain);
-
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-
-                if (cell.type !== "spring" && cell.type !== "river") continue;
-                if (cell.water_height <= 0) continue;
-
-                if (cell.temperature < 0) continue;
-                const temperatureFactor = Math.max(0, 1 + config.EVAP_TEMP_COEFF * cell.temperature);
-
-                const surfaceAreaFactor = Math.min(1.0, cell.water_height / config.MAX_EVAP_DEPTH);
-
-                const saturationDeficit = Math.max(0, 1 - cell.air_humidity);
-
-                const evaporationRate = config.BASE_EVAP_RATE
-                    * temperatureFactor
-                    * surfaceAreaFactor
-                    * saturationDeficit;
-
-                const waterLost = Math.min(evaporationRate, cell.water_height);
-                cell.water_height -= waterLost;
-                cell.altitude = cell.terrain_height + cell.water_height;
-
-                const humidityGain = waterLost * config.WATER_TO_HUMIDITY_FACTOR;
-                cell.air_humidity = Math.min(1.5, cell.air_humidity + humidityGain);
+    private async processWaterEvaporation(terrain: TerrainGrid): Promise<void> {
+        const bands = await this.workers.run(terrain, "waterEvaporation");
+        const lakeLosses = new Map<Lake, number>();
+
+        // Bands and their cells are in grid order, so losses add up as in a single pass
+        for (const { cells, losses } of bands) {
+            for (let k = 0; k < cells.length; k++) {
+                const lake = this.lakes.getLakeAt(cells[k]);
+                if (lake) {
+                    lakeLosses.set(lake, (lakeLosses.get(lake) ?? 0) + losses[k]);
+                }
             }
         }
+
+        lakeLosses.forEach((volume, lake) => this.lakes.removeWater(terrain, lake, volume));
     }
 
     /**
      * Process evapotranspiration from ground moisture into air
+     * Trees and shrubs transpire on top of bare-ground evaporation, scaled by canopy cover
      */
-    private processEvapotranspiration(terrain: TerrainGrid): void {
-        const config = EVAPORATION_CONFIG;
-        const { width, height } = GridHelper.getDimensions(terrain);
-
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-
-                if (cell.type === "spring" || cell.type === "river") continue;
-
-                if (cell.base_moisture < config.MIN_GROUND_MOISTURE) continue;
-
-                if (cell.temperature < 0) continue;
-                const temperatureFactor = Math.max(0, 1 + config.EVAP_TEMP_COEFF * cell.temperature);
-
-                const saturationDeficit = Math.max(0, 1 - cell.air_humidity);
-
-                const evapotranspirationRate = config.BASE_EVAPOTRANSPIRATION
-                    * cell.base_moisture
-                    * temperatureFactor
-                    * saturationDeficit;
-
-                const moistureLost = Math.min(evapotranspirationRate, cell.base_moisture);
-                cell.base_moisture -= moistureLost;
-                cell.moisture = cell.base_moisture;
+    private async processEvapotranspiration(terrain: TerrainGrid): Promise<void> {
+        await this.workers.run(terrain, "evapotranspiration", {
+            transpiration: this.getTranspirationByCode(terrain),
+        });
+    }
 
-                const humidityGain = moistureLost * config.WATER_TO_HUMIDITY_FACTOR;
-                cell.air_humidity = Math.min(1.5, cell.air_humidity + humidityGain);
-            }
-        }
+    /**
+     * Species transpiration indexed by woody_type code, so workers need no string lookups
+     */
+    private getTranspirationByCode(terrain: TerrainGrid): number[] {
+        const species = terrain.tables.woody_type.toArray().map((id) => this.woodySpecies.get(id)?.transpiration ?? 0);
+        return [0, ...species];
     }
 }
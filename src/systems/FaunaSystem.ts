@@ -0,0 +1,298 @@
+import { type TerrainGrid, CellType } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { GridHelper } from "./GridHelper";
+import { HERBIVORE_CONFIG, PERFORMANCE_CONFIG } from "../config";
+import { type SeededRandom } from "../random";
+import { performance } from "node:perf_hooks";
+
+/**
+ * Herd of grazing animals occupying a single cell (cells are grid plane indices)
+ */
+export interface Herd {
+    id: number;
+    cell: number;
+    size: number;       // Number of animals
+    hunger: number;     // 0 = full, 1 = starving
+    thirst: number;     // 0 = watered, 1 = dehydrated
+    waterhole: number;  // Cell the herd last drank at (-1 if none yet)
+}
+
+/**
+ * Herd with its grid coordinates (for API responses)
+ */
+export interface HerdInfo extends Herd {
+    x: number;
+    y: number;
+}
+
+/**
+ * Serializable fauna state
+ */
+export interface FaunaState {
+    herdIdCounter: number;
+    herds: Herd[];
+}
+
+/**
+ * Herds inside a rectangle of the (wrapping) world
+ */
+export function filterHerdsInRegion(
+    herds: readonly Herd[],
+    terrain: TerrainGrid,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): HerdInfo[] {
+    const result: HerdInfo[] = [];
+
+    for (const herd of herds) {
+        const herdX = terrain.xOf(herd.cell);
+        const herdY = terrain.yOf(herd.cell);
+        const dx = ((herdX - x) % terrain.width + terrain.width) % terrain.width;
+        const dy = ((herdY - y) % terrain.height + terrain.height) % terrain.height;
+        if (dx < width && dy < height) {
+            result.push({ ...herd, x: herdX, y: herdY });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Agent-based herbivore herds that graze grass and drink from fresh water.
+ *
+ * Every tick each herd grows hungrier and thirstier, moves to a neighboring
+ * land cell (the grassiest one, or towards water when thirsty), grazes the
+ * grass where it stands and drinks if a river, spring or lake lies next to it.
+ * Starving or dehydrated herds lose animals; well fed herds breed once a day
+ * and split in two when they grow too large. Snow slows herds down.
+ */
+export class FaunaSystem implements ISimulationSystem {
+    private herds: Herd[] = [];
+    private herdIdCounter = 0;
+    private random: SeededRandom;
+
+    constructor(random: SeededRandom) {
+        this.random = random;
+    }
+
+    getHerds(): Herd[] {
+        return this.herds;
+    }
+
+    /**
+     * Capture herd state for persistence
+     */
+    getState(): FaunaState {
+        return {
+            herdIdCounter: this.herdIdCounter,
+            herds: this.herds.map((herd) => ({ ...herd })),
+        };
+    }
+
+    /**
+     * Restore herd state from a save
+     */
+    loadState(state: FaunaState): void {
+        this.herdIdCounter = state.herdIdCounter;
+        this.herds = state.herds.map((herd) => ({ ...herd }));
+    }
+
+    /**
+     * Scatter the first herds over grassy land
+     */
+    spawnInitialHerds(terrain: TerrainGrid): void {
+        const config = HERBIVORE_CONFIG;
+        this.herds = [];
+        this.herdIdCounter = 0;
+
+        for (let attempt = 0; attempt < config.INITIAL_HERDS * 20 && this.herds.length < config.INITIAL_HERDS; attempt++) {
+            const cell = this.random.nextInt(terrain.size);
+            if (terrain.isWater(cell) || terrain.grass_density[cell] <= 0) continue;
+
+            const size = config.INITIAL_HERD_SIZE_MIN
+                + this.random.nextInt(config.INITIAL_HERD_SIZE_MAX - config.INITIAL_HERD_SIZE_MIN + 1);
+            this.createHerd(cell, size, 0, 0, -1);
+        }
+
+        console.log(`FaunaSystem: Spawned ${this.herds.length} herbivore herds`);
+    }
+
+    /**
+     * Each herd reads its own cell and its neighbors
+     */
+    getCellsTouched(): number {
+        return this.herds.length * 9;
+    }
+
+    update(terrain: TerrainGrid, gameTime: GameTime): void {
+        const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
+        const start = shouldLog ? performance.now() : 0;
+        const config = HERBIVORE_CONFIG;
+        const isBreedingTime = gameTime.hour === 0;
+
+        for (const herd of this.herds) {
+            herd.hunger = Math.min(1, herd.hunger + config.HUNGER_RATE);
+            herd.thirst = Math.min(1, herd.thirst + config.THIRST_RATE);
+
+            this.move(terrain, herd);
+            this.graze(terrain, herd);
+            this.drink(terrain, herd);
+            this.updatePopulation(herd, isBreedingTime);
+        }
+
+        this.herds = this.herds.filter((herd) => herd.size > 0);
+        this.splitLargeHerds(terrain);
+
+        if (isBreedingTime) {
+            this.logSummary();
+        }
+
+        if (shouldLog) {
+            const duration = performance.now() - start;
+            if (duration > 1000) {
+                console.warn(`${this.constructor.name} took ${Math.round(duration)}ms`);
+            }
+        }
+    }
+
+    /**
+     * Herds inside a rectangle of the (wrapping) world
+     */
+    getHerdsInRegion(terrain: TerrainGrid, x: number, y: number, width: number, height: number): HerdInfo[] {
+        return filterHerdsInRegion(this.herds, terrain, x, y, width, height);
+    }
+
+    getPopulation(): number {
+        return this.herds.reduce((total, herd) => total + herd.size, 0);
+    }
+
+    private createHerd(cell: number, size: number, hunger: number, thirst: number, waterhole: number): Herd {
+        this.herdIdCounter++;
+        const herd: Herd = { id: this.herdIdCounter, cell, size, hunger, thirst, waterhole };
+        this.herds.push(herd);
+        return herd;
+    }
+
+    /**
+     * Step to a neighboring land cell: towards water when thirsty, otherwise to the best grazing
+     */
+    private move(terrain: TerrainGrid, herd: Herd): void {
+        // Deep snow keeps herds in place
+        if (this.random.next() < terrain.snow_depth[herd.cell] * HERBIVORE_CONFIG.SNOW_MOVE_PENALTY) return;
+
+        const neighbors = GridHelper.getNeighbors(terrain, terrain.xOf(herd.cell), terrain.yOf(herd.cell));
+        const candidates = [herd.cell, ...neighbors].filter((cell) => !terrain.isWater(cell));
+        if (candidates.length === 0) return;
+
+        const thirsty = herd.thirst > HERBIVORE_CONFIG.THIRSTY_THRESHOLD;
+        let best = candidates[0];
+        let bestScore = -Infinity;
+
+        for (const cell of candidates) {
+            // Jitter breaks ties so herds do not march in lockstep
+            const jitter = this.random.next() * 0.01;
+            let score: number;
+            if (!thirsty) {
+                score = terrain.grass_density[cell];
+            } else if (herd.waterhole !== -1) {
+                score = -this.wrappedDistance(terrain, cell, herd.waterhole);
+            } else {
+                score = -terrain.distance_from_water[cell];
+            }
+
+            if (score + jitter > bestScore) {
+                bestScore = score + jitter;
+                best = cell;
+            }
+        }
+
+        herd.cell = best;
+    }
+
+    private graze(terrain: TerrainGrid, herd: Herd): void {
+        const ration = herd.size * HERBIVORE_CONFIG.GRAZE_PER_ANIMAL;
+        const eaten = Math.min(terrain.grass_density[herd.cell], ration);
+        if (eaten <= 0) return;
+
+        terrain.grass_density[herd.cell] -= eaten;
+        // A full ration more than offsets the hunger gained this tick
+        herd.hunger = Math.max(0, herd.hunger - (eaten / ration) * HERBIVORE_CONFIG.HUNGER_RATE * 2);
+    }
+
+    /**
+     * Drink from an adjacent unfrozen river, spring or lake (the ocean is salt water)
+     */
+    private drink(terrain: TerrainGrid, herd: Herd): void {
+        const neighbors = GridHelper.getNeighbors(terrain, terrain.xOf(herd.cell), terrain.yOf(herd.cell));
+        const hasFreshWater = neighbors.some((cell) => {
+            const type = terrain.type[cell];
+            return (type === CellType.RIVER || type === CellType.SPRING || type === CellType.LAKE)
+                && !terrain.frozen[cell];
+        });
+
+        if (hasFreshWater) {
+            herd.thirst = 0;
+            herd.waterhole = herd.cell;
+        } else if (herd.waterhole === herd.cell) {
+            // The waterhole dried up or froze over
+            herd.waterhole = -1;
+        }
+    }
+
+    private updatePopulation(herd: Herd, isBreedingTime: boolean): void {
+        const config = HERBIVORE_CONFIG;
+
+        let deathRate = config.NATURAL_DEATH_RATE;
+        if (herd.hunger >= 1 || herd.thirst >= 1) {
+            deathRate += config.STARVATION_DEATH_RATE;
+        }
+        herd.size = Math.max(0, herd.size - this.randomRound(herd.size * deathRate));
+
+        if (isBreedingTime && herd.hunger < config.WELL_FED_THRESHOLD && herd.thirst < config.WELL_FED_THRESHOLD) {
+            herd.size += this.randomRound(herd.size * config.BIRTH_RATE);
+        }
+    }
+
+    private splitLargeHerds(terrain: TerrainGrid): void {
+        const config = HERBIVORE_CONFIG;
+        const count = this.herds.length;
+
+        for (let i = 0; i < count && this.herds.length < config.MAX_HERDS; i++) {
+            const herd = this.herds[i];
+            if (herd.size <= config.SPLIT_SIZE) continue;
+
+            const neighbors = GridHelper.getNeighbors(terrain, terrain.xOf(herd.cell), terrain.yOf(herd.cell))
+                .filter((cell) => !terrain.isWater(cell));
+            const cell = neighbors.length > 0 ? neighbors[this.random.nextInt(neighbors.length)] : herd.cell;
+
+            const splitSize = Math.floor(herd.size / 2);
+            herd.size -= splitSize;
+            this.createHerd(cell, splitSize, herd.hunger, herd.thirst, herd.waterhole);
+        }
+    }
+
+    /**
+     * Chebyshev distance on the wrapping grid
+     */
+    private wrappedDistance(terrain: TerrainGrid, a: number, b: number): number {
+        const dx = Math.abs(terrain.xOf(a) - terrain.xOf(b));
+        const dy = Math.abs(terrain.yOf(a) - terrain.yOf(b));
+        return Math.max(Math.min(dx, terrain.width - dx), Math.min(dy, terrain.height - dy));
+    }
+
+    /**
+     * Round a fractional count up or down with probability given by its fraction
+     */
+    private randomRound(value: number): number {
+        const whole = Math.floor(value);
+        return whole + (this.random.next() < value - whole ? 1 : 0);
+    }
+
+    private logSummary(): void {
+        if (this.herds.length === 0) return;
+        console.log(`FaunaSystem: ${this.herds.length} herds, ${this.getPopulation()} herbivores`);
+    }
+}
@@ -1,13 +1,16 @@
-import { type TerrainCell, type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
 import { GRASS_CONFIG, GRASS_SPECIES, type GrassSpecies } from "../config";
+import { type SeededRandom } from "../random";
 
 export class GrassSystem implements ISimulationSystem {
     private speciesMap: Map<string, GrassSpecies>;
+    private random: SeededRandom;
 
-    constructor() {
+    constructor(random: SeededRandom) {
+        this.random = random;
         this.speciesMap = new Map();
         for (const species of GRASS_SPECIES) {
             this.speciesMap.set(species.id, species);
@@ -18,31 +21,28 @@ export class GrassSystem implements ISimulationSystem {
         const { width, height } = GridHelper.getDimensions(terrain);
 
         // First pass: update existing grass
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                if (cell.grass_density && cell.grass_density > 0) {
-                    this.updateGrass(cell, gameTime);
-                }
+        for (let i = 0; i < width * height; i++) {
+            if (terrain.grass_density[i] > 0) {
+                this.updateGrass(terrain, i, gameTime);
             }
         }
 
         // Second pass: spread grass to neighbors
-        const spreadQueue: { x: number; y: number; type: string }[] = [];
+        const spreadQueue: { index: number; type: string }[] = [];
 
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                if (this.canSpread(cell)) {
+                const i = y * width + x;
+                if (this.canSpread(terrain, i)) {
+                    const grassType = terrain.getGrassType(i)!;
                     const neighbors = GridHelper.getNeighborsWithOffset(terrain, x, y);
                     for (const neighbor of neighbors) {
-                        if (this.canReceiveGrass(neighbor.cell, cell.grass_type!)) {
-                            const species = this.speciesMap.get(cell.grass_type!);
-                            if (species && Math.random() < species.spreadProbability) {
+                        if (this.canReceiveGrass(terrain, neighbor.index, grassType)) {
+                            const species = this.speciesMap.get(grassType);
+                            if (species && this.random.next() < species.spreadProbability) {
                                 spreadQueue.push({
-                                    x: (x + neighbor.dx + width) % width,
-                                    y: (y + neighbor.dy + height) % height,
-                                    type: cell.grass_type!,
+                                    index: neighbor.index,
+                                    type: grassType,
                                 });
                             }
                         }
@@ -53,12 +53,12 @@ export class GrassSystem implements ISimulationSystem {
 
         // Apply spreading
         for (const spread of spreadQueue) {
-            const cell = terrain[spread.y][spread.x];
-            if (!cell.grass_density || cell.grass_density < GRASS_CONFIG.INITIAL_SPREAD_DENSITY) {
-                cell.grass_density = GRASS_CONFIG.INITIAL_SPREAD_DENSITY;
-                cell.grass_type = spread.type;
-                cell.grass_health = 0.8;
-                cell.grass_dormant = 0;
+            const i = spread.index;
+            if (terrain.grass_density[i] < GRASS_CONFIG.INITIAL_SPREAD_DENSITY) {
+                terrain.grass_density[i] = GRASS_CONFIG.INITIAL_SPREAD_DENSITY;
+                terrain.setGrassType(i, spread.type);
+                terrain.grass_health[i] = 0.8;
+                terrain.grass_dormant[i] = 0;
             }
         }
 
@@ -66,44 +66,44 @@ export class GrassSystem implements ISimulationSystem {
         this.logSummary(terrain, width, height);
     }
 
-    private updateGrass(cell: TerrainCell, gameTime: GameTime): void {
-        const species = this.speciesMap.get(cell.grass_type ?? "cool_season");
+    private updateGrass(terrain: TerrainGrid, i: number, gameTime: GameTime): void {
+        const species = this.speciesMap.get(terrain.getGrassType(i) ?? "cool_season");
         if (!species) return;
 
-        const temp = cell.temperature ?? 15;
-        const moisture = cell.moisture ?? 0;
+        const temp = terrain.temperature[i];
+        const moisture = terrain.moisture[i];
 
         // Check dormancy
-        if (cell.grass_dormant) {
+        if (terrain.grass_dormant[i]) {
             // Check if should wake up
             if (temp >= species.wakeFromDormantTemp && temp <= species.maxGrowthTemp) {
-                cell.grass_dormant = 0;
+                terrain.grass_dormant[i] = 0;
                 console.log(`GrassSystem: ${species.name} waking from dormancy at temp ${temp.toFixed(1)}°C`);
             } else {
                 // Slow decay while dormant
-                cell.grass_density = Math.max(0, (cell.grass_density ?? 0) - GRASS_CONFIG.DORMANCY_DECAY_RATE);
+                terrain.grass_density[i] = Math.max(0, terrain.grass_density[i] - GRASS_CONFIG.DORMANCY_DECAY_RATE);
                 return;
             }
         }
 
         // Check if should go dormant
         if (temp <= species.gosDormantTemp || temp >= species.maxGrowthTemp) {
-            cell.grass_dormant = 1;
+            terrain.grass_dormant[i] = 1;
             return;
         }
 
         // Check death conditions
         if (temp < species.frostTolerance) {
             // Frost death
-            cell.grass_density = Math.max(0, (cell.grass_density ?? 0) - GRASS_CONFIG.DEATH_RATE_EXTREME_TEMP);
-            cell.grass_health = Math.max(0, (cell.grass_health ?? 1) - 0.1);
+            terrain.grass_density[i] = Math.max(0, terrain.grass_density[i] - GRASS_CONFIG.DEATH_RATE_EXTREME_TEMP);
+            terrain.grass_health[i] = Math.max(0, terrain.grass_health[i] - 0.1);
             return;
         }
 
         if (moisture < species.minMoisture) {
             // Drought death
-            cell.grass_density = Math.max(0, (cell.grass_density ?? 0) - GRASS_CONFIG.DEATH_RATE_NO_WATER);
-            cell.grass_health = Math.max(0, (cell.grass_health ?? 1) - 0.05);
+            terrain.grass_density[i] = Math.max(0, terrain.grass_density[i] - GRASS_CONFIG.DEATH_RATE_NO_WATER);
+            terrain.grass_health[i] = Math.max(0, terrain.grass_health[i] - 0.05);
             return;
         }
 
@@ -113,17 +113,16 @@ export class GrassSystem implements ISimulationSystem {
         const growthRate = species.baseGrowthRate * tempFactor * moistureFactor;
 
         // Apply growth
-        cell.grass_density = Math.min(
+        terrain.grass_density[i] = Math.min(
             GRASS_CONFIG.MAX_GRASS_DENSITY,
-            (cell.grass_density ?? 0) + growthRate
+            terrain.grass_density[i] + growthRate
         );
 
         // Improve health in good conditions
         if (tempFactor > 0.7 && moistureFactor > 0.7) {
-            cell.grass_health = Math.min(1, (cell.grass_health ?? 0.5) + 0.01);
+            terrain.grass_health[i] = Math.min(1, terrain.grass_health[i] + 0.01);
         }
     }
-
     private calculateTempFactor(temp: number, species: GrassSpecies): number {
         if (temp < species.minGrowthTemp || temp > species.maxGrowthTemp) return 0;
         if (temp >= species.optimalTempMin && temp <= species.optimalTempMax) return 1;
@@ -144,28 +143,28 @@ export class GrassSystem implements ISimulationSystem {
         return (species.maxMoisture - moisture) / (species.maxMoisture - species.optimalMoistureMax);
     }
 
-    private canSpread(cell: TerrainCell): boolean {
+    private canSpread(terrain: TerrainGrid, i: number): boolean {
         return (
-            (cell.grass_density ?? 0) >= GRASS_CONFIG.MIN_DENSITY_TO_SPREAD &&
-            (cell.grass_health ?? 0) > 0.5 &&
-            !cell.grass_dormant
+            terrain.grass_density[i] >= GRASS_CONFIG.MIN_DENSITY_TO_SPREAD &&
+            terrain.grass_health[i] > 0.5 &&
+            !terrain.grass_dormant[i]
         );
     }
 
-    private canReceiveGrass(cell: TerrainCell, grassType: string): boolean {
+    private canReceiveGrass(terrain: TerrainGrid, i: number, grassType: string): boolean {
         if (!grassType) {
             return false;
         }
         // Can't grow in water
-        if (cell.type === "river" || cell.type === "spring" || cell.water_height > 0.5) {
+        if (terrain.isWater(i) || terrain.water_height[i] > 0.5) {
             return false;
         }
         // Can't grow on very high altitude (mountains)
-        if ((cell.altitude ?? 0) > 1500) {
+        if (terrain.altitude[i] > 1500) {
             return false;
         }
         // Already has significant grass
-        if ((cell.grass_density ?? 0) > 0.5) {
+        if (terrain.grass_density[i] > 0.5) {
             return false;
         }
         return true;
@@ -177,38 +176,34 @@ export class GrassSystem implements ISimulationSystem {
     seedInitialGrass(terrain: TerrainGrid): void {
         const { width, height } = GridHelper.getDimensions(terrain);
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-
-                // Skip water and high mountains
-                if (cell.type === "river" || cell.type === "spring" || cell.water_height > 0.5) continue;
-                if ((cell.altitude ?? 0) > 1500) continue;
+        for (let i = 0; i < width * height; i++) {
+            // Skip water and high mountains
+            if (terrain.isWater(i) || terrain.water_height[i] > 0.5) continue;
+            if (terrain.altitude[i] > 1500) continue;
 
-                // Check if conditions are suitable
-                const moisture = cell.moisture ?? 0;
-                if (moisture < GRASS_CONFIG.SEED_MOISTURE_THRESHOLD) continue;
+            // Check if conditions are suitable
+            const moisture = terrain.moisture[i];
+            if (moisture < GRASS_CONFIG.SEED_MOISTURE_THRESHOLD) continue;
 
-                // Random seeding
-                if (Math.random() > GRASS_CONFIG.INITIAL_SEED_PROBABILITY) continue;
+            // Random seeding
+            if (this.random.next() > GRASS_CONFIG.INITIAL_SEED_PROBABILITY) continue;
 
-                // Select species based on climate
-                const temp = cell.temperature ?? 15;
-                let selectedSpecies: string;
+            // Select species based on climate
+            const temp = terrain.temperature[i];
+            let selectedSpecies: string;
 
-                if (moisture < 0.25) {
-                    selectedSpecies = "drought_resistant";
-                } else if (temp > 25) {
-                    selectedSpecies = "warm_season";
-                } else {
-                    selectedSpecies = "cool_season";
-                }
-
-                cell.grass_density = 0.2 + Math.random() * 0.3;
-                cell.grass_type = selectedSpecies;
-                cell.grass_health = 0.7 + Math.random() * 0.3;
-                cell.grass_dormant = 0;
+            if (moisture < 0.25) {
+                selectedSpecies = "drought_resistant";
+            } else if (temp > 25) {
+                selectedSpecies = "warm_season";
+            } else {
+                selectedSpecies = "cool_season";
             }
+
+            terrain.grass_density[i] = 0.2 + this.random.next() * 0.3;
+            terrain.setGrassType(i, selectedSpecies);
+            terrain.grass_health[i] = 0.7 + this.random.next() * 0.3;
+            terrain.grass_dormant[i] = 0;
         }
 
         console.log("GrassSystem: Initial grass seeded");
@@ -219,15 +214,13 @@ export class GrassSystem implements ISimulationSystem {
         let cellsWithGrass = 0;
         const speciesCounts: Record<string, number> = {};
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                if (cell.grass_density && cell.grass_density > 0.01) {
-                    totalGrass += cell.grass_density;
-                    cellsWithGrass++;
-                    const type = cell.grass_type ?? "unknown";
-                    speciesCounts[type] = (speciesCounts[type] ?? 0) + 1;
-                }
+        for (let i = 0; i < width * height; i++) {
+            const density = terrain.grass_density[i];
+            if (density > 0.01) {
+                totalGrass += density;
+                cellsWithGrass++;
+                const type = terrain.getGrassType(i) ?? "unknown";
+                speciesCounts[type] = (speciesCounts[type] ?? 0) + 1;
             }
         }
 
@@ -1,33 +1,37 @@
-import { type TerrainGrid, type TerrainCell } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
+
+const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+    [0, -1], // North
+    [0, 1], // South
+    [-1, 0], // West
+    [1, 0], // East
+    [-1, -1], // Northwest
+    [1, -1], // Northeast
+    [-1, 1], // Southwest
+    [1, 1], // Southeast
+];
+
+const CARDINAL_OFFSETS: ReadonlyArray<readonly [number, number]> = NEIGHBOR_OFFSETS.slice(0, 4);
 
 /**
  * Utility functions for grid operations with wrapping support
+ * Neighbors are returned as plane indices (y * width + x)
  */
 export class GridHelper {
+    static readonly NEIGHBOR_OFFSETS = NEIGHBOR_OFFSETS;
+    static readonly CARDINAL_OFFSETS = CARDINAL_OFFSETS;
+
     /**
      * Get all 8 neighbors of a cell with world wrapping
      */
-    static getNeighbors(terrain: TerrainGrid, x: number, y: number): TerrainCell[] {
-        const neighbors: TerrainCell[] = [];
-        const directions = [
-            [0, -1], // North
-            [0, 1], // South
-            [-1, 0], // West
-            [1, 0], // East
-            [-1, -1], // Northwest
-            [1, -1], // Northeast
-            [-1, 1], // Southwest
-            [1, 1], // Southeast
-        ];
+    static getNeighbors(terrain: TerrainGrid, x: number, y: number): number[] {
+        const { width, height } = terrain;
+        const neighbors: number[] = [];
 
-        const width = terrain[0].length;
-        const height = terrain.length;
-
-        for (const [dx, dy] of directions) {
+        for (const [dx, dy] of NEIGHBOR_OFFSETS) {
             const newX = (x + dx + width) % width;
             const newY = (y + dy + height) % height;
-            const cell = terrain[newY][newX];
-            neighbors.push(cell);
+            neighbors.push(newY * width + newX);
         }
 
         return neighbors;
@@ -37,23 +41,14 @@ export class GridHelper {
      * Get only cardinal (4-direction) neighbors with world wrapping
      * Used for river propagation to avoid diagonal flow
      */
-    static getCardinalNeighbors(terrain: TerrainGrid, x: number, y: number): TerrainCell[] {
-        const neighbors: TerrainCell[] = [];
-        const directions = [
-            [0, -1], // North
-            [0, 1], // South
-            [-1, 0], // West
-            [1, 0], // East
-        ];
-
-        const width = terrain[0].length;
-        const height = terrain.length;
+    static getCardinalNeighbors(terrain: TerrainGrid, x: number, y: number): number[] {
+        const { width, height } = terrain;
+        const neighbors: number[] = [];
 
-        for (const [dx, dy] of directions) {
+        for (const [dx, dy] of CARDINAL_OFFSETS) {
             const newX = (x + dx + width) % width;
             const newY = (y + dy + height) % height;
-            const cell = terrain[newY][newX];
-            neighbors.push(cell);
+            neighbors.push(newY * width + newX);
         }
 
         return neighbors;
@@ -62,27 +57,14 @@ export class GridHelper {
     /**
      * Get all 8 neighbors with their offset directions (for spreading algorithms)
      */
-    static getNeighborsWithOffset(terrain: TerrainGrid, x: number, y: number): { cell: TerrainCell; dx: number; dy: number }[] {
-        const neighbors: { cell: TerrainCell; dx: number; dy: number }[] = [];
-        const directions = [
-            [0, -1], // North
-            [0, 1], // South
-            [-1, 0], // West
-            [1, 0], // East
-            [-1, -1], // Northwest
-            [1, -1], // Northeast
-            [-1, 1], // Southwest
-            [1, 1], // Southeast
-        ];
-
-        const width = terrain[0].length;
-        const height = terrain.length;
+    static getNeighborsWithOffset(terrain: TerrainGrid, x: number, y: number): { index: number; dx: number; dy: number }[] {
+        const { width, height } = terrain;
+        const neighbors: { index: number; dx: number; dy: number }[] = [];
 
-        for (const [dx, dy] of directions) {
+        for (const [dx, dy] of NEIGHBOR_OFFSETS) {
             const newX = (x + dx + width) % width;
             const newY = (y + dy + height) % height;
-            const cell = terrain[newY][newX];
-            neighbors.push({ cell, dx, dy });
+            neighbors.push({ index: newY * width + newX, dx, dy });
         }
 
         return neighbors;
@@ -93,8 +75,8 @@ export class GridHelper {
      */
     static getDimensions(terrain: TerrainGrid): { width: number; height: number } {
         return {
-            width: terrain[0]?.length || 0,
-            height: terrain.length
+            width: terrain.width,
+            height: terrain.height
         };
     }
 }
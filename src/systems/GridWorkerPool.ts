@@ -0,0 +1,181 @@
+import { type Worker } from "node:worker_threads";
+import { type TerrainGrid, type GridPlanes } from "../terrainGrid";
+import { PARALLEL_CONFIG } from "../config";
+import { createWorker, RUNNING_FROM_SOURCE } from "../workerThreads";
+import { runKernel, type KernelArgs, type KernelName, type KernelResult } from "./gridKernels";
+
+/**
+ * Messages posted to a grid worker
+ */
+export type GridWorkerRequest =
+    | { type: "attach"; width: number; height: number; planes: GridPlanes }
+    | { type: "run"; id: number; kernel: KernelName; rowStart: number; rowEnd: number; args: unknown[] };
+
+/**
+ * Messages posted back by a grid worker
+ */
+export type GridWorkerResponse =
+    | { id: number; result: unknown; error?: undefined }
+    | { id: number; error: string; result?: undefined };
+
+interface PendingTask {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+// Source entry under tsx; the production bundle emits it as dist/systems/gridWorker.js
+const WORKER_ENTRY = RUNNING_FROM_SOURCE
+    ? new URL("./gridWorker.ts", import.meta.url)
+    : new URL("./systems/gridWorker.js", import.meta.url);
+
+/**
+ * Pool of worker threads running grid kernels over row bands of a shared-memory grid.
+ *
+ * The grid is split into one band of whole BAND_ROWS blocks per worker; every
+ * worker writes only its own band and reads neighbor rows (the toroidal halo)
+ * straight from shared memory, so kernels that read neighbors must run as
+ * separate phases. With no workers (or on small grids) the kernel runs on the
+ * main thread over the whole grid, which gives identical results.
+ *
+ * Workers start on first use and are unref'd while idle so they never keep the
+ * process alive. If a worker fails, the pool falls back to the main thread.
+ */
+export class GridWorkerPool {
+    private workers: Worker[] = [];
+    private attachedTerrain: TerrainGrid | null = null;
+    private pending = new Map<number, PendingTask>();
+    private nextTaskId = 1;
+    private failed = false;
+
+    constructor(private workerCount: number = PARALLEL_CONFIG.WORKER_THREADS) {}
+
+    /**
+     * Number of workers in use (0 when running on the main thread)
+     */
+    getWorkerCount(): number {
+        return this.failed ? 0 : Math.max(0, this.workerCount);
+    }
+
+    /**
+     * Run a kernel over every row of the grid; results are returned in band order
+     */
+    async run<K extends KernelName>(terrain: TerrainGrid, kernel: K, ...args: KernelArgs<K>): Promise<KernelResult<K>[]> {
+        const bands = this.getBands(terrain.height);
+        if (bands.length <= 1 || !this.startWorkers()) {
+            return [runKernel(terrain, kernel, 0, terrain.height, args)];
+        }
+
+        this.attach(terrain);
+        return Promise.all(bands.map(([rowStart, rowEnd], band) =>
+            this.dispatch(this.workers[band], { type: "run", id: this.nextTaskId++, kernel, rowStart, rowEnd, args })
+        )) as Promise<KernelResult<K>[]>;
+    }
+
+    async terminate(): Promise<void> {
+        const workers = this.workers;
+        this.workers = [];
+        this.attachedTerrain = null;
+        await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    /**
+     * Split the rows into up to one band per worker, each a whole number of BAND_ROWS blocks
+     */
+    private getBands(height: number): [number, number][] {
+        const blockRows = PARALLEL_CONFIG.BAND_ROWS;
+        const blocks = Math.ceil(height / blockRows);
+        const count = Math.min(this.getWorkerCount(), blocks);
+        if (count <= 1) return [[0, height]];
+
+        const bands: [number, number][] = [];
+        for (let band = 0; band < count; band++) {
+            const firstBlock = Math.floor((band * blocks) / count);
+            const endBlock = Math.floor(((band + 1) * blocks) / count);
+            bands.push([firstBlock * blockRows, Math.min(height, endBlock * blockRows)]);
+        }
+        return bands;
+    }
+
+    private startWorkers(): boolean {
+        if (this.failed) return false;
+        if (this.workers.length > 0) return true;
+
+        try {
+            for (let i = 0; i < this.workerCount; i++) {
+                const worker = createWorker(WORKER_ENTRY);
+                worker.on("message", (response: GridWorkerResponse) => this.handleResponse(response));
+                worker.on("error", (error) => this.handleFailure(error));
+                worker.on("exit", (code) => {
+                    if (this.workers.includes(worker)) {
+                        this.handleFailure(new Error(`Grid worker exited with code ${code}`));
+                    }
+                });
+                worker.unref();
+                this.workers.push(worker);
+            }
+        } catch (error) {
+            this.handleFailure(error instanceof Error ? error : new Error(String(error)));
+            return false;
+        }
+
+        console.log(`GridWorkerPool: Started ${this.workers.length} worker threads`);
+        return true;
+    }
+
+    /**
+     * Hand the grid's shared planes to the workers (again after a world load or regeneration)
+     */
+    private attach(terrain: TerrainGrid): void {
+        if (this.attachedTerrain === terrain) return;
+
+        const request: GridWorkerRequest = {
+            type: "attach",
+            width: terrain.width,
+            height: terrain.height,
+            planes: terrain.getPlanes(),
+        };
+        for (const worker of this.workers) {
+            worker.postMessage(request);
+        }
+        this.attachedTerrain = terrain;
+    }
+
+    private dispatch(worker: Worker, request: GridWorkerRequest & { type: "run" }): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { resolve, reject });
+            // Busy workers keep the process alive until their band is done
+            worker.ref();
+            worker.postMessage(request);
+        });
+    }
+
+    private handleResponse(response: GridWorkerResponse): void {
+        const task = this.pending.get(response.id);
+        if (!task) return;
+        this.pending.delete(response.id);
+
+        if (response.error !== undefined) {
+            task.reject(new Error(`Grid worker task failed: ${response.error}`));
+        } else {
+            task.resolve(response.result);
+        }
+
+        if (this.pending.size === 0) {
+            for (const worker of this.workers) {
+                worker.unref();
+            }
+        }
+    }
+
+    private handleFailure(error: Error): void {
+        if (this.failed) return;
+        console.error("GridWorkerPool: Worker failed, falling back to the main thread:", error);
+        this.failed = true;
+
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        pending.forEach((task) => task.reject(error));
+
+        void this.terminate();
+    }
+}
@@ -1,4 +1,4 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
@@ -43,16 +43,12 @@ export class HumiditySystem implements ISimulationSystem {
     private adjustHumidityForTemperatureChange(terrain: TerrainGrid): void {
         const { width, height } = GridHelper.getDimensions(terrain);
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
+        for (let i = 0; i < width * height; i++) {
+            const currentCapacity = this.getSaturationCapacity(terrain.temperature[i], Math.max(0, terrain.terrain_height[i]));
+            const absoluteHumidity = terrain.air_humidity[i] * currentCapacity;
+            const newRelativeHumidity = absoluteHumidity / currentCapacity;
 
-                const currentCapacity = this.getSaturationCapacity(cell.temperature, Math.max(0, cell.terrain_height));
-                const absoluteHumidity = cell.air_humidity * currentCapacity;
-                const newRelativeHumidity = absoluteHumidity / currentCapacity;
-
-                cell.air_humidity = newRelativeHumidity;
-            }
+            terrain.air_humidity[i] = newRelativeHumidity;
         }
     }
 
@@ -63,34 +59,30 @@ export class HumiditySystem implements ISimulationSystem {
         const config = DIFFUSION_CONFIG;
         const { width, height } = GridHelper.getDimensions(terrain);
         const minHumidity = Math.max(config.MIN_TRANSFER_THRESHOLD, PERFORMANCE_CONFIG.MIN_HUMIDITY_THRESHOLD);
+        const airHumidity = terrain.air_humidity;
 
         for (let iteration = 0; iteration < PERFORMANCE_CONFIG.HUMIDITY_DIFFUSION_ITERATIONS; iteration++) {
-            const newHumidity: number[][] = Array(height).fill(0).map(() => Array(width).fill(0));
+            const newHumidity = new Float64Array(airHumidity);
 
-            const activeCells: Array<{ x: number; y: number }> = [];
+            const activeCells: number[] = [];
 
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    const humidity = terrain[y][x].air_humidity;
-                    newHumidity[y][x] = humidity;
-                    if (humidity >= minHumidity) {
-                        activeCells.push({ x, y });
-                    }
+            for (let i = 0; i < width * height; i++) {
+                if (airHumidity[i] >= minHumidity) {
+                    activeCells.push(i);
                 }
             }
 
             let cellsProcessed = 0;
 
-            for (const { x, y } of activeCells) {
+            for (const i of activeCells) {
                 if (cellsProcessed >= config.MAX_CELLS_PROCESSED_PER_TICK) break;
-                const cell = terrain[y][x];
 
-                const neighbors = GridHelper.getNeighbors(terrain, x, y);
-                const cellCapacity = this.getSaturationCapacity(cell.temperature, Math.max(0, cell.terrain_height));
-                const cellAbsolute = cell.air_humidity * cellCapacity;
+                const neighbors = GridHelper.getNeighbors(terrain, terrain.xOf(i), terrain.yOf(i));
+                const cellCapacity = this.getSaturationCapacity(terrain.temperature[i], Math.max(0, terrain.terrain_height[i]));
+                const cellAbsolute = airHumidity[i] * cellCapacity;
 
-                for (const neighbor of neighbors) {
-                    const altitudeDiff = neighbor.altitude - cell.altitude;
+                for (const n of neighbors) {
+                    const altitudeDiff = terrain.altitude[n] - terrain.altitude[i];
 
                     let transfer = config.HUMIDITY_DIFFUSION_RATE;
 
@@ -102,24 +94,22 @@ export class HumiditySystem implements ISimulationSystem {
                         transfer *= (1 - altitudePenalty);
                     }
 
-                    const neighborCapacity = this.getSaturationCapacity(neighbor.temperature, Math.max(0, neighbor.terrain_height));
-                    const neighborAbsolute = neighbor.air_humidity * neighborCapacity;
+                    const neighborCapacity = this.getSaturationCapacity(terrain.temperature[n], Math.max(0, terrain.terrain_height[n]));
+                    const neighborAbsolute = airHumidity[n] * neighborCapacity;
 
                     const maxTransferAbsolute = Math.max(0, neighborCapacity - neighborAbsolute);
                     const transferAbsolute = Math.min(transfer * cellAbsolute, maxTransferAbsolute);
 
                     if (transferAbsolute > 0.0001) {
-                        newHumidity[y][x] -= transferAbsolute / cellCapacity;
-                        newHumidity[neighbor.y][neighbor.x] += transferAbsolute / neighborCapacity;
+                        newHumidity[i] -= transferAbsolute / cellCapacity;
+                        newHumidity[n] += transferAbsolute / neighborCapacity;
                         cellsProcessed++;
                     }
                 }
             }
 
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    terrain[y][x].air_humidity = Math.max(0, newHumidity[y][x]);
-                }
+            for (let i = 0; i < width * height; i++) {
+                airHumidity[i] = Math.max(0, newHumidity[i]);
             }
         }
     }
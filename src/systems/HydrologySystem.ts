@@ -1,29 +1,67 @@
-import { type TerrainGrid, type TerrainCell } from "../schema";
+import { type TerrainGrid, CellType } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
-import { EROSION_CONFIG, PERFORMANCE_CONFIG } from "../config";
+import { type LakeManager, type Lake } from "./LakeManager";
+import { NO_RECEIVER, computeReceivers, getDrainageOrder } from "./drainage";
+import { EROSION_CONFIG, HYDROLOGY_CONFIG, PERFORMANCE_CONFIG, SNOW_CONFIG } from "../config";
 import { performance } from "node:perf_hooks";
 
+const RIVER_NAMES = [
+    "Azure", "Crystal", "Silver", "Golden", "Emerald", "Sapphire", "Ruby",
+    "Amber", "Pearl", "Diamond", "Jade", "Opal", "Topaz", "Moonlit",
+    "Starlight", "Shadow", "Misty", "Whispering", "Thunder", "Serpent",
+    "Dragon", "Phoenix", "Eagle", "Wolf", "Bear", "Salmon", "Trout"
+];
+const RIVER_SUFFIXES = ["River", "Stream", "Creek", "Brook", "Flow", "Waters"];
+
 /**
- * River data structure
+ * River data structure (points are grid plane indices)
  */
 interface River {
     name: string;
-    points: TerrainCell[];
+    points: number[];
+}
+
+/**
+ * Serializable hydrology state
+ */
+export interface HydrologyState {
+    riverNameCounter: number;
+    rivers: River[];
+    spills: [number, Inflow][];  // Lake overflow still to enter its outlet cell
 }
 
-interface RiverQueueItem {
-    river: River;
-    priority: number;
+/**
+ * Water handed on to a lake, or out of a full lake at its outlet
+ */
+interface Inflow {
+    volume: number;
+    riverCode: number;  // river_name code of the largest river carrying it (0 for none)
+    riverFlow: number;  // That river's flow, to pick the largest
 }
 
 /**
- * Manages water flow, river formation, and erosion
+ * Routes surface runoff downhill and grows rivers along the paths it takes.
+ *
+ * Every tick each cell drains to its steepest-descent neighbor (D8 over the
+ * water-surface altitude) and runoff accumulates from the headwaters down:
+ * springs feed SPRING_FLOW, rain falling on land partly runs off, and ground
+ * wetter than SATURATED_WETNESS drains. surface_flow follows the accumulated
+ * flow with a lag (FLOW_RESPONSE) so a single storm does not carve a river.
+ *
+ * Land whose surface_flow reaches CHANNEL_FLOW_THRESHOLD becomes a river cell
+ * continuing the largest named river draining into it, or starting a new one.
+ * River water relaxes toward a depth that grows with the flow, and channels
+ * that lose their flow dry up. Water ending in a depression pours into a lake
+ * through the LakeManager; a full lake passes its inflow on from its outlet.
  */
 export class HydrologySystem implements ISimulationSystem {
     private rivers: River[] = [];
     private riverNameCounter: number = 0;
+    private spills = new Map<number, Inflow>(); // Lake overflow entering outlet cells next tick
+
+    constructor(private lakes: LakeManager) {}
 
     /**
      * Initialize rivers from spring points in the terrain
@@ -31,25 +69,48 @@ export class HydrologySystem implements ISimulationSystem {
     initializeRivers(terrain: TerrainGrid): void {
         this.rivers = [];
         this.riverNameCounter = 0;
+        this.spills.clear();
+        this.lakes.reset();
 
         const { width, height } = GridHelper.getDimensions(terrain);
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                if (cell.type === "spring") {
-                    const riverName = this.generateRiverName();
-                    cell.river_name = riverName;
-                    this.rivers.push({
-                        name: riverName,
-                        points: [cell]
-                    });
-                    console.log(`🌊 Created ${riverName} at (${cell.x}, ${cell.y})`);
-                }
+        for (let i = 0; i < width * height; i++) {
+            if (terrain.type[i] === CellType.SPRING) {
+                this.addSpring(terrain, i);
             }
         }
     }
 
+    /**
+     * Start a new river at a spring cell
+     */
+    addSpring(terrain: TerrainGrid, index: number): void {
+        const riverName = this.generateRiverName();
+        terrain.setRiverName(index, riverName);
+        this.rivers.push({
+            name: riverName,
+            points: [index]
+        });
+        console.log(`🌊 Created ${riverName} at (${terrain.xOf(index)}, ${terrain.yOf(index)})`);
+    }
+
+    /**
+     * Detach a spring cell from its river; a river left without cells is dropped.
+     * Cells further downstream dry up unless other runoff keeps them flowing.
+     */
+    removeSpring(terrain: TerrainGrid, index: number): void {
+        const riverIndex = this.findRiverContainingCell(terrain, index);
+        terrain.setRiverName(index, undefined);
+        if (riverIndex === -1) return;
+
+        const river = this.rivers[riverIndex];
+        river.points = river.points.filter((point) => point !== index);
+        if (river.points.length === 0) {
+            this.rivers.splice(riverIndex, 1);
+            console.log(`🌊 ${river.name} dried up`);
+        }
+    }
+
     /**
      * Get current rivers (for external access)
      */
@@ -57,20 +118,113 @@ export class HydrologySystem implements ISimulationSystem {
         return this.rivers;
     }
 
+    /**
+     * Capture river and lake overflow state for persistence
+     */
+    getState(): HydrologyState {
+        return {
+            riverNameCounter: this.riverNameCounter,
+            rivers: this.rivers.map((river) => ({
+                name: river.name,
+                points: [...river.points],
+            })),
+            spills: Array.from(this.spills, ([cell, spill]): [number, Inflow] => [cell, { ...spill }]),
+        };
+    }
+
+    /**
+     * Restore river and lake overflow state from a save
+     */
+    loadState(state: HydrologyState): void {
+        this.riverNameCounter = state.riverNameCounter;
+        this.rivers = state.rivers.map((river) => ({
+            name: river.name,
+            points: [...river.points],
+        }));
+        this.spills = new Map(state.spills.map(([cell, spill]) => [cell, { ...spill }]));
+    }
+
     update(terrain: TerrainGrid, gameTime: GameTime): void {
         const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
         const start = shouldLog ? performance.now() : 0;
-        const queue = this.buildRiverQueue();
-        let iterations = 0;
 
-        // Process water flow for each river/stream, prioritizing higher-altitude sources
-        while (queue.length > 0 && iterations < PERFORMANCE_CONFIG.MAX_RIVER_FLOW_ITERATIONS) {
-            const item = this.popHighestPriorityRiver(queue);
-            if (!item) break;
-            if (!this.rivers.includes(item.river)) continue;
+        const receivers = computeReceivers(terrain);
+        const order = getDrainageOrder(receivers);
+        const flow = new Float64Array(terrain.size);
+        // Largest named river draining into each cell
+        const donorCode = new Uint16Array(terrain.size);
+        const donorFlow = new Float64Array(terrain.size);
+
+        const spills = this.spills;
+        this.spills = new Map();
+        const lakeInflow = new Map<Lake, Inflow>();
+        const sinks: number[] = [];
+        const riversByName = new Map(this.rivers.map((river) => [river.name, river]));
+        let channelsChanged = false;
+
+        for (let k = 0; k < order.length; k++) {
+            const i = order[k];
+            const spill = spills.get(i);
+            flow[i] += this.collectRunoff(terrain, i) + (spill?.volume ?? 0);
+            terrain.surface_flow[i] += (flow[i] - terrain.surface_flow[i]) * HYDROLOGY_CONFIG.FLOW_RESPONSE;
+
+            const type = terrain.type[i];
+            if (type === CellType.OCEAN) continue;
+            if (type === CellType.LAKE) {
+                const lake = this.lakes.getLakeAt(i);
+                if (lake) addInflow(lakeInflow, lake, flow[i], donorCode[i], donorFlow[i]);
+                continue;
+            }
+
+            if (type === CellType.RIVER) {
+                if (!this.feedChannel(terrain, i)) channelsChanged = true;
+            } else if (type !== CellType.SPRING && terrain.surface_flow[i] >= HYDROLOGY_CONFIG.CHANNEL_FLOW_THRESHOLD) {
+                const river = this.findUpstreamRiver(terrain, riversByName, donorCode[i] || (spill?.riverCode ?? 0), i);
+                this.convertToRiver(terrain, river, i);
+                this.feedChannel(terrain, i);
+            }
+
+            const isChannel = terrain.type[i] === CellType.RIVER || terrain.type[i] === CellType.SPRING;
+            const receiver = receivers[i];
+            if (receiver === NO_RECEIVER) {
+                // Springs never flood; anything else carrying a river pools into a lake
+                if (terrain.type[i] === CellType.RIVER) sinks.push(i);
+                continue;
+            }
 
-            this.processRiverFlow(terrain, item.river, PERFORMANCE_CONFIG.MIN_WATER_HEIGHT_THRESHOLD);
-            iterations++;
+            flow[receiver] += flow[i];
+            if (isChannel && terrain.river_name[i] !== 0 && flow[i] > donorFlow[receiver]) {
+                donorFlow[receiver] = flow[i];
+                donorCode[receiver] = terrain.river_name[i];
+            }
+        }
+
+        // Runoff pooling in a depression starts a lake there
+        for (const sink of sinks) {
+            const riverCode = terrain.river_name[sink];
+            const lake = this.lakes.createLake(terrain, sink);
+            addInflow(lakeInflow, lake, flow[sink], riverCode, flow[sink]);
+        }
+
+        lakeInflow.forEach((inflow, lake) => {
+            // Skip lakes merged into another one earlier this tick
+            if (!this.lakes.getLakes().includes(lake)) return;
+
+            const { outlet, volume } = this.lakes.addWater(terrain, lake, inflow.volume, inflow.riverCode);
+            channelsChanged = true;
+
+            // A full lake overflows: what it could not hold leaves through the outlet next tick
+            if (outlet === -1 || volume <= 0 || terrain.type[outlet] === CellType.LAKE || terrain.type[outlet] === CellType.OCEAN) return;
+            const spill = this.spills.get(outlet);
+            if (spill) {
+                spill.volume += volume;
+            } else {
+                this.spills.set(outlet, { volume, riverCode: inflow.riverCode, riverFlow: volume });
+            }
+        });
+
+        if (channelsChanged) {
+            this.pruneRivers(terrain);
         }
 
         if (shouldLog) {
@@ -82,204 +236,153 @@ export class HydrologySystem implements ISimulationSystem {
     }
 
     /**
-     * Generate a unique river name
+     * Generate a name no live river uses.
+     * Names of rivers that dried up are handed out again first, so the river
+     * name table (and its codes) only grows with the number of live rivers.
      */
     private generateRiverName(): string {
+        const taken = new Set(this.rivers.map((river) => river.name));
+        for (let n = 1; n <= this.riverNameCounter; n++) {
+            const name = riverName(n);
+            if (!taken.has(name)) return name;
+        }
+
         this.riverNameCounter++;
-        const names = [
-            "Azure", "Crystal", "Silver", "Golden", "Emerald", "Sapphire", "Ruby",
-            "Amber", "Pearl", "Diamond", "Jade", "Opal", "Topaz", "Moonlit",
-            "Starlight", "Shadow", "Misty", "Whispering", "Thunder", "Serpent",
-            "Dragon", "Phoenix", "Eagle", "Wolf", "Bear", "Salmon", "Trout"
-        ];
-        const suffixes = ["River", "Stream", "Creek", "Brook", "Flow", "Waters"];
-
-        const nameIndex = (this.riverNameCounter - 1) % names.length;
-        const suffixIndex = Math.floor((this.riverNameCounter - 1) / names.length) % suffixes.length;
-
-        return `${names[nameIndex]} ${suffixes[suffixIndex]}`;
+        return riverName(this.riverNameCounter);
     }
 
     /**
      * Find the river index that contains a specific cell
      */
-    private findRiverContainingCell(cell: TerrainCell): number {
-        for (let i = 0; i < this.rivers.length; i++) {
-            if (this.rivers[i].points.some(c => c.x === cell.x && c.y === cell.y)) {
-                return i;
-            }
-        }
-        return -1;
+    private findRiverContainingCell(terrain: TerrainGrid, index: number): number {
+        const riverName = terrain.getRiverName(index);
+        if (riverName === undefined) return -1;
+        return this.rivers.findIndex((river) => river.name === riverName);
     }
 
     /**
-     * Merge two rivers when they meet
-     * The larger river absorbs the smaller one and keeps its name
+     * Runoff a cell adds to the flow this tick
      */
-    private mergeRivers(riverIndex1: number, riverIndex2: number): void {
-        if (riverIndex1 === riverIndex2) return;
-
-        const river1 = this.rivers[riverIndex1];
-        const river2 = this.rivers[riverIndex2];
-
-        const largerRiver = river1.points.length >= river2.points.length ? river1 : river2;
-        const smallerRiver = river1.points.length >= river2.points.length ? river2 : river1;
-        const largerIndex = river1.points.length >= river2.points.length ? riverIndex1 : riverIndex2;
-        const smallerIndex = river1.points.length >= river2.points.length ? riverIndex2 : riverIndex1;
-
-        for (const cell of smallerRiver.points) {
-            if (!largerRiver.points.some(c => c.x === cell.x && c.y === cell.y)) {
-                cell.river_name = largerRiver.name;
-                largerRiver.points.push(cell);
-            }
-        }
-
-        console.log(`🌊 ${smallerRiver.name} merged into ${largerRiver.name} (${largerRiver.points.length} total points)`);
-
-        this.rivers.splice(smallerIndex, 1);
+    private collectRunoff(terrain: TerrainGrid, index: number): number {
+        const type = terrain.type[index];
+        if (type === CellType.LAKE || type === CellType.OCEAN) return 0;
+
+        // Snow stays on the ground until it melts
+        const rain = terrain.temperature[index] >= SNOW_CONFIG.SNOW_TEMPERATURE ? terrain.precipitation_rate[index] : 0;
+        if (type === CellType.SPRING) return rain + (terrain.frozen[index] ? 0 : HYDROLOGY_CONFIG.SPRING_FLOW);
+        if (type === CellType.RIVER) return rain;
+
+        // Land: rain that does not soak in, plus drainage from saturated ground
+        const excess = terrain.ground_wetness[index] - HYDROLOGY_CONFIG.SATURATED_WETNESS;
+        const drained = excess > 0 ? excess * HYDROLOGY_CONFIG.SATURATION_DRAIN_RATE : 0;
+        terrain.ground_wetness[index] -= drained;
+        return rain * HYDROLOGY_CONFIG.RAIN_RUNOFF_FRACTION + drained;
     }
 
     /**
-     * Process water flow for a single stream/river
+     * Move a river cell's water toward the depth its flow carries and erode its bed.
+     * Returns false if the cell dried up and is land again.
      */
-    private processRiverFlow(
-        terrain: TerrainGrid,
-        river: River,
-        minWaterHeightThreshold: number
-    ): boolean {
-        if (river.points.length === 0) return false;
-
-        // Process each cell in the river - apply erosion
-        let lowestCell: TerrainCell | null = null;
-
-        for (const cell of river.points) {
-            if (cell.type !== "spring" && cell.water_height < minWaterHeightThreshold) {
-                continue;
-            }
-            const erosionAmount = EROSION_CONFIG.EROSION_RATE_WATER;
-            cell.terrain_height = Math.max(
-                cell.terrain_height - erosionAmount,
-                -200
-            );
-            cell.water_height += erosionAmount;
-            cell.altitude = cell.terrain_height + cell.water_height;
-
-            if (!lowestCell || cell.altitude < lowestCell.altitude) {
-                lowestCell = cell;
-            }
+    private feedChannel(terrain: TerrainGrid, index: number): boolean {
+        // Ice neither erodes nor flows
+        if (terrain.frozen[index]) return true;
+
+        const flow = terrain.surface_flow[index];
+        const fed = flow >= HYDROLOGY_CONFIG.CHANNEL_FLOW_THRESHOLD * HYDROLOGY_CONFIG.CHANNEL_KEEP_FRACTION;
+        const depth = fed ? Math.min(HYDROLOGY_CONFIG.DEPTH_PER_FLOW * Math.sqrt(flow), HYDROLOGY_CONFIG.MAX_CHANNEL_DEPTH) : 0;
+        terrain.water_height[index] += (depth - terrain.water_height[index]) * HYDROLOGY_CONFIG.CHANNEL_FILL_RATE;
+
+        if (terrain.water_height[index] < PERFORMANCE_CONFIG.MIN_WATER_HEIGHT_THRESHOLD) {
+            // The dry bed stays wet for a while
+            terrain.type[index] = CellType.MUD;
+            terrain.water_height[index] = 0;
+            terrain.altitude[index] = terrain.terrain_height[index];
+            terrain.setRiverName(index, undefined);
+            return false;
         }
 
-        if (!lowestCell) return false;
-
-        const neighbors = GridHelper.getCardinalNeighbors(terrain, lowestCell.x, lowestCell.y);
-
-        // Find the lowest neighbor that is not water/river/spring
-        const nonWaterNeighbors = neighbors.filter(
-            n => n.type !== "river" && n.type !== "spring"
-        );
-
-        if (nonWaterNeighbors.length > 0) {
-            const lowestNonWaterNeighbor = nonWaterNeighbors.reduce((min, current) =>
-                current.altitude < min.altitude ? current : min
+        if (fed) {
+            terrain.terrain_height[index] = Math.max(
+                terrain.terrain_height[index] - EROSION_CONFIG.EROSION_RATE_WATER,
+                -200
             );
-
-            // Check if water should flow to this neighbor
-            if (lowestNonWaterNeighbor.altitude < lowestCell.altitude) {
-                lowestNonWaterNeighbor.type = "river";
-                lowestNonWaterNeighbor.water_height = 0.5;
-                lowestNonWaterNeighbor.base_moisture = 1;
-                lowestNonWaterNeighbor.added_moisture = 0;
-                lowestNonWaterNeighbor.moisture = 1;
-                lowestNonWaterNeighbor.altitude =
-                    lowestNonWaterNeighbor.terrain_height + lowestNonWaterNeighbor.water_height;
-                lowestNonWaterNeighbor.distance_from_water = 0;
-                lowestNonWaterNeighbor.river_name = river.name;
-
-                river.points.push(lowestNonWaterNeighbor);
-                return true;
-            }
         }
-
-        // Check if lowest point has river/spring neighbors (potential merge)
-        const waterNeighbors = neighbors.filter(
-            n => (n.type === "river" || n.type === "spring") &&
-                !river.points.some(c => c.x === n.x && c.y === n.y)
-        );
-
-        if (waterNeighbors.length > 0) {
-            for (const waterNeighbor of waterNeighbors) {
-                const otherRiverIndex = this.findRiverContainingCell(waterNeighbor);
-                if (otherRiverIndex !== -1) {
-                    const currentRiverIndex = this.rivers.indexOf(river);
-                    if (currentRiverIndex !== -1 && currentRiverIndex !== otherRiverIndex) {
-                        this.mergeRivers(currentRiverIndex, otherRiverIndex);
-                        return true;
-                    }
-                }
-            }
-        }
-
-        // No expansion possible, increase water level at lowest point
-        lowestCell.water_height += 0.5;
-        lowestCell.altitude = lowestCell.terrain_height + lowestCell.water_height;
-
+        terrain.altitude[index] = terrain.terrain_height[index] + terrain.water_height[index];
         return true;
     }
 
-    private buildRiverQueue(): RiverQueueItem[] {
-        const queue = this.rivers.map((river) => ({
-            river,
-            priority: this.getRiverPriority(river)
-        }));
-        this.heapify(queue);
-        return queue;
+    /**
+     * River a new channel cell continues: the one with the given code, or a new river
+     */
+    private findUpstreamRiver(terrain: TerrainGrid, riversByName: Map<string, River>, riverCode: number, index: number): River {
+        const name = terrain.tables.river_name.get(riverCode);
+        const existing = name !== undefined ? riversByName.get(name) : undefined;
+        if (existing) return existing;
+
+        const river: River = { name: this.generateRiverName(), points: [] };
+        this.rivers.push(river);
+        riversByName.set(river.name, river);
+        console.log(`🌊 Created ${river.name} at (${terrain.xOf(index)}, ${terrain.yOf(index)})`);
+        return river;
     }
 
-    private getRiverPriority(river: River): number {
-        let highestAltitude = -Infinity;
-        for (const cell of river.points) {
-            if (cell.altitude > highestAltitude) {
-                highestAltitude = cell.altitude;
-            }
+    /**
+     * Drop river cells that dried up or that a rising lake has flooded, and rivers left without cells
+     */
+    private pruneRivers(terrain: TerrainGrid): void {
+        for (const river of this.rivers) {
+            const riverCode = terrain.tables.river_name.find(river.name);
+            river.points = river.points.filter((point) => riverCode !== 0 && terrain.river_name[point] === riverCode);
         }
-        return highestAltitude;
-    }
 
-    private heapify(queue: RiverQueueItem[]): void {
-        for (let i = Math.floor(queue.length / 2) - 1; i >= 0; i--) {
-            this.siftDown(queue, i);
-        }
+        this.rivers = this.rivers.filter((river) => {
+            if (river.points.length > 0) return true;
+            console.log(`🌊 ${river.name} dried up`);
+            return false;
+        });
     }
 
-    private popHighestPriorityRiver(queue: RiverQueueItem[]): RiverQueueItem | undefined {
-        if (queue.length === 0) return undefined;
-        const top = queue[0];
-        const last = queue.pop();
-        if (queue.length > 0 && last) {
-            queue[0] = last;
-            this.siftDown(queue, 0);
-        }
-        return top;
+    /**
+     * Turn a dry cell into a river cell (its water is filled in by feedChannel)
+     */
+    private convertToRiver(terrain: TerrainGrid, river: River, n: number): void {
+        terrain.type[n] = CellType.RIVER;
+        terrain.water_height[n] = 0;
+        terrain.base_moisture[n] = 1;
+        terrain.added_moisture[n] = 0;
+        terrain.moisture[n] = 1;
+        terrain.distance_from_water[n] = 0;
+        terrain.setRiverName(n, river.name);
+
+        river.points.push(n);
     }
+}
 
-    private siftDown(queue: RiverQueueItem[], index: number): void {
-        let currentIndex = index;
-        while (true) {
-            const left = currentIndex * 2 + 1;
-            const right = currentIndex * 2 + 2;
-            let largest = currentIndex;
+/**
+ * The nth river name (from 1); once every combination is taken, later rounds are numbered ("Azure River 2")
+ */
+function riverName(n: number): string {
+    const nameIndex = (n - 1) % RIVER_NAMES.length;
+    const suffixIndex = Math.floor((n - 1) / RIVER_NAMES.length) % RIVER_SUFFIXES.length;
+    const round = Math.floor((n - 1) / (RIVER_NAMES.length * RIVER_SUFFIXES.length)) + 1;
 
-            if (left < queue.length && queue[left].priority > queue[largest].priority) {
-                largest = left;
-            }
-            if (right < queue.length && queue[right].priority > queue[largest].priority) {
-                largest = right;
-            }
+    const name = `${RIVER_NAMES[nameIndex]} ${RIVER_SUFFIXES[suffixIndex]}`;
+    return round > 1 ? `${name} ${round}` : name;
+}
 
-            if (largest === currentIndex) break;
+/**
+ * Add water flowing into a lake, keeping track of the largest river feeding it
+ */
+function addInflow(inflows: Map<Lake, Inflow>, lake: Lake, volume: number, riverCode: number, riverFlow: number): void {
+    const inflow = inflows.get(lake);
+    if (!inflow) {
+        inflows.set(lake, { volume, riverCode, riverFlow });
+        return;
+    }
 
-            [queue[currentIndex], queue[largest]] = [queue[largest], queue[currentIndex]];
-            currentIndex = largest;
-        }
+    inflow.volume += volume;
+    if (riverCode !== 0 && riverFlow > inflow.riverFlow) {
+        inflow.riverCode = riverCode;
+        inflow.riverFlow = riverFlow;
     }
 }
@@ -1,4 +1,4 @@
-import { type TerrainGrid, type TerrainCell } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 
 /**
@@ -10,13 +10,20 @@ export interface ISimulationSystem {
      * Update the terrain state for this system
      * @param terrain - The terrain grid to update
      * @param gameTime - Current game time
+     * @returns A promise for systems that hand work to worker threads
      */
-    update(terrain: TerrainGrid, gameTime: GameTime): void;
+    update(terrain: TerrainGrid, gameTime: GameTime): void | Promise<void>;
+
+    /**
+     * Number of cells processed by the last update, for systems that only visit
+     * part of the grid (profiling assumes a full-grid pass otherwise)
+     */
+    getCellsTouched?(): number;
 }
 
 /**
- * Helper type for neighbor operations
+ * Helper type for neighbor operations (neighbors are plane indices)
  */
 export interface NeighborHelper {
-    getNeighbors(terrain: TerrainGrid, x: number, y: number): TerrainCell[];
+    getNeighbors(terrain: TerrainGrid, x: number, y: number): number[];
 }
@@ -0,0 +1,335 @@
+import { type TerrainGrid, CellType } from "../terrainGrid";
+import { GridHelper } from "./GridHelper";
+import { WATER_BODY_CONFIG } from "../config";
+
+/**
+ * Standing body of water with a single flat surface (cells are grid plane indices)
+ */
+export interface Lake {
+    id: number;
+    name: string;
+    cells: number[];
+    surface: number;  // Shared water surface altitude
+    outlet: number;   // Cell the lake spills into once full (-1 while still filling)
+}
+
+/**
+ * Serializable lake state
+ */
+export interface LakeState {
+    lakeIdCounter: number;
+    lakes: Lake[];
+}
+
+/**
+ * Water leaving a lake through its outlet
+ */
+export interface Overflow {
+    outlet: number;  // Outlet cell (-1 while the lake is still filling)
+    volume: number;  // Part of the poured water the lake could not hold
+}
+
+interface BoundaryCell {
+    index: number;
+    level: number;
+}
+
+/**
+ * Tracks lakes and fills depressions as rivers pour water into them.
+ *
+ * Filling raises the lake surface up to the lowest cell on its rim, floods that
+ * cell, and repeats. When the lowest rim cell sits below the surface the lake
+ * is full and that cell becomes its outlet.
+ */
+export class LakeManager {
+    private lakes: Lake[] = [];
+    private lakeByCell = new Map<number, Lake>();
+    private lakeIdCounter = 0;
+
+    reset(): void {
+        this.lakes = [];
+        this.lakeByCell.clear();
+        this.lakeIdCounter = 0;
+    }
+
+    getLakes(): Lake[] {
+        return this.lakes;
+    }
+
+    getLakeAt(index: number): Lake | undefined {
+        return this.lakeByCell.get(index);
+    }
+
+    /**
+     * Capture lake state for persistence
+     */
+    getState(): LakeState {
+        return {
+            lakeIdCounter: this.lakeIdCounter,
+            lakes: this.lakes.map((lake) => ({ ...lake, cells: [...lake.cells] })),
+        };
+    }
+
+    /**
+     * Restore lake state from a save
+     */
+    loadState(state: LakeState): void {
+        this.reset();
+        this.lakeIdCounter = state.lakeIdCounter;
+        for (const saved of state.lakes) {
+            const lake = { ...saved, cells: [...saved.cells] };
+            this.lakes.push(lake);
+            for (const cell of lake.cells) {
+                this.lakeByCell.set(cell, lake);
+            }
+        }
+    }
+
+    /**
+     * Start a new, empty lake at the bottom of a depression
+     */
+    createLake(terrain: TerrainGrid, index: number): Lake {
+        this.lakeIdCounter++;
+        const lake: Lake = {
+            id: this.lakeIdCounter,
+            name: this.generateLakeName(),
+            cells: [],
+            surface: terrain.terrain_height[index],
+            outlet: -1,
+        };
+        this.lakes.push(lake);
+        this.floodCell(terrain, lake, index);
+        this.applySurface(terrain, lake);
+
+        console.log(`🏞️  Created ${lake.name} at (${terrain.xOf(index)}, ${terrain.yOf(index)})`);
+        return lake;
+    }
+
+    /**
+     * Pour water into a lake, raising its surface by depression filling.
+     * Returns the outlet and the water that overflows there once the lake is full
+     * (outlet -1 while it is still filling). Water spilling into a lower
+     * neighboring lake keeps filling that lake, and its overflow is returned instead.
+     *
+     * `riverCode` is the river_name code of the feeding river: its own bed below the
+     * surface is part of the basin (it flows into the lake), so it is flooded rather
+     * than treated as an outlet.
+     */
+    addWater(terrain: TerrainGrid, lake: Lake, volume: number, riverCode: number = 0): Overflow {
+        if (lake.outlet !== -1) {
+            // The feeding river ran into a dead end at the outlet - re-fill from there
+            const isOwnBed = riverCode !== 0 && terrain.river_name[lake.outlet] === riverCode;
+            if (!isOwnBed) return { outlet: lake.outlet, volume };
+            lake.outlet = -1;
+        }
+
+        const queued = new Set<number>();
+        const boundary: BoundaryCell[] = [];
+        for (const cell of lake.cells) {
+            this.queueNeighbors(terrain, lake, cell, queued, boundary);
+        }
+
+        let remaining = volume;
+        while (remaining > 0) {
+            const next = this.popLowest(boundary);
+            if (!next) break; // Rim is all springs - nothing to spill into
+
+            // Skip stale entries for cells already flooded by a merge
+            if (this.lakeByCell.get(next.index) === lake) continue;
+
+            if (next.level < lake.surface) {
+                if (riverCode === 0 || terrain.river_name[next.index] !== riverCode) {
+                    lake.outlet = next.index;
+                    break;
+                }
+
+                const fill = lake.surface - next.level;
+                if (remaining < fill) break;
+                remaining -= fill;
+                this.floodCell(terrain, lake, next.index);
+                this.queueNeighbors(terrain, lake, next.index, queued, boundary);
+                continue;
+            }
+
+            const capacity = (next.level - lake.surface) * lake.cells.length;
+            if (remaining < capacity) {
+                lake.surface += remaining / lake.cells.length;
+                remaining = 0;
+                break;
+            }
+
+            remaining -= capacity;
+            lake.surface = next.level;
+
+            // Oversized lakes stop growing; the excess seeps away
+            if (lake.cells.length >= WATER_BODY_CONFIG.MAX_LAKE_CELLS) break;
+
+            const other = this.lakeByCell.get(next.index);
+            if (other) {
+                this.mergeLake(lake, other);
+                for (const cell of other.cells) {
+                    this.queueNeighbors(terrain, lake, cell, queued, boundary);
+                }
+            } else {
+                this.floodCell(terrain, lake, next.index);
+                this.queueNeighbors(terrain, lake, next.index, queued, boundary);
+            }
+        }
+
+        this.applySurface(terrain, lake);
+
+        if (lake.outlet !== -1) {
+            console.log(`🏞️  ${lake.name} is full (${lake.cells.length} cells), spilling at (${terrain.xOf(lake.outlet)}, ${terrain.yOf(lake.outlet)})`);
+
+            const downstream = this.lakeByCell.get(lake.outlet);
+            if (downstream) {
+                return remaining > 0 ? this.addWater(terrain, downstream, remaining) : { outlet: lake.outlet, volume: 0 };
+            }
+            return { outlet: lake.outlet, volume: remaining };
+        }
+
+        return { outlet: -1, volume: 0 };
+    }
+
+    /**
+     * Take water out of a lake (evaporation), lowering its surface evenly.
+     * Cells whose bed ends up above the surface dry out.
+     * Lakes with an outlet are through-flow lakes: inflow replaces what evaporates.
+     */
+    removeWater(terrain: TerrainGrid, lake: Lake, volume: number): void {
+        if (lake.outlet !== -1 || lake.cells.length === 0) return;
+
+        lake.surface -= volume / lake.cells.length;
+
+        const remainingCells: number[] = [];
+        for (const cell of lake.cells) {
+            if (terrain.terrain_height[cell] < lake.surface) {
+                remainingCells.push(cell);
+                continue;
+            }
+
+            // Exposed lake bed stays wet
+            this.lakeByCell.delete(cell);
+            terrain.type[cell] = CellType.MUD;
+            terrain.water_height[cell] = 0;
+            terrain.altitude[cell] = terrain.terrain_height[cell];
+        }
+        lake.cells = remainingCells;
+
+        if (lake.cells.length === 0) {
+            console.log(`🏞️  ${lake.name} dried up`);
+            this.lakes.splice(this.lakes.indexOf(lake), 1);
+            return;
+        }
+
+        this.applySurface(terrain, lake);
+    }
+
+    private floodCell(terrain: TerrainGrid, lake: Lake, index: number): void {
+        terrain.type[index] = CellType.LAKE;
+        terrain.setRiverName(index, undefined);
+        lake.cells.push(index);
+        this.lakeByCell.set(index, lake);
+    }
+
+    /**
+     * Absorb another lake that the rising surface has reached
+     */
+    private mergeLake(lake: Lake, other: Lake): void {
+        for (const cell of other.cells) {
+            lake.cells.push(cell);
+            this.lakeByCell.set(cell, lake);
+        }
+        this.lakes.splice(this.lakes.indexOf(other), 1);
+
+        console.log(`🏞️  ${other.name} merged into ${lake.name} (${lake.cells.length} cells)`);
+    }
+
+    /**
+     * Write the shared surface into every lake cell
+     */
+    private applySurface(terrain: TerrainGrid, lake: Lake): void {
+        for (const cell of lake.cells) {
+            terrain.water_height[cell] = Math.max(0, lake.surface - terrain.terrain_height[cell]);
+            terrain.altitude[cell] = terrain.terrain_height[cell] + terrain.water_height[cell];
+            terrain.base_moisture[cell] = 1;
+            terrain.moisture[cell] = 1;
+            terrain.distance_from_water[cell] = 0;
+        }
+    }
+
+    /**
+     * Add a cell's rim neighbors to the boundary heap.
+     * Springs stay above water, so they are left out; river cells can be flooded.
+     */
+    private queueNeighbors(
+        terrain: TerrainGrid,
+        lake: Lake,
+        index: number,
+        queued: Set<number>,
+        boundary: BoundaryCell[]
+    ): void {
+        const neighbors = GridHelper.getCardinalNeighbors(terrain, terrain.xOf(index), terrain.yOf(index));
+        for (const neighbor of neighbors) {
+            if (queued.has(neighbor) || this.lakeByCell.get(neighbor) === lake) continue;
+
+            if (terrain.type[neighbor] === CellType.SPRING) continue;
+
+            queued.add(neighbor);
+            this.pushBoundary(boundary, { index: neighbor, level: terrain.altitude[neighbor] });
+        }
+    }
+
+    private pushBoundary(heap: BoundaryCell[], item: BoundaryCell): void {
+        heap.push(item);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (heap[parent].level <= heap[i].level) break;
+            [heap[parent], heap[i]] = [heap[i], heap[parent]];
+            i = parent;
+        }
+    }
+
+    private popLowest(heap: BoundaryCell[]): BoundaryCell | undefined {
+        if (heap.length === 0) return undefined;
+        const top = heap[0];
+        const last = heap.pop();
+        if (heap.length > 0 && last) {
+            heap[0] = last;
+            let i = 0;
+            while (true) {
+                const left = i * 2 + 1;
+                const right = i * 2 + 2;
+                let smallest = i;
+
+                if (left < heap.length && heap[left].level < heap[smallest].level) smallest = left;
+                if (right < heap.length && heap[right].level < heap[smallest].level) smallest = right;
+                if (smallest === i) break;
+
+                [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+
+    /**
+     * Generate a unique lake name
+     */
+    private generateLakeName(): string {
+        const names = [
+            "Still", "Mirror", "Glass", "Heron", "Willow", "Reed", "Cedar",
+            "Frost", "Echo", "Hollow", "Lily", "Swan", "Otter", "Kingfisher"
+        ];
+        const kinds = ["Lake", "Pond", "Tarn", "Mere", "Loch"];
+
+        const nameIndex = (this.lakeIdCounter - 1) % names.length;
+        const kindIndex = Math.floor((this.lakeIdCounter - 1) / names.length) % kinds.length;
+        // Lake ids never repeat, so numbering later rounds ("Still Lake 2") keeps names unique
+        const round = Math.floor((this.lakeIdCounter - 1) / (names.length * kinds.length)) + 1;
+
+        const name = `${names[nameIndex]} ${kinds[kindIndex]}`;
+        return round > 1 ? `${name} ${round}` : name;
+    }
+}
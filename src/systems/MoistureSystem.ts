@@ -1,4 +1,4 @@
-import { type TerrainGrid, type TerrainCell } from "../schema";
+import { type TerrainGrid, CellType } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
@@ -34,31 +34,27 @@ export class MoistureSystem implements ISimulationSystem {
         const MAX_CELLS_PROCESSED = config.maxCellsProcessed;
         const BASE_DECAY = config.baseDecay;
 
-        const visited = new Set<string>();
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const visited = new Uint8Array(width * height);
         let cellsProcessed = 0;
 
-        const queue: Array<{ cell: TerrainCell, distance: number }> = [];
+        const queue: number[] = [];
+        const queueDistance: number[] = [];
         const maxDistance = PERFORMANCE_CONFIG.MAX_MOISTURE_PROPAGATION_DISTANCE;
         const minMoistureThreshold = PERFORMANCE_CONFIG.MIN_MOISTURE_THRESHOLD;
 
         // Initialize queue with all river cells
-        const { width, height } = GridHelper.getDimensions(terrain);
         let riverCount = 0;
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                if (cell.type === "river" || cell.type === "spring") {
-                    const key = `${cell.x},${cell.y}`;
-                    if (!visited.has(key)) {
-                        visited.add(key);
-                        cell.distance_from_water = 0;
-                        cell.base_moisture = 1.0;
-                        cell.moisture = 1.0;
-                        queue.push({ cell, distance: 0 });
-                        if (cell.type === "spring") riverCount++;
-                    }
-                }
+        for (let i = 0; i < width * height; i++) {
+            if (terrain.isWater(i) && !visited[i]) {
+                visited[i] = 1;
+                terrain.distance_from_water[i] = 0;
+                terrain.base_moisture[i] = 1.0;
+                terrain.moisture[i] = 1.0;
+                queue.push(i);
+                queueDistance.push(0);
+                if (terrain.type[i] === CellType.SPRING) riverCount++;
             }
         }
 
@@ -72,17 +68,16 @@ export class MoistureSystem implements ISimulationSystem {
         // Breadth-first propagation
         let queueIndex = 0;
         while (queueIndex < queue.length && cellsProcessed < MAX_CELLS_PROCESSED) {
-            const { cell, distance } = queue[queueIndex];
+            const cell = queue[queueIndex];
+            const distance = queueDistance[queueIndex];
             queueIndex++;
             cellsProcessed++;
 
-            const neighbors = GridHelper.getNeighbors(terrain, cell.x, cell.y);
+            const neighbors = GridHelper.getNeighbors(terrain, terrain.xOf(cell), terrain.yOf(cell));
 
             for (const neighbor of neighbors) {
-                const neighborKey = `${neighbor.x},${neighbor.y}`;
-
-                if (visited.has(neighborKey)) continue;
-                if (neighbor.type === "river" || neighbor.type === "spring") continue;
+                if (visited[neighbor]) continue;
+                if (terrain.isWater(neighbor)) continue;
 
                 const newDistance = distance + 1;
                 if (newDistance > maxDistance) continue;
@@ -90,7 +85,7 @@ export class MoistureSystem implements ISimulationSystem {
                 const distanceDecay = Math.exp(-newDistance * config.distanceDecayRate);
 
                 const waterVolumeBoost = 1.0 + Math.min(
-                    cell.water_height * config.waterVolumeBoostFactor,
+                    terrain.water_height[cell] * config.waterVolumeBoostFactor,
                     config.maxWaterVolumeBoost
                 );
 
@@ -100,7 +95,7 @@ export class MoistureSystem implements ISimulationSystem {
 
                 let moistureMultiplier = 1.0;
 
-                const heightDiff = neighbor.altitude - cell.altitude;
+                const heightDiff = terrain.altitude[neighbor] - terrain.altitude[cell];
                 if (heightDiff > 0) {
                     const uphillPenalty = heightDiff * UPHILL_PENALTY_PERCENT;
                     moistureMultiplier -= uphillPenalty;
@@ -109,42 +104,41 @@ export class MoistureSystem implements ISimulationSystem {
                     moistureMultiplier += downhillBonus;
                 }
 
-                const altitudeDryness = Math.max(0, neighbor.terrain_height) * ALTITUDE_DRYNESS_PERCENT;
+                const altitudeDryness = Math.max(0, terrain.terrain_height[neighbor]) * ALTITUDE_DRYNESS_PERCENT;
                 moistureMultiplier -= altitudeDryness;
 
                 moistureMultiplier = Math.max(0.05, Math.min(1.5, moistureMultiplier));
 
                 let effectiveTransfer = baseMoisture * moistureMultiplier;
+                const neighborMoisture = terrain.base_moisture[neighbor];
 
-                if (neighbor.base_moisture > 0) {
-                    const saturationFactor = 1 - (neighbor.base_moisture / MAX_LAND_MOISTURE);
+                if (neighborMoisture > 0) {
+                    const saturationFactor = 1 - (neighborMoisture / MAX_LAND_MOISTURE);
                     const diminishingReturns = Math.pow(saturationFactor, config.saturationExponent);
                     effectiveTransfer *= diminishingReturns;
                 }
 
-                if (neighbor.base_moisture >= MAX_LAND_MOISTURE) continue;
+                if (neighborMoisture >= MAX_LAND_MOISTURE) continue;
 
-                if (effectiveTransfer > 0 && neighbor.base_moisture < MAX_LAND_MOISTURE) {
+                if (effectiveTransfer > 0 && neighborMoisture < MAX_LAND_MOISTURE) {
                     const newMoisture = Math.min(
-                        neighbor.base_moisture + effectiveTransfer,
+                        neighborMoisture + effectiveTransfer,
                         MAX_LAND_MOISTURE
                     );
 
-                    if (newMoisture > neighbor.base_moisture + 0.00001) {
-                        neighbor.base_moisture = newMoisture;
-                        neighbor.moisture = newMoisture;
-                        neighbor.distance_from_water = newDistance;
-
-                        visited.add(neighborKey);
-                        queue.push({
-                            cell: neighbor,
-                            distance: newDistance
-                        });
-
-                        if (neighbor.moisture > 0.8) {
-                            neighbor.type = "mud";
-                        } else if (neighbor.moisture > 0.2) {
-                            neighbor.type = "earth";
+                    if (newMoisture > neighborMoisture + 0.00001) {
+                        terrain.base_moisture[neighbor] = newMoisture;
+                        terrain.moisture[neighbor] = newMoisture;
+                        terrain.distance_from_water[neighbor] = newDistance;
+
+                        visited[neighbor] = 1;
+                        queue.push(neighbor);
+                        queueDistance.push(newDistance);
+
+                        if (newMoisture > 0.8) {
+                            terrain.type[neighbor] = CellType.MUD;
+                        } else if (newMoisture > 0.2) {
+                            terrain.type[neighbor] = CellType.EARTH;
                         }
                     }
                 }
@@ -156,16 +150,13 @@ export class MoistureSystem implements ISimulationSystem {
         }
 
         // Apply evaporation to non-water cells
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                if (cell.type !== "spring" && cell.type !== "river") {
-                    cell.base_moisture *= BASE_DECAY;
-                    cell.moisture = cell.base_moisture;
-                    if (cell.base_moisture < 0.000001) {
-                        cell.base_moisture = 0;
-                        cell.moisture = 0;
-                    }
+        for (let i = 0; i < width * height; i++) {
+            if (!terrain.isWater(i)) {
+                terrain.base_moisture[i] *= BASE_DECAY;
+                terrain.moisture[i] = terrain.base_moisture[i];
+                if (terrain.base_moisture[i] < 0.000001) {
+                    terrain.base_moisture[i] = 0;
+                    terrain.moisture[i] = 0;
                 }
             }
         }
@@ -187,40 +178,34 @@ export class MoistureSystem implements ISimulationSystem {
 
         for (let iter = 0; iter < iterations; iter++) {
             // Create a copy of current moisture values
-            const moistureCopy: number[][] = [];
-            for (let y = 0; y < height; y++) {
-                moistureCopy[y] = [];
-                for (let x = 0; x < width; x++) {
-                    moistureCopy[y][x] = terrain[y][x].moisture;
-                }
-            }
+            const moistureCopy = terrain.moisture.slice();
 
             // Apply diffusion
             for (let y = 0; y < height; y++) {
                 for (let x = 0; x < width; x++) {
-                    const cell = terrain[y][x];
+                    const i = y * width + x;
 
                     // Don't diffuse water sources
-                    if (cell.type === "spring" || cell.type === "river") continue;
+                    if (terrain.isWater(i)) continue;
 
-                    const neighbors = GridHelper.getNeighbors(terrain, x, y);
-                    let totalMoisture = moistureCopy[y][x];
+                    let totalMoisture = moistureCopy[i];
                     let count = 1;
 
-                    for (const neighbor of neighbors) {
+                    for (const [dx, dy] of GridHelper.NEIGHBOR_OFFSETS) {
+                        const n = ((y + dy + height) % height) * width + (x + dx + width) % width;
                         // Weight diagonal neighbors less (distance is sqrt(2) vs 1)
-                        const isDiagonal = neighbor.x !== x && neighbor.y !== y;
+                        const isDiagonal = dx !== 0 && dy !== 0;
                         const weight = isDiagonal ? 0.707 : 1.0;
-                        totalMoisture += moistureCopy[neighbor.y][neighbor.x] * weight;
+                        totalMoisture += moistureCopy[n] * weight;
                         count += weight;
                     }
 
                     const averageMoisture = totalMoisture / count;
                     // Blend current value with average based on strength
-                    const newMoisture = cell.moisture * (1 - strength) + averageMoisture * strength;
+                    const newMoisture = terrain.moisture[i] * (1 - strength) + averageMoisture * strength;
 
-                    cell.moisture = newMoisture;
-                    cell.base_moisture = newMoisture;
+                    terrain.moisture[i] = newMoisture;
+                    terrain.base_moisture[i] = newMoisture;
                 }
             }
         }
@@ -0,0 +1,252 @@
+import { PERFORMANCE_CONFIG } from "../config";
+import { performance } from "node:perf_hooks";
+
+/**
+ * Rolling timing statistics for one system (milliseconds)
+ */
+export interface SystemTimingStats {
+    name: string;
+    samples: number;
+    lastMs: number;
+    meanMs: number;
+    p95Ms: number;
+    maxMs: number;
+    lastCellsTouched: number;
+    meanCellsTouched: number;
+}
+
+/**
+ * Timing and memory of a single tick
+ */
+export interface TickProfile {
+    tick: number;
+    timestamp: Date;
+    totalMs: number;
+    systems: Record<string, number>;  // Duration per system that ran this tick
+    heapUsed: number;                 // Bytes
+    heapTotal: number;
+    rss: number;
+}
+
+export interface PerformanceWarning {
+    tick: number;
+    timestamp: Date;
+    totalMs: number;
+    slowestSystem: string | null;
+    slowestSystemMs: number;
+}
+
+export interface PerformanceReport {
+    windowSize: number;
+    warningThresholdMs: number;
+    ticksProfiled: number;
+    lastTick: TickProfile | null;
+    tick: { lastMs: number; meanMs: number; p95Ms: number; maxMs: number };
+    heap: { lastUsed: number; maxUsed: number; lastTotal: number; lastRss: number };
+    systems: SystemTimingStats[];
+    warnings: PerformanceWarning[];
+}
+
+/**
+ * Cumulative duration histogram since startup (milliseconds)
+ */
+export interface DurationHistogram {
+    buckets: number[];  // Upper bounds
+    counts: number[];   // Observations <= each bound (cumulative)
+    count: number;
+    sum: number;
+}
+
+interface SystemSamples {
+    durations: number[];
+    cellsTouched: number[];
+    histogram: DurationHistogram;
+}
+
+/**
+ * Keeps per-system and per-tick timings over a rolling window of ticks.
+ *
+ * The engine calls beginTick(), recordSystem() for each system it runs and
+ * endTick(). Ticks slower than TICK_TIME_WARNING_MS are kept as warnings.
+ */
+export class PerformanceProfiler {
+    private windowSize = PERFORMANCE_CONFIG.PROFILE_WINDOW_SIZE;
+    private systems = new Map<string, SystemSamples>();
+    private systemOrder: string[] = [];
+    private ticks: TickProfile[] = [];
+    private warnings: PerformanceWarning[] = [];
+    private ticksProfiled = 0;
+    private tickHistogram = this.createHistogram();
+    private current: TickProfile | null = null;
+    private tickStart = 0;
+
+    beginTick(tick: number): void {
+        this.tickStart = performance.now();
+        this.current = {
+            tick,
+            timestamp: new Date(),
+            totalMs: 0,
+            systems: {},
+            heapUsed: 0,
+            heapTotal: 0,
+            rss: 0,
+        };
+    }
+
+    recordSystem(name: string, durationMs: number, cellsTouched: number): void {
+        let samples = this.systems.get(name);
+        if (!samples) {
+            samples = { durations: [], cellsTouched: [], histogram: this.createHistogram() };
+            this.systems.set(name, samples);
+            this.systemOrder.push(name);
+        }
+
+        this.pushSample(samples.durations, durationMs);
+        this.pushSample(samples.cellsTouched, cellsTouched);
+        this.observe(samples.histogram, durationMs);
+
+        if (this.current) {
+            this.current.systems[name] = durationMs;
+        }
+    }
+
+    /**
+     * Close the current tick; returns its profile (or null if no tick was started)
+     */
+    endTick(): TickProfile | null {
+        const profile = this.current;
+        if (!profile) return null;
+        this.current = null;
+
+        const memory = process.memoryUsage();
+        profile.totalMs = performance.now() - this.tickStart;
+        profile.heapUsed = memory.heapUsed;
+        profile.heapTotal = memory.heapTotal;
+        profile.rss = memory.rss;
+
+        this.ticksProfiled++;
+        this.pushSample(this.ticks, profile);
+        this.observe(this.tickHistogram, profile.totalMs);
+
+        if (profile.totalMs > PERFORMANCE_CONFIG.TICK_TIME_WARNING_MS) {
+            this.recordWarning(profile);
+        }
+
+        return profile;
+    }
+
+    getReport(): PerformanceReport {
+        const tickDurations = this.ticks.map((profile) => profile.totalMs);
+        const heapUsed = this.ticks.map((profile) => profile.heapUsed);
+        const lastTick = this.ticks.length > 0 ? this.ticks[this.ticks.length - 1] : null;
+
+        return {
+            windowSize: this.windowSize,
+            warningThresholdMs: PERFORMANCE_CONFIG.TICK_TIME_WARNING_MS,
+            ticksProfiled: this.ticksProfiled,
+            lastTick,
+            tick: {
+                lastMs: lastTick?.totalMs ?? 0,
+                meanMs: this.mean(tickDurations),
+                p95Ms: this.percentile(tickDurations, 0.95),
+                maxMs: tickDurations.length > 0 ? Math.max(...tickDurations) : 0,
+            },
+            heap: {
+                lastUsed: lastTick?.heapUsed ?? 0,
+                maxUsed: heapUsed.length > 0 ? Math.max(...heapUsed) : 0,
+                lastTotal: lastTick?.heapTotal ?? 0,
+                lastRss: lastTick?.rss ?? 0,
+            },
+            systems: this.systemOrder.map((name) => this.getSystemStats(name)),
+            warnings: [...this.warnings],
+        };
+    }
+
+    getTicksProfiled(): number {
+        return this.ticksProfiled;
+    }
+
+    getTickHistogram(): DurationHistogram {
+        return this.tickHistogram;
+    }
+
+    /**
+     * Duration histograms per system, in first-run order
+     */
+    getSystemHistograms(): { name: string; histogram: DurationHistogram }[] {
+        return this.systemOrder.map((name) => ({ name, histogram: this.systems.get(name)!.histogram }));
+    }
+
+    private getSystemStats(name: string): SystemTimingStats {
+        const { durations, cellsTouched } = this.systems.get(name)!;
+        return {
+            name,
+            samples: durations.length,
+            lastMs: durations[durations.length - 1] ?? 0,
+            meanMs: this.mean(durations),
+            p95Ms: this.percentile(durations, 0.95),
+            maxMs: durations.length > 0 ? Math.max(...durations) : 0,
+            lastCellsTouched: cellsTouched[cellsTouched.length - 1] ?? 0,
+            meanCellsTouched: this.mean(cellsTouched),
+        };
+    }
+
+    private recordWarning(profile: TickProfile): void {
+        let slowestSystem: string | null = null;
+        let slowestSystemMs = 0;
+        for (const [name, duration] of Object.entries(profile.systems)) {
+            if (duration > slowestSystemMs) {
+                slowestSystem = name;
+                slowestSystemMs = duration;
+            }
+        }
+
+        this.warnings.push({
+            tick: profile.tick,
+            timestamp: profile.timestamp,
+            totalMs: profile.totalMs,
+            slowestSystem,
+            slowestSystemMs,
+        });
+        if (this.warnings.length > PERFORMANCE_CONFIG.PROFILE_MAX_WARNINGS) {
+            this.warnings.shift();
+        }
+
+        console.warn(
+            `⚠️  Tick ${profile.tick} took ${Math.round(profile.totalMs)}ms ` +
+            `(target ${PERFORMANCE_CONFIG.TICK_TIME_WARNING_MS}ms, slowest: ${slowestSystem ?? "none"} ${Math.round(slowestSystemMs)}ms)`
+        );
+    }
+
+    private createHistogram(): DurationHistogram {
+        const buckets = [...PERFORMANCE_CONFIG.PROFILE_HISTOGRAM_BUCKETS_MS];
+        return { buckets, counts: buckets.map(() => 0), count: 0, sum: 0 };
+    }
+
+    private observe(histogram: DurationHistogram, durationMs: number): void {
+        histogram.count++;
+        histogram.sum += durationMs;
+        for (let i = 0; i < histogram.buckets.length; i++) {
+            if (durationMs <= histogram.buckets[i]) histogram.counts[i]++;
+        }
+    }
+
+    private pushSample<T>(samples: T[], value: T): void {
+        samples.push(value);
+        if (samples.length > this.windowSize) {
+            samples.shift();
+        }
+    }
+
+    private mean(values: number[]): number {
+        if (values.length === 0) return 0;
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+
+    private percentile(values: number[], fraction: number): number {
+        if (values.length === 0) return 0;
+        const sorted = [...values].sort((a, b) => a - b);
+        const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+        return sorted[Math.max(0, index)];
+    }
+}
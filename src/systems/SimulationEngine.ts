@@ -1,68 +1,191 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
-import { type ISimulationSystem } from "./ISimulationSystem";
+import { SystemRegistry } from "./SystemRegistry";
+import { PerformanceProfiler } from "./PerformanceProfiler";
+import { GridWorkerPool } from "./GridWorkerPool";
 import { TemperatureSystem } from "./TemperatureSystem";
 import { WeatherSystem } from "./WeatherSystem";
 import { WindTransportSystem } from "./WindTransportSystem";
 import { CloudSystem } from "./CloudSystem";
 import { PrecipitationSystem } from "./PrecipitationSystem";
-import { HydrologySystem } from "./HydrologySystem";
+import { SnowSystem } from "./SnowSystem";
+import { HydrologySystem, type HydrologyState } from "./HydrologySystem";
+import { LakeManager, type LakeState } from "./LakeManager";
 import { EvaporationSystem } from "./EvaporationSystem";
 import { HumiditySystem } from "./HumiditySystem";
 import { CondensationSystem } from "./CondensationSystem";
 import { MoistureSystem } from "./MoistureSystem";
 import { GrassSystem } from "./GrassSystem";
+import { VegetationSystem } from "./VegetationSystem";
+import { FaunaSystem, type FaunaState } from "./FaunaSystem";
+import { EcologySystem } from "./EcologySystem";
+import { BiomeSystem, type BiomeState } from "./BiomeSystem";
+import { ClimateStatsSystem, type ClimateStatsState } from "./ClimateStatsSystem";
 import { PERFORMANCE_CONFIG } from "../config";
-import { WeatherMetrics } from "./WeatherMetrics";
+import { type SeededRandom } from "../random";
+import { performance } from "node:perf_hooks";
+import { WeatherMetrics, type WeatherMetricsState } from "./WeatherMetrics";
+import { EcologyMetrics, type EcologyMetricsState } from "./EcologyMetrics";
+import { WeatherHistory, type WeatherHistoryState } from "./WeatherHistory";
 
 /**
- * Orchestrates all simulation systems in the correct order
- * 
- * System execution order is critical:
+ * Serializable engine state (everything that is not stored on terrain cells)
+ */
+export interface SimulationEngineState {
+    tickCount: number;
+    grassInitialized: boolean;
+    ticksSinceLastMetrics: number;
+    hydrology: HydrologyState;
+    lakes: LakeState;
+    biome: BiomeState;
+    climateStats: ClimateStatsState;
+    fauna: FaunaState;
+    weatherMetrics: WeatherMetricsState;
+    weatherHistory: WeatherHistoryState;
+    ecologyMetrics: EcologyMetricsState;
+}
+
+/**
+ * Orchestrates all simulation systems through a SystemRegistry
+ *
+ * Built-in systems are registered in this order (see `after` for the hard dependencies):
  * 1. Temperature - affects saturation capacity
  * 2. Weather - pressure and wind generation
  * 3. Wind transport - humidity and heat advection
  * 4. Clouds - formation and advection
- * 5. Precipitation - rain and ground wetness
- * 6. Hydrology - river flow and erosion
- * 7. Evaporation - water bodies → air humidity
- * 8. Humidity - adjusts for temperature changes and diffuses
- * 9. Condensation - oversaturated air → ground moisture
- * 10. Moisture - ground moisture propagation from water sources
- * 11. Grass - growth, dormancy, and spreading
+ * 5. Precipitation - rain, snow and ground wetness
+ * 6. Snow - snowmelt and river/lake ice
+ * 7. Hydrology - surface runoff, river channels, erosion and lakes
+ * 8. Evaporation - water bodies → air humidity
+ * 9. Humidity - adjusts for temperature changes and diffuses
+ * 10. Condensation - oversaturated air → ground moisture
+ * 11. Moisture - ground moisture propagation from water sources
+ * 12. Grass - growth, dormancy, and spreading
+ * 13. Vegetation - trees and shrubs, competing with grass
+ * 14. Fauna - herbivore herds grazing and drinking
+ * 15. Ecology - prey/predator density fields
+ * 16. Biome - climate statistics and biome classification
+ * 17. Climate stats - monthly and yearly per-cell climate records
+ *
+ * Living systems start at GRASS_INIT_TICK, once moisture is established.
+ * Temperature, weather (pressure blur), precipitation, evaporation and
+ * condensation run their per-cell loops on a shared GridWorkerPool.
  */
 export class SimulationEngine {
-    private temperatureSystem: TemperatureSystem;
-    private weatherSystem: WeatherSystem;
-    private windTransportSystem: WindTransportSystem;
-    private cloudSystem: CloudSystem;
-    private precipitationSystem: PrecipitationSystem;
+    private registry = new SystemRegistry();
+    private profiler = new PerformanceProfiler();
+    private workerPool = new GridWorkerPool();
     private hydrologySystem: HydrologySystem;
-    private evaporationSystem: EvaporationSystem;
-    private humiditySystem: HumiditySystem;
-    private condensationSystem: CondensationSystem;
-    private moistureSystem: MoistureSystem;
+    private lakeManager: LakeManager;
     private grassSystem: GrassSystem;
+    private vegetationSystem: VegetationSystem;
+    private faunaSystem: FaunaSystem;
+    private ecologySystem: EcologySystem;
+    private biomeSystem: BiomeSystem;
+    private climateStatsSystem: ClimateStatsSystem;
     private weatherMetrics: WeatherMetrics;
+    private weatherHistory = new WeatherHistory();
+    private ecologyMetrics: EcologyMetrics;
     private ticksSinceLastMetrics = 0;
     private METRICS_INTERVAL = 12;
     private tickCount = 0;
     private grassInitialized = false;
     private GRASS_INIT_TICK = 100;
 
-    constructor() {
-        this.temperatureSystem = new TemperatureSystem();
-        this.weatherSystem = new WeatherSystem();
-        this.windTransportSystem = new WindTransportSystem();
-        this.cloudSystem = new CloudSystem();
-        this.precipitationSystem = new PrecipitationSystem();
-        this.hydrologySystem = new HydrologySystem();
-        this.evaporationSystem = new EvaporationSystem();
-        this.humiditySystem = new HumiditySystem();
-        this.condensationSystem = new CondensationSystem();
-        this.moistureSystem = new MoistureSystem();
-        this.grassSystem = new GrassSystem();
+    constructor(random: SeededRandom) {
+        this.lakeManager = new LakeManager();
+        this.hydrologySystem = new HydrologySystem(this.lakeManager);
+        this.grassSystem = new GrassSystem(random);
+        this.vegetationSystem = new VegetationSystem(random);
+        this.faunaSystem = new FaunaSystem(random);
+        this.ecologySystem = new EcologySystem(random);
+        this.biomeSystem = new BiomeSystem();
+        this.climateStatsSystem = new ClimateStatsSystem();
         this.weatherMetrics = new WeatherMetrics();
+        this.ecologyMetrics = new EcologyMetrics();
+
+        this.registerBuiltInSystems();
+    }
+
+    private registerBuiltInSystems(): void {
+        const registry = this.registry;
+        const livingStart = this.GRASS_INIT_TICK;
+
+        registry.register({
+            name: "temperature", order: 10, system: new TemperatureSystem(this.workerPool),
+            description: "Air temperature from time of day, season and altitude",
+        });
+        registry.register({
+            name: "weather", order: 20, system: new WeatherSystem(this.workerPool), after: ["temperature"],
+            description: "Pressure and wind generation",
+        });
+        registry.register({
+            name: "windTransport", order: 30, system: new WindTransportSystem(), after: ["weather"],
+            description: "Wind-driven humidity and heat advection",
+        });
+        registry.register({
+            name: "clouds", order: 40, system: new CloudSystem(), after: ["windTransport"],
+            description: "Cloud formation and advection",
+        });
+        registry.register({
+            name: "precipitation", order: 50, system: new PrecipitationSystem(this.workerPool), after: ["clouds"],
+            description: "Rain, snow and ground wetness",
+        });
+        registry.register({
+            name: "snow", order: 60, system: new SnowSystem(this.lakeManager), after: ["precipitation"],
+            description: "Snowmelt and river/lake ice",
+        });
+        registry.register({
+            name: "hydrology", order: 70, system: this.hydrologySystem, after: ["snow"],
+            description: "Surface runoff, river channels, erosion and lake filling",
+        });
+        registry.register({
+            name: "evaporation", order: 80, system: new EvaporationSystem(this.lakeManager, this.workerPool), after: ["hydrology"],
+            description: "Evaporation from water bodies and evapotranspiration from ground",
+        });
+        registry.register({
+            name: "humidity", order: 90, system: new HumiditySystem(), after: ["evaporation"],
+            description: "Humidity adjustment for temperature changes and diffusion",
+        });
+        registry.register({
+            name: "condensation", order: 100, system: new CondensationSystem(this.workerPool), after: ["humidity"],
+            description: "Oversaturated air condensing into ground moisture",
+        });
+        registry.register({
+            name: "moisture", order: 110, system: new MoistureSystem(), after: ["hydrology"],
+            description: "Ground moisture propagation from water sources",
+        });
+        registry.register({
+            name: "grass", order: 120, system: this.grassSystem, after: ["moisture"], startTick: livingStart,
+            description: "Grass growth, dormancy and spreading",
+        });
+        registry.register({
+            name: "vegetation", order: 130, system: this.vegetationSystem, after: ["grass"], startTick: livingStart,
+            description: "Tree and shrub growth, seeding and grass shading",
+        });
+        registry.register({
+            name: "fauna", order: 140, system: this.faunaSystem, after: ["grass"], startTick: livingStart,
+            description: "Herbivore herds grazing, drinking and breeding",
+        });
+        registry.register({
+            name: "ecology", order: 150, system: this.ecologySystem, after: ["grass"], startTick: livingStart,
+            description: "Prey/predator population dynamics",
+        });
+        registry.register({
+            name: "biome", order: 160, system: this.biomeSystem, after: ["moisture"],
+            description: "Climate statistics and biome classification",
+        });
+        registry.register({
+            name: "climateStats", order: 170, system: this.climateStatsSystem, after: ["precipitation"],
+            description: "Monthly and yearly per-cell climate records",
+        });
+    }
+
+    /**
+     * Registry of the systems run every tick (for listing, toggling and adding systems)
+     */
+    getRegistry(): SystemRegistry {
+        return this.registry;
     }
 
     /**
@@ -72,97 +195,147 @@ export class SimulationEngine {
         return this.hydrologySystem;
     }
 
+    getLakeManager(): LakeManager {
+        return this.lakeManager;
+    }
+
+    getVegetationSystem(): VegetationSystem {
+        return this.vegetationSystem;
+    }
+
+    getFaunaSystem(): FaunaSystem {
+        return this.faunaSystem;
+    }
+
+    /**
+     * Rolling per-system timings (for the performance API)
+     */
+    getProfiler(): PerformanceProfiler {
+        return this.profiler;
+    }
+
+    /**
+     * Worker threads shared by the per-cell systems
+     */
+    getWorkerPool(): GridWorkerPool {
+        return this.workerPool;
+    }
+
     getWeatherMetrics(): WeatherMetrics {
         return this.weatherMetrics;
     }
 
+    getWeatherHistory(): WeatherHistory {
+        return this.weatherHistory;
+    }
+
+    getEcologyMetrics(): EcologyMetrics {
+        return this.ecologyMetrics;
+    }
+
+    /**
+     * Number of ticks simulated since the world was generated
+     */
+    getTickCount(): number {
+        return this.tickCount;
+    }
+
+    /**
+     * Capture engine counters and system state for persistence
+     */
+    getState(): SimulationEngineState {
+        return {
+            tickCount: this.tickCount,
+            grassInitialized: this.grassInitialized,
+            ticksSinceLastMetrics: this.ticksSinceLastMetrics,
+            hydrology: this.hydrologySystem.getState(),
+            lakes: this.lakeManager.getState(),
+            biome: this.biomeSystem.getState(),
+            climateStats: this.climateStatsSystem.getState(),
+            fauna: this.faunaSystem.getState(),
+            weatherMetrics: this.weatherMetrics.getState(),
+            weatherHistory: this.weatherHistory.getState(),
+            ecologyMetrics: this.ecologyMetrics.getState(),
+        };
+    }
+
+    /**
+     * Restore engine counters and system state from a save
+     */
+    loadState(state: SimulationEngineState): void {
+        this.tickCount = state.tickCount;
+        this.grassInitialized = state.grassInitialized;
+        this.ticksSinceLastMetrics = state.ticksSinceLastMetrics;
+        this.hydrologySystem.loadState(state.hydrology);
+        this.lakeManager.loadState(state.lakes);
+        this.biomeSystem.loadState(state.biome);
+        this.climateStatsSystem.loadState(state.climateStats);
+        this.faunaSystem.loadState(state.fauna);
+        this.weatherMetrics.loadState(state.weatherMetrics);
+        this.weatherHistory.loadState(state.weatherHistory);
+        this.ecologyMetrics.loadState(state.ecologyMetrics);
+    }
+
+    /**
+     * Forget everything simulated so far (before generating a new world).
+     * Rivers and lakes are reset by HydrologySystem.initializeRivers; timing
+     * statistics and system settings are kept.
+     */
+    reset(): void {
+        this.tickCount = 0;
+        this.grassInitialized = false;
+        this.ticksSinceLastMetrics = 0;
+        this.biomeSystem.loadState({ ticksRecorded: 0, lastClassifiedMonth: -1 });
+        this.climateStatsSystem.loadState({ lastRecordedHour: -1, monthHours: 0, yearHours: 0, yearMonths: 0 });
+        this.faunaSystem.loadState({ herdIdCounter: 0, herds: [] });
+        this.weatherMetrics.loadState({ tickCounter: 0, history: [] });
+        this.weatherHistory.loadState({ raw: [], hourly: [], daily: [], monthly: [] });
+        this.ecologyMetrics.loadState({ tickCounter: 0, history: [] });
+    }
+
     /**
      * Run one simulation tick
      */
-    update(terrain: TerrainGrid, gameTime: GameTime): void {
+    async update(terrain: TerrainGrid, gameTime: GameTime): Promise<void> {
         const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
-        const startTime = Date.now();
-
-        // 1. Update temperature (affects saturation capacity)
-        if (shouldLog) console.time("Temperature");
-        this.temperatureSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Temperature");
-
-        // 2. Calculate pressure and wind
-        if (shouldLog) console.time("Weather");
-        this.weatherSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Weather");
-
-        // 3. Wind-driven transport
-        if (shouldLog) console.time("WindTransport");
-        this.windTransportSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("WindTransport");
-
-        // 4. Cloud formation and advection
-        if (shouldLog) console.time("Clouds");
-        this.cloudSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Clouds");
-
-        // 5. Precipitation and ground wetness
-        if (shouldLog) console.time("Precipitation");
-        this.precipitationSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Precipitation");
-
-        // 6. Process hydrology (river flow, erosion)
-        if (shouldLog) console.time("Hydrology");
-        this.hydrologySystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Hydrology");
-
-        // 7. Evaporation from water bodies and ground
-        if (shouldLog) console.time("Evaporation");
-        this.evaporationSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Evaporation");
-
-        // 8. Adjust humidity for temperature changes and diffuse
-        if (shouldLog) console.time("Humidity");
-        this.humiditySystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Humidity");
-
-        // 9. Condensation (oversaturation → ground moisture)
-        if (shouldLog) console.time("Condensation");
-        this.condensationSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Condensation");
-
-        // 10. Ground moisture propagation
-        if (shouldLog) console.time("Moisture");
-        this.moistureSystem.update(terrain, gameTime);
-        if (shouldLog) console.timeEnd("Moisture");
-
-        // 11. Grass growth and spreading (delayed until moisture is established)
+
         this.tickCount++;
-        if (this.tickCount >= this.GRASS_INIT_TICK) {
-            if (!this.grassInitialized) {
-                console.log(`GrassSystem: Initializing grass at tick ${this.tickCount}`);
-                this.grassSystem.seedInitialGrass(terrain);
-                this.grassInitialized = true;
-            }
-            if (shouldLog) console.time("Grass");
-            this.grassSystem.update(terrain, gameTime);
-            if (shouldLog) console.timeEnd("Grass");
+        this.profiler.beginTick(this.tickCount);
+
+        // Seed living systems once moisture is established
+        if (this.tickCount >= this.GRASS_INIT_TICK && !this.grassInitialized) {
+            console.log(`GrassSystem: Initializing grass at tick ${this.tickCount}`);
+            this.grassSystem.seedInitialGrass(terrain);
+            this.vegetationSystem.seedInitialVegetation(terrain);
+            this.faunaSystem.spawnInitialHerds(terrain);
+            this.ecologySystem.seedInitialPopulations(terrain);
+            this.grassInitialized = true;
         }
+
+        await this.registry.runTick(terrain, gameTime, this.tickCount, this.profiler, shouldLog);
+
         this.ticksSinceLastMetrics += 1;
         if (this.ticksSinceLastMetrics >= this.METRICS_INTERVAL) {
+            const metricsStart = performance.now();
             const snapshot = this.weatherMetrics.captureSnapshot(terrain);
             this.weatherMetrics.logSummary(snapshot);
+            this.weatherHistory.record(snapshot, gameTime);
+
+            const ecologySnapshot = this.ecologyMetrics.captureSnapshot(terrain);
+            this.ecologyMetrics.logSummary(ecologySnapshot);
 
             if (snapshot.tick % 5 === 0) {
                 this.weatherMetrics.analyzeClosedLoop();
             }
 
             this.ticksSinceLastMetrics = 0;
+            this.profiler.recordSystem("metrics", performance.now() - metricsStart, terrain.size);
         }
 
-        if (shouldLog) {
-            const totalTime = Date.now() - startTime;
-            console.log(`Total tick time: ${totalTime}ms`);
-            if (totalTime > PERFORMANCE_CONFIG.TICK_TIME_WARNING_MS) {
-                console.warn("⚠️  Tick exceeded 5s target!");
-            }
+        // Slow ticks are reported by the profiler against TICK_TIME_WARNING_MS
+        const profile = this.profiler.endTick();
+        if (shouldLog && profile) {
+            console.log(`Total tick time: ${Math.round(profile.totalMs)}ms`);
         }
     }
 }
@@ -0,0 +1,132 @@
+import { type TerrainGrid, CellType } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { GridHelper } from "./GridHelper";
+import { type LakeManager, type Lake } from "./LakeManager";
+import { MOISTURE_CONFIG, PERFORMANCE_CONFIG, SNOW_CONFIG } from "../config";
+import { performance } from "node:perf_hooks";
+
+/**
+ * Melts snowpack and freezes/thaws standing and flowing water.
+ *
+ * Meltwater soaks into the ground (ground_wetness/moisture), except for a runoff
+ * share that drains into an adjacent river, spring or lake. Snow lying on ice
+ * melts straight into the water body once it thaws.
+ * The ocean never freezes.
+ */
+export class SnowSystem implements ISimulationSystem {
+    constructor(private lakes: LakeManager) {}
+
+    update(terrain: TerrainGrid, gameTime: GameTime): void {
+        const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
+        const start = shouldLog ? performance.now() : 0;
+
+        this.updateIce(terrain);
+        this.meltSnow(terrain);
+
+        if (shouldLog) {
+            const duration = performance.now() - start;
+            if (duration > 1000) {
+                console.warn(`${this.constructor.name} took ${Math.round(duration)}ms`);
+            }
+        }
+    }
+
+    /**
+     * Freeze springs, rivers and lakes below FREEZE_TEMPERATURE, thaw them above THAW_TEMPERATURE
+     */
+    private updateIce(terrain: TerrainGrid): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+
+        for (let i = 0; i < width * height; i++) {
+            if (!terrain.isWater(i) || terrain.type[i] === CellType.OCEAN) {
+                terrain.frozen[i] = 0;
+                continue;
+            }
+
+            const temperature = terrain.temperature[i];
+            if (temperature < SNOW_CONFIG.FREEZE_TEMPERATURE) {
+                terrain.frozen[i] = 1;
+            } else if (temperature > SNOW_CONFIG.THAW_TEMPERATURE) {
+                terrain.frozen[i] = 0;
+            }
+        }
+    }
+
+    private meltSnow(terrain: TerrainGrid): void {
+        const config = SNOW_CONFIG;
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const lakeInflow = new Map<Lake, number>();
+
+        for (let i = 0; i < width * height; i++) {
+            const snowDepth = terrain.snow_depth[i];
+            if (snowDepth <= 0) continue;
+
+            const temperature = terrain.temperature[i];
+            if (temperature <= config.MELT_TEMPERATURE || terrain.frozen[i]) continue;
+
+            const melted = Math.min(snowDepth, (temperature - config.MELT_TEMPERATURE) * config.MELT_RATE);
+            terrain.snow_depth[i] = snowDepth - melted;
+            const meltwater = melted * config.SNOW_WATER_EQUIVALENT;
+
+            if (terrain.isWater(i)) {
+                this.addWater(terrain, i, meltwater, lakeInflow);
+                continue;
+            }
+
+            // Part of the meltwater runs off downhill into a neighboring water body
+            const runoffTarget = this.findRunoffTarget(terrain, i);
+            const runoff = runoffTarget === -1 ? 0 : meltwater * config.MELT_RUNOFF_FRACTION;
+            if (runoff > 0) {
+                this.addWater(terrain, runoffTarget, runoff, lakeInflow);
+            }
+
+            const soaked = meltwater - runoff;
+            terrain.ground_wetness[i] = Math.min(1, terrain.ground_wetness[i] + soaked);
+            const newMoisture = Math.min(MOISTURE_CONFIG.maxLandMoisture, terrain.moisture[i] + soaked);
+            terrain.moisture[i] = newMoisture;
+            terrain.base_moisture[i] = newMoisture;
+        }
+
+        lakeInflow.forEach((volume, lake) => this.lakes.addWater(terrain, lake, volume));
+    }
+
+    /**
+     * Lowest unfrozen spring, river or lake cell next to a cell (-1 if none lies downhill)
+     */
+    private findRunoffTarget(terrain: TerrainGrid, index: number): number {
+        const neighbors = GridHelper.getCardinalNeighbors(terrain, terrain.xOf(index), terrain.yOf(index));
+        let target = -1;
+
+        for (const neighbor of neighbors) {
+            const type = terrain.type[neighbor];
+            if (type !== CellType.SPRING && type !== CellType.RIVER && type !== CellType.LAKE) continue;
+            if (terrain.frozen[neighbor] || terrain.altitude[neighbor] > terrain.altitude[index]) continue;
+
+            if (target === -1 || terrain.altitude[neighbor] < terrain.altitude[target]) {
+                target = neighbor;
+            }
+        }
+
+        return target;
+    }
+
+    /**
+     * Add meltwater to a water cell; lakes collect it for their whole surface
+     */
+    private addWater(terrain: TerrainGrid, index: number, volume: number, lakeInflow: Map<Lake, number>): void {
+        const type = terrain.type[index];
+        if (type === CellType.OCEAN) return;
+
+        if (type === CellType.LAKE) {
+            const lake = this.lakes.getLakeAt(index);
+            if (lake) {
+                lakeInflow.set(lake, (lakeInflow.get(lake) ?? 0) + volume);
+            }
+            return;
+        }
+
+        terrain.water_height[index] += volume;
+        terrain.altitude[index] = terrain.terrain_height[index] + terrain.water_height[index];
+    }
+}
@@ -0,0 +1,225 @@
+import { type TerrainGrid } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { type PerformanceProfiler } from "./PerformanceProfiler";
+import { performance } from "node:perf_hooks";
+
+/**
+ * How a system is scheduled within a tick
+ */
+export interface SystemRegistration {
+    name: string;
+    system: ISimulationSystem;
+    order: number;          // Lower runs first (among systems whose dependencies are met)
+    after?: string[];       // Systems that must run before this one in a tick
+    enabled?: boolean;      // Default: true
+    cadence?: number;       // Run every N ticks (default: every tick)
+    startTick?: number;     // First tick the system runs on (default: 0)
+    description?: string;
+}
+
+/**
+ * Registered system as reported by the API
+ */
+export interface SystemInfo {
+    name: string;
+    description: string;
+    order: number;
+    after: string[];
+    enabled: boolean;
+    cadence: number;
+    startTick: number;
+    runCount: number;
+    lastRunTick: number;   // -1 if the system has not run yet
+}
+
+interface RegisteredSystem {
+    name: string;
+    system: ISimulationSystem;
+    description: string;
+    order: number;
+    after: string[];
+    enabled: boolean;
+    cadence: number;
+    startTick: number;
+    runCount: number;
+    lastRunTick: number;
+}
+
+/**
+ * Ordered set of simulation systems run once per tick.
+ *
+ * Execution order is a topological sort of the `after` dependencies, with
+ * `order` (then registration order) breaking ties, so new systems can slot in
+ * without editing the engine. Systems can be disabled or slowed to a cadence
+ * at runtime; these switches are for experiments and are not saved.
+ */
+export class SystemRegistry {
+    private systems: RegisteredSystem[] = [];
+    private executionOrder: RegisteredSystem[] | null = null;
+
+    register(registration: SystemRegistration): void {
+        if (this.systems.some((entry) => entry.name === registration.name)) {
+            throw new Error(`System "${registration.name}" is already registered`);
+        }
+
+        const cadence = registration.cadence ?? 1;
+        if (!Number.isInteger(cadence) || cadence < 1) {
+            throw new Error(`System "${registration.name}" has an invalid cadence: ${cadence}`);
+        }
+
+        this.systems.push({
+            name: registration.name,
+            system: registration.system,
+            description: registration.description ?? "",
+            order: registration.order,
+            after: [...(registration.after ?? [])],
+            enabled: registration.enabled ?? true,
+            cadence,
+            startTick: registration.startTick ?? 0,
+            runCount: 0,
+            lastRunTick: -1,
+        });
+        this.executionOrder = null;
+    }
+
+    unregister(name: string): boolean {
+        const index = this.systems.findIndex((entry) => entry.name === name);
+        if (index === -1) return false;
+
+        this.systems.splice(index, 1);
+        this.executionOrder = null;
+        return true;
+    }
+
+    has(name: string): boolean {
+        return this.systems.some((entry) => entry.name === name);
+    }
+
+    /**
+     * Registered systems in execution order
+     */
+    list(): SystemInfo[] {
+        return this.getExecutionOrder().map((entry) => this.toInfo(entry));
+    }
+
+    getInfo(name: string): SystemInfo | undefined {
+        const entry = this.find(name);
+        return entry ? this.toInfo(entry) : undefined;
+    }
+
+    /**
+     * Enable or disable a system (returns false for unknown systems)
+     */
+    setEnabled(name: string, enabled: boolean): boolean {
+        const entry = this.find(name);
+        if (!entry) return false;
+
+        entry.enabled = enabled;
+        return true;
+    }
+
+    /**
+     * Run a system only every `cadence` ticks (returns false for unknown systems)
+     */
+    setCadence(name: string, cadence: number): boolean {
+        if (!Number.isInteger(cadence) || cadence < 1) {
+            throw new Error(`Invalid cadence: ${cadence}`);
+        }
+
+        const entry = this.find(name);
+        if (!entry) return false;
+
+        entry.cadence = cadence;
+        return true;
+    }
+
+    /**
+     * Run every system due on this tick, in execution order, timing each one
+     */
+    async runTick(terrain: TerrainGrid, gameTime: GameTime, tick: number, profiler: PerformanceProfiler, shouldLog: boolean): Promise<void> {
+        for (const entry of this.getExecutionOrder()) {
+            if (!this.isDue(entry, tick)) continue;
+
+            const start = performance.now();
+            await entry.system.update(terrain, gameTime);
+            const duration = performance.now() - start;
+
+            profiler.recordSystem(entry.name, duration, entry.system.getCellsTouched?.() ?? terrain.size);
+            if (shouldLog) console.log(`${entry.name}: ${duration.toFixed(1)}ms`);
+
+            entry.runCount++;
+            entry.lastRunTick = tick;
+        }
+    }
+
+    private isDue(entry: RegisteredSystem, tick: number): boolean {
+        if (!entry.enabled || tick < entry.startTick) return false;
+        return (tick - entry.startTick) % entry.cadence === 0;
+    }
+
+    private find(name: string): RegisteredSystem | undefined {
+        return this.systems.find((entry) => entry.name === name);
+    }
+
+    /**
+     * Topological sort of the dependencies (Kahn's algorithm, lowest order first)
+     */
+    private getExecutionOrder(): RegisteredSystem[] {
+        if (this.executionOrder) return this.executionOrder;
+
+        const byName = new Map<string, RegisteredSystem>();
+        for (const entry of this.systems) {
+            byName.set(entry.name, entry);
+        }
+
+        const remainingDependencies = new Map<RegisteredSystem, number>();
+        for (const entry of this.systems) {
+            for (const dependency of entry.after) {
+                if (!byName.has(dependency)) {
+                    throw new Error(`System "${entry.name}" depends on unknown system "${dependency}"`);
+                }
+            }
+            remainingDependencies.set(entry, entry.after.length);
+        }
+
+        const ready = this.systems.filter((entry) => entry.after.length === 0);
+        const sorted: RegisteredSystem[] = [];
+
+        while (ready.length > 0) {
+            ready.sort((a, b) => a.order - b.order || this.systems.indexOf(a) - this.systems.indexOf(b));
+            const next = ready.shift()!;
+            sorted.push(next);
+
+            for (const entry of this.systems) {
+                if (!entry.after.includes(next.name)) continue;
+
+                const remaining = remainingDependencies.get(entry)! - 1;
+                remainingDependencies.set(entry, remaining);
+                if (remaining === 0) ready.push(entry);
+            }
+        }
+
+        if (sorted.length !== this.systems.length) {
+            const blocked = this.systems.filter((entry) => !sorted.includes(entry)).map((entry) => entry.name);
+            throw new Error(`Circular system dependencies: ${blocked.join(", ")}`);
+        }
+
+        this.executionOrder = sorted;
+        return sorted;
+    }
+
+    private toInfo(entry: RegisteredSystem): SystemInfo {
+        return {
+            name: entry.name,
+            description: entry.description,
+            order: entry.order,
+            after: [...entry.after],
+            enabled: entry.enabled,
+            cadence: entry.cadence,
+            startTick: entry.startTick,
+            runCount: entry.runCount,
+            lastRunTick: entry.lastRunTick,
+        };
+    }
+}
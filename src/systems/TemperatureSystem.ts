@@ -1,8 +1,7 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
-import { GridHelper } from "./GridHelper";
-import { getTemperature } from "../temperature";
+import { type GridWorkerPool } from "./GridWorkerPool";
 import { PERFORMANCE_CONFIG } from "../config";
 import { performance } from "node:perf_hooks";
 
@@ -36,11 +35,13 @@ const MONTHS_INFO: MonthInfo[] = [
  * Manages temperature calculations based on latitude, altitude, and time
  */
 export class TemperatureSystem implements ISimulationSystem {
-    update(terrain: TerrainGrid, gameTime: GameTime): void {
+    constructor(private workers: GridWorkerPool) {}
+
+    async update(terrain: TerrainGrid, gameTime: GameTime): Promise<void> {
         const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
         const start = shouldLog ? performance.now() : 0;
 
-        this.updateTemperature(terrain, gameTime);
+        await this.updateTemperature(terrain, gameTime);
 
         if (shouldLog) {
             const duration = performance.now() - start;
@@ -50,31 +51,13 @@ export class TemperatureSystem implements ISimulationSystem {
         }
     }
 
-    private updateTemperature(terrain: TerrainGrid, gameTime: GameTime): void {
+    private async updateTemperature(terrain: TerrainGrid, gameTime: GameTime): Promise<void> {
         const monthInfo = MONTHS_INFO[gameTime.month - 1];
-        const monthTempDay = monthInfo.temp_day;
-        const monthTempNight = monthInfo.temp_night;
-        const currentHour = gameTime.hour;
-
-        const { width, height } = GridHelper.getDimensions(terrain);
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                const altitudeMeters = cell.terrain_height;
-                const humidity = cell.air_humidity ?? 0;  // Air humidity (0-1)
-                cell.temperature = getTemperature(
-                    x,
-                    y,
-                    altitudeMeters,
-                    width,
-                    height,
-                    monthTempDay,
-                    monthTempNight,
-                    currentHour,
-                    humidity
-                );
-            }
-        }
+        await this.workers.run(terrain, "temperature", {
+            monthTempDay: monthInfo.temp_day,
+            monthTempNight: monthInfo.temp_night,
+            hour: gameTime.hour,
+        });
     }
 }
@@ -0,0 +1,295 @@
+import { type TerrainGrid } from "../terrainGrid";
+import { type GameTime } from "../storage";
+import { type ISimulationSystem } from "./ISimulationSystem";
+import { GridHelper } from "./GridHelper";
+import {
+    GRASS_CONFIG,
+    PERFORMANCE_CONFIG,
+    TICKS_PER_YEAR,
+    VEGETATION_CONFIG,
+    WOODY_SPECIES,
+    type WoodySpecies,
+} from "../config";
+import { type SeededRandom } from "../random";
+import { performance } from "node:perf_hooks";
+
+/**
+ * Per-species woody vegetation statistics
+ */
+export interface WoodySpeciesSummary {
+    cells: number;
+    matureCells: number;
+    avgCover: number;
+}
+
+export interface VegetationSummary {
+    coverage: number;  // % of cells with woody plants
+    avgCover: number;  // Mean canopy cover over cells with woody plants
+    species: Record<string, WoodySpeciesSummary>;
+}
+
+/**
+ * Woody cover statistics per species (for the vegetation API and logs)
+ */
+export function summarizeVegetation(terrain: TerrainGrid): VegetationSummary {
+    const { width, height } = GridHelper.getDimensions(terrain);
+    const species: Record<string, WoodySpeciesSummary> = {};
+    let cells = 0;
+    let totalCover = 0;
+
+    for (let i = 0; i < width * height; i++) {
+        const cover = terrain.woody_cover[i];
+        if (cover <= 0) continue;
+
+        const id = terrain.getWoodyType(i) ?? "unknown";
+        const summary = species[id] ?? (species[id] = { cells: 0, matureCells: 0, avgCover: 0 });
+        summary.cells++;
+        summary.avgCover += cover;
+        const definition = WOODY_SPECIES.find((candidate) => candidate.id === id);
+        if (definition && terrain.woody_age[i] >= definition.maturityAge) {
+            summary.matureCells++;
+        }
+
+        cells++;
+        totalCover += cover;
+    }
+
+    for (const summary of Object.values(species)) {
+        summary.avgCover /= summary.cells;
+    }
+
+    return {
+        coverage: (cells / (width * height)) * 100,
+        avgCover: cells > 0 ? totalCover / cells : 0,
+        species,
+    };
+}
+
+/**
+ * Trees and shrubs: slow canopy growth over game years, seed dispersal and
+ * competition with grass.
+ *
+ * Each cell holds at most one woody species with a canopy cover (0-1) and an
+ * age in years. Growth follows the current temperature (so it stops in winter),
+ * while drought and waterlogging are judged on the yearly mean moisture tracked
+ * by the BiomeSystem, so a dry week does not kill a forest.
+ *
+ * Grass competes with seedlings for establishment and early growth; once the
+ * canopy closes it shades the grass below, capping its density.
+ */
+export class VegetationSystem implements ISimulationSystem {
+    private speciesMap: Map<string, WoodySpecies>;
+    private random: SeededRandom;
+    private cellsTouched = 0;
+
+    constructor(random: SeededRandom) {
+        this.random = random;
+        this.speciesMap = new Map();
+        for (const species of WOODY_SPECIES) {
+            this.speciesMap.set(species.id, species);
+        }
+    }
+
+    getCellsTouched(): number {
+        return this.cellsTouched;
+    }
+
+    update(terrain: TerrainGrid, gameTime: GameTime): void {
+        const shouldLog = PERFORMANCE_CONFIG.ENABLE_PERFORMANCE_LOGGING;
+        const start = shouldLog ? performance.now() : 0;
+        const { width, height } = GridHelper.getDimensions(terrain);
+        this.cellsTouched = 0;
+
+        for (let i = 0; i < width * height; i++) {
+            if (terrain.woody_cover[i] > 0) {
+                this.updateWoody(terrain, i);
+                this.cellsTouched++;
+            }
+        }
+
+        // Mature plants set seed once a day
+        if (gameTime.hour === 0) {
+            this.disperseSeeds(terrain);
+            this.logSummary(terrain);
+        }
+
+        if (shouldLog) {
+            const duration = performance.now() - start;
+            if (duration > 1000) {
+                console.warn(`${this.constructor.name} took ${Math.round(duration)}ms`);
+            }
+        }
+    }
+
+    private updateWoody(terrain: TerrainGrid, i: number): void {
+        const species = this.speciesMap.get(terrain.getWoodyType(i) ?? "");
+        if (!species) {
+            this.clearCell(terrain, i);
+            return;
+        }
+
+        const config = VEGETATION_CONFIG;
+        const temp = terrain.temperature[i];
+        const moisture = terrain.climate_moisture[i];
+        let cover = terrain.woody_cover[i];
+
+        terrain.woody_age[i] += 1 / TICKS_PER_YEAR;
+
+        if (terrain.isWater(i)) {
+            // Drowned by a rising lake or a new river
+            cover = 0;
+        } else if (temp < species.frostTolerance) {
+            cover -= config.FROST_DAMAGE_RATE;
+        } else if (moisture < species.minMoisture || moisture > species.maxMoisture) {
+            cover -= config.DROUGHT_DIEBACK_RATE;
+        } else {
+            const tempFactor = this.calculateTempFactor(temp, species);
+            const moistureFactor = this.calculateMoistureFactor(moisture, species);
+            // Grass crowds out young plants until their canopy outgrows it
+            const competition = 1 - config.GRASS_COMPETITION * terrain.grass_density[i] * (1 - cover);
+            const growthRate = (species.baseGrowthRate / TICKS_PER_YEAR) * tempFactor * moistureFactor * competition;
+            // Logistic: growth slows as the canopy closes
+            cover += growthRate * (1 - cover);
+        }
+
+        if (cover < config.MIN_COVER) {
+            this.clearCell(terrain, i);
+            return;
+        }
+
+        terrain.woody_cover[i] = Math.min(1, cover);
+
+        // Canopy shade caps the grass underneath
+        const grassCap = GRASS_CONFIG.MAX_GRASS_DENSITY * (1 - terrain.woody_cover[i] * species.shade);
+        if (terrain.grass_density[i] > grassCap) {
+            terrain.grass_density[i] = grassCap;
+        }
+    }
+
+    /**
+     * Mature plants send seeds to random cells within their dispersal radius
+     */
+    private disperseSeeds(terrain: TerrainGrid): void {
+        const { width, height } = GridHelper.getDimensions(terrain);
+        const seeds: { index: number; species: WoodySpecies }[] = [];
+
+        for (let i = 0; i < width * height; i++) {
+            if (terrain.woody_cover[i] <= 0) continue;
+
+            const species = this.speciesMap.get(terrain.getWoodyType(i) ?? "");
+            if (!species || terrain.woody_age[i] < species.maturityAge) continue;
+            if (this.random.next() >= species.seedProbability * terrain.woody_cover[i]) continue;
+
+            const radius = species.dispersalRadius;
+            const dx = this.random.nextInt(radius * 2 + 1) - radius;
+            const dy = this.random.nextInt(radius * 2 + 1) - radius;
+            if (dx === 0 && dy === 0) continue;
+
+            const x = (terrain.xOf(i) + dx + width) % width;
+            const y = (terrain.yOf(i) + dy + height) % height;
+            seeds.push({ index: terrain.index(x, y), species });
+        }
+
+        for (const seed of seeds) {
+            const i = seed.index;
+            if (!this.canEstablish(terrain, i, seed.species)) continue;
+            // A dense grass sward keeps most seedlings from taking root
+            if (this.random.next() < VEGETATION_CONFIG.GRASS_COMPETITION * terrain.grass_density[i]) continue;
+
+            terrain.setWoodyType(i, seed.species.id);
+            terrain.woody_cover[i] = VEGETATION_CONFIG.SEEDLING_COVER;
+            terrain.woody_age[i] = 0;
+        }
+    }
+
+    private canEstablish(terrain: TerrainGrid, i: number, species: WoodySpecies): boolean {
+        if (terrain.woody_cover[i] > 0) return false;
+        if (terrain.isWater(i) || terrain.water_height[i] > 0.5) return false;
+        if (terrain.altitude[i] > VEGETATION_CONFIG.MAX_ALTITUDE) return false;
+
+        const moisture = terrain.climate_moisture[i];
+        return moisture >= species.minMoisture
+            && moisture <= species.maxMoisture
+            && terrain.climate_temperature[i] > species.frostTolerance;
+    }
+
+    private clearCell(terrain: TerrainGrid, i: number): void {
+        terrain.setWoodyType(i, undefined);
+        terrain.woody_cover[i] = 0;
+        terrain.woody_age[i] = 0;
+    }
+
+    private calculateTempFactor(temp: number, species: WoodySpecies): number {
+        if (temp < species.minGrowthTemp || temp > species.maxGrowthTemp) return 0;
+        if (temp >= species.optimalTempMin && temp <= species.optimalTempMax) return 1;
+
+        if (temp < species.optimalTempMin) {
+            return (temp - species.minGrowthTemp) / (species.optimalTempMin - species.minGrowthTemp);
+        }
+        return (species.maxGrowthTemp - temp) / (species.maxGrowthTemp - species.optimalTempMax);
+    }
+
+    private calculateMoistureFactor(moisture: number, species: WoodySpecies): number {
+        if (moisture < species.minMoisture || moisture > species.maxMoisture) return 0;
+        if (moisture >= species.optimalMoistureMin && moisture <= species.optimalMoistureMax) return 1;
+
+        if (moisture < species.optimalMoistureMin) {
+            return (moisture - species.minMoisture) / (species.optimalMoistureMin - species.minMoisture);
+        }
+        return (species.maxMoisture - moisture) / (species.maxMoisture - species.optimalMoistureMax);
+    }
+
+    /**
+     * Seed initial woodland where the climate suits a species
+     */
+    seedInitialVegetation(terrain: TerrainGrid): void {
+        const config = VEGETATION_CONFIG;
+        const { width, height } = GridHelper.getDimensions(terrain);
+
+        for (let i = 0; i < width * height; i++) {
+            if (terrain.isWater(i) || terrain.water_height[i] > 0.5) continue;
+            if (terrain.altitude[i] > config.MAX_ALTITUDE) continue;
+            if (this.random.next() > config.INITIAL_SEED_PROBABILITY) continue;
+
+            // Pick the species best suited to this cell's climate so far
+            let bestSpecies: WoodySpecies | undefined;
+            let bestScore = 0;
+            for (const species of WOODY_SPECIES) {
+                if (!this.canEstablish(terrain, i, species)) continue;
+                const score = this.calculateTempFactor(terrain.climate_temperature[i], species)
+                    * this.calculateMoistureFactor(terrain.climate_moisture[i], species);
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestSpecies = species;
+                }
+            }
+            if (!bestSpecies) continue;
+
+            terrain.setWoodyType(i, bestSpecies.id);
+            terrain.woody_cover[i] = config.SEEDLING_COVER + this.random.next() * config.INITIAL_MAX_COVER;
+            terrain.woody_age[i] = this.random.next() * config.INITIAL_MAX_AGE;
+        }
+
+        console.log("VegetationSystem: Initial woodland seeded");
+    }
+
+    /**
+     * Woody cover statistics for the API and logs
+     */
+    getSummary(terrain: TerrainGrid): VegetationSummary {
+        return summarizeVegetation(terrain);
+    }
+
+    private logSummary(terrain: TerrainGrid): void {
+        const summary = this.getSummary(terrain);
+        if (summary.coverage === 0) return;
+
+        const counts: Record<string, number> = {};
+        for (const [id, species] of Object.entries(summary.species)) {
+            counts[id] = species.cells;
+        }
+        console.log(
+            `VegetationSystem: ${summary.coverage.toFixed(1)}% coverage, avg canopy: ${summary.avgCover.toFixed(2)}, species: ${JSON.stringify(counts)}`
+        );
+    }
+}
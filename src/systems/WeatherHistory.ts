@@ -0,0 +1,245 @@
+/**
+ * Weather history (time series store)
+ *
+ * Keeps every WeatherMetrics snapshot for a while (raw) and rolls them up into
+ * hourly, daily and monthly buckets keyed by game time, each tier with its own
+ * retention, so a long-running world can still be charted over whole years.
+ * Times are absolute game hours counted from year 1, month 1, day 1, hour 0.
+ */
+import { TIME_CONFIG, WEATHER_HISTORY_CONFIG } from "../config";
+import type { GameTime } from "../storage";
+import type { WeatherSnapshot } from "./WeatherMetrics";
+
+export type WeatherMetricName = Exclude<keyof WeatherSnapshot, "tick" | "timestamp">;
+
+// Order of the values stored with every point and bucket (part of the save format)
+export const WEATHER_METRIC_NAMES: readonly WeatherMetricName[] = [
+  "avgTemperature", "avgHumidity", "avgPressure", "avgWindSpeed", "avgCloudDensity",
+  "avgPrecipitation", "avgGroundWetness", "avgMoisture", "avgSnowDepth", "avgWoodyCover",
+  "cloudCoverage", "rainCoverage", "wetGroundCoverage", "snowCoverage", "frozenWaterCoverage",
+  "woodyCoverage", "totalEvaporation", "totalPrecipitation",
+  "maxWindSpeed", "maxCloudDensity", "maxPrecipitation", "maxSnowDepth",
+];
+
+export type HistoryResolution = "raw" | "hourly" | "daily" | "monthly";
+
+export const HISTORY_RESOLUTIONS: readonly HistoryResolution[] = ["raw", "hourly", "daily", "monthly"];
+
+export type HistoryAggregation = "mean" | "min" | "max";
+
+export const HISTORY_AGGREGATIONS: readonly HistoryAggregation[] = ["mean", "min", "max"];
+
+const HOURS_PER_MONTH = TIME_CONFIG.HOURS_PER_DAY * TIME_CONFIG.DAYS_PER_MONTH;
+const HOURS_PER_YEAR = HOURS_PER_MONTH * TIME_CONFIG.MONTHS_PER_YEAR;
+
+export interface GameTimeKey {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+export interface HistoryPoint {
+  hour: number;
+  time: GameTimeKey;
+  value: number;
+  samples: number; // Snapshots behind the value (1 for raw points)
+}
+
+export interface HistoryQuery {
+  metric: WeatherMetricName;
+  from: number;       // Game hour, inclusive
+  to: number;         // Game hour, exclusive
+  resolution: HistoryResolution;
+  aggregation: HistoryAggregation;
+}
+
+export interface HistoryQueryResult {
+  metric: WeatherMetricName;
+  resolution: HistoryResolution;
+  aggregation: HistoryAggregation;
+  points: HistoryPoint[];
+  truncated: boolean; // More than MAX_QUERY_POINTS points matched; the earliest are returned
+  retained: { from: number; to: number } | null; // Game hours still held at this resolution
+}
+
+interface RawPoint {
+  hour: number;
+  tick: number;
+  values: number[];
+}
+
+interface RollupBucket {
+  start: number;
+  count: number;
+  sum: number[];
+  min: number[];
+  max: number[];
+}
+
+export interface WeatherHistoryState {
+  raw: RawPoint[];
+  hourly: RollupBucket[];
+  daily: RollupBucket[];
+  monthly: RollupBucket[];
+}
+
+export function toGameHour(time: GameTimeKey): number {
+  return (time.year - 1) * HOURS_PER_YEAR
+    + (time.month - 1) * HOURS_PER_MONTH
+    + (time.day - 1) * TIME_CONFIG.HOURS_PER_DAY
+    + time.hour;
+}
+
+export function fromGameHour(hour: number): GameTimeKey {
+  return {
+    year: Math.floor(hour / HOURS_PER_YEAR) + 1,
+    month: Math.floor((hour % HOURS_PER_YEAR) / HOURS_PER_MONTH) + 1,
+    day: Math.floor((hour % HOURS_PER_MONTH) / TIME_CONFIG.HOURS_PER_DAY) + 1,
+    hour: hour % TIME_CONFIG.HOURS_PER_DAY,
+  };
+}
+
+/**
+ * Buckets of a fixed span (in game hours); only the latest `retention` are kept
+ */
+class RollupTier {
+  private buckets: RollupBucket[] = [];
+
+  constructor(private span: number, private retention: number) {}
+
+  add(hour: number, values: number[]): void {
+    const start = hour - (hour % this.span);
+    let bucket = this.buckets[this.buckets.length - 1];
+
+    if (!bucket || bucket.start !== start) {
+      bucket = {
+        start,
+        count: 0,
+        sum: values.map(() => 0),
+        min: values.map(() => Infinity),
+        max: values.map(() => -Infinity),
+      };
+      this.buckets.push(bucket);
+      if (this.buckets.length > this.retention) {
+        this.buckets.shift();
+      }
+    }
+
+    bucket.count += 1;
+    for (let m = 0; m < values.length; m++) {
+      bucket.sum[m] += values[m];
+      if (values[m] < bucket.min[m]) bucket.min[m] = values[m];
+      if (values[m] > bucket.max[m]) bucket.max[m] = values[m];
+    }
+  }
+
+  getBuckets(): RollupBucket[] {
+    return this.buckets;
+  }
+
+  getRetained(): { from: number; to: number } | null {
+    if (this.buckets.length === 0) return null;
+    return { from: this.buckets[0].start, to: this.buckets[this.buckets.length - 1].start + this.span };
+  }
+
+  load(buckets: RollupBucket[]): void {
+    this.buckets = buckets.slice(-this.retention);
+  }
+}
+
+export class WeatherHistory {
+  private raw: RawPoint[] = [];
+  private hourly = new RollupTier(1, WEATHER_HISTORY_CONFIG.HOURLY_RETENTION);
+  private daily = new RollupTier(TIME_CONFIG.HOURS_PER_DAY, WEATHER_HISTORY_CONFIG.DAILY_RETENTION);
+  private monthly = new RollupTier(HOURS_PER_MONTH, WEATHER_HISTORY_CONFIG.MONTHLY_RETENTION);
+
+  /**
+   * Add a snapshot taken at `gameTime`; snapshots must arrive in game-time order
+   */
+  record(snapshot: WeatherSnapshot, gameTime: GameTime): void {
+    const hour = toGameHour(gameTime);
+    const values = WEATHER_METRIC_NAMES.map((name) => snapshot[name]);
+
+    this.raw.push({ hour, tick: snapshot.tick, values });
+    if (this.raw.length > WEATHER_HISTORY_CONFIG.RAW_RETENTION) {
+      this.raw.shift();
+    }
+
+    this.hourly.add(hour, values);
+    this.daily.add(hour, values);
+    this.monthly.add(hour, values);
+  }
+
+  query({ metric, from, to, resolution, aggregation }: HistoryQuery): HistoryQueryResult {
+    const m = WEATHER_METRIC_NAMES.indexOf(metric);
+    const points: HistoryPoint[] = [];
+    let truncated = false;
+
+    const add = (hour: number, value: number, samples: number): boolean => {
+      if (hour < from || hour >= to) return true;
+      if (points.length >= WEATHER_HISTORY_CONFIG.MAX_QUERY_POINTS) {
+        truncated = true;
+        return false;
+      }
+      points.push({ hour, time: fromGameHour(hour), value, samples });
+      return true;
+    };
+
+    let retained: { from: number; to: number } | null;
+    if (resolution === "raw") {
+      for (const point of this.raw) {
+        if (!add(point.hour, point.values[m], 1)) break;
+      }
+      retained = this.raw.length > 0
+        ? { from: this.raw[0].hour, to: this.raw[this.raw.length - 1].hour + 1 }
+        : null;
+    } else {
+      const tier = this.getTier(resolution);
+      for (const bucket of tier.getBuckets()) {
+        if (!add(bucket.start, aggregate(bucket, m, aggregation), bucket.count)) break;
+      }
+      retained = tier.getRetained();
+    }
+
+    return { metric, resolution, aggregation, points, truncated, retained };
+  }
+
+  getState(): WeatherHistoryState {
+    return {
+      raw: [...this.raw],
+      hourly: [...this.hourly.getBuckets()],
+      daily: [...this.daily.getBuckets()],
+      monthly: [...this.monthly.getBuckets()],
+    };
+  }
+
+  loadState(state: WeatherHistoryState): void {
+    this.raw = state.raw.slice(-WEATHER_HISTORY_CONFIG.RAW_RETENTION);
+    this.hourly.load(state.hourly);
+    this.daily.load(state.daily);
+    this.monthly.load(state.monthly);
+  }
+
+  private getTier(resolution: Exclude<HistoryResolution, "raw">): RollupTier {
+    switch (resolution) {
+      case "hourly":
+        return this.hourly;
+      case "daily":
+        return this.daily;
+      case "monthly":
+        return this.monthly;
+    }
+  }
+}
+
+function aggregate(bucket: RollupBucket, m: number, aggregation: HistoryAggregation): number {
+  switch (aggregation) {
+    case "mean":
+      return bucket.sum[m] / bucket.count;
+    case "min":
+      return bucket.min[m];
+    case "max":
+      return bucket.max[m];
+  }
+}
@@ -1,5 +1,6 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { GridHelper } from "./GridHelper";
+import { SNOW_CONFIG } from "../config";
 
 export interface WeatherSnapshot {
   tick: number;
@@ -13,10 +14,15 @@ export interface WeatherSnapshot {
   avgPrecipitation: number;
   avgGroundWetness: number;
   avgMoisture: number;
+  avgSnowDepth: number;
+  avgWoodyCover: number; // Mean canopy cover over all cells
   // Coverage percentages
   cloudCoverage: number; // % cells with clouds > 0.1
   rainCoverage: number; // % cells with precipitation > 0
   wetGroundCoverage: number; // % cells with ground_wetness > 0.1
+  snowCoverage: number; // % cells with snow_depth > SNOW_COVER_MIN_DEPTH
+  frozenWaterCoverage: number; // % water cells that are frozen
+  woodyCoverage: number; // % cells with trees or shrubs
   // Totals
   totalEvaporation: number; // Estimated from water cells
   totalPrecipitation: number;
@@ -24,6 +30,12 @@ export interface WeatherSnapshot {
   maxWindSpeed: number;
   maxCloudDensity: number;
   maxPrecipitation: number;
+  maxSnowDepth: number;
+}
+
+export interface WeatherMetricsState {
+  tickCounter: number;
+  history: WeatherSnapshot[];
 }
 
 export class WeatherMetrics {
@@ -43,38 +55,52 @@ export class WeatherMetrics {
     let sumPrecip = 0;
     let sumWetness = 0;
     let sumMoisture = 0;
+    let sumSnow = 0;
+    let sumWoodyCover = 0;
     let cloudCells = 0;
     let rainCells = 0;
     let wetCells = 0;
+    let snowCells = 0;
+    let frozenWaterCells = 0;
+    let woodyCells = 0;
     let maxWind = 0;
     let maxCloud = 0;
     let maxPrecip = 0;
+    let maxSnow = 0;
     let waterCells = 0;
 
-    for (let y = 0; y < height; y += 1) {
-      for (let x = 0; x < width; x += 1) {
-        const cell = terrain[y][x];
-
-        sumTemp += cell.temperature ?? 0;
-        sumHumidity += cell.air_humidity ?? 0;
-        sumPressure += cell.atmospheric_pressure ?? 1013;
-        sumWind += cell.wind_speed ?? 0;
-        sumCloud += cell.cloud_density ?? 0;
-        sumPrecip += cell.precipitation_rate ?? 0;
-        sumWetness += cell.ground_wetness ?? 0;
-        sumMoisture += cell.moisture ?? 0;
-
-        if ((cell.cloud_density ?? 0) > 0.1) cloudCells += 1;
-        if ((cell.precipitation_rate ?? 0) > 0) rainCells += 1;
-        if ((cell.ground_wetness ?? 0) > 0.1) wetCells += 1;
-
-        if ((cell.wind_speed ?? 0) > maxWind) maxWind = cell.wind_speed ?? 0;
-        if ((cell.cloud_density ?? 0) > maxCloud) maxCloud = cell.cloud_density ?? 0;
-        if ((cell.precipitation_rate ?? 0) > maxPrecip) maxPrecip = cell.precipitation_rate ?? 0;
-
-        if (cell.type === "river" || cell.type === "spring" || (cell.water_height ?? 0) > 0) {
-          waterCells += 1;
-        }
+    for (let i = 0; i < totalCells; i += 1) {
+      const windSpeed = terrain.wind_speed[i];
+      const cloudDensity = terrain.cloud_density[i];
+      const precipitation = terrain.precipitation_rate[i];
+      const groundWetness = terrain.ground_wetness[i];
+      const snowDepth = terrain.snow_depth[i];
+
+      sumTemp += terrain.temperature[i];
+      sumHumidity += terrain.air_humidity[i];
+      sumPressure += terrain.atmospheric_pressure[i];
+      sumWind += windSpeed;
+      sumCloud += cloudDensity;
+      sumPrecip += precipitation;
+      sumWetness += groundWetness;
+      sumMoisture += terrain.moisture[i];
+      sumSnow += snowDepth;
+      sumWoodyCover += terrain.woody_cover[i];
+
+      if (cloudDensity > 0.1) cloudCells += 1;
+      if (precipitation > 0) rainCells += 1;
+      if (groundWetness > 0.1) wetCells += 1;
+      if (snowDepth > SNOW_CONFIG.SNOW_COVER_MIN_DEPTH) snowCells += 1;
+      if (terrain.woody_cover[i] > 0) woodyCells += 1;
+
+      if (windSpeed > maxWind) maxWind = windSpeed;
+      if (cloudDensity > maxCloud) maxCloud = cloudDensity;
+      if (precipitation > maxPrecip) maxPrecip = precipitation;
+      if (snowDepth > maxSnow) maxSnow = snowDepth;
+
+      if (terrain.isWater(i) || terrain.water_height[i] > 0) {
+        waterCells += 1;
+        if (terrain.frozen[i]) frozenWaterCells += 1;
       }
     }
 
@@ -89,14 +115,20 @@ export class WeatherMetrics {
       avgPrecipitation: sumPrecip / totalCells,
       avgGroundWetness: sumWetness / totalCells,
       avgMoisture: sumMoisture / totalCells,
+      avgSnowDepth: sumSnow / totalCells,
+      avgWoodyCover: sumWoodyCover / totalCells,
       cloudCoverage: (cloudCells / totalCells) * 100,
       rainCoverage: (rainCells / totalCells) * 100,
       wetGroundCoverage: (wetCells / totalCells) * 100,
+      snowCoverage: (snowCells / totalCells) * 100,
+      frozenWaterCoverage: waterCells > 0 ? (frozenWaterCells / waterCells) * 100 : 0,
+      woodyCoverage: (woodyCells / totalCells) * 100,
       totalEvaporation: waterCells * 0.01,
       totalPrecipitation: sumPrecip,
       maxWindSpeed: maxWind,
       maxCloudDensity: maxCloud,
       maxPrecipitation: maxPrecip,
+      maxSnowDepth: maxSnow,
     };
 
     this.tickCounter += 1;
@@ -116,6 +148,20 @@ export class WeatherMetrics {
     return this.history.length > 0 ? this.history[this.history.length - 1] : null;
   }
 
+  getState(): WeatherMetricsState {
+    return {
+      tickCounter: this.tickCounter,
+      history: this.getHistory(),
+    };
+  }
+
+  loadState(state: WeatherMetricsState): void {
+    this.tickCounter = state.tickCounter;
+    this.history = state.history
+      .slice(-this.maxHistorySize)
+      .map((snapshot) => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) }));
+  }
+
   logSummary(snapshot: WeatherSnapshot): void {
     console.log(`
 ╔══════════════════════════════════════════════════════════════╗
@@ -130,6 +176,9 @@ export class WeatherMetrics {
 ║ Rain Cover:   ${snapshot.rainCoverage.toFixed(1)}% of cells (max rate: ${snapshot.maxPrecipitation.toFixed(2)})
 ║ Wet Ground:   ${snapshot.wetGroundCoverage.toFixed(1)}% of cells
 ║ Moisture:     ${(snapshot.avgMoisture * 100).toFixed(1)}% avg
+║ Snow Cover:   ${snapshot.snowCoverage.toFixed(1)}% of cells (max depth: ${snapshot.maxSnowDepth.toFixed(2)}m)
+║ Frozen Water: ${snapshot.frozenWaterCoverage.toFixed(1)}% of water cells
+║ Woodland:     ${snapshot.woodyCoverage.toFixed(1)}% of cells (avg canopy: ${(snapshot.avgWoodyCover * 100).toFixed(1)}%)
 ╚══════════════════════════════════════════════════════════════╝
     `);
   }
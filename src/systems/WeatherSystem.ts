@@ -1,7 +1,8 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
+import { type GridWorkerPool } from "./GridWorkerPool";
 import { WEATHER_CONFIG } from "../config";
 
 const DEGREE_FULL_CIRCLE = 360;
@@ -12,136 +13,83 @@ const MIN_VECTOR_MAGNITUDE = 1e-6;
  * Calculates atmospheric pressure and wind vectors from pressure gradients.
  * Pressure is smoothed over a configurable radius to create realistic
  * large-scale pressure systems rather than noisy per-cell variations.
+ * The blur runs on the worker pool over buffers in shared memory.
  */
 export class WeatherSystem implements ISimulationSystem {
-    private smoothedPressure: number[][] = [];
+    private smoothedPressure: Float64Array = new Float64Array(0);
+    private blurBuffer: Float64Array = new Float64Array(0);
 
-    update(terrain: TerrainGrid, gameTime: GameTime): void {
+    constructor(private workers: GridWorkerPool) {}
+
+    async update(terrain: TerrainGrid, gameTime: GameTime): Promise<void> {
         this.updateRawPressure(terrain);
-        this.smoothPressure(terrain);
+        await this.smoothPressure(terrain);
         this.updateWind(terrain);
     }
 
     private updateRawPressure(terrain: TerrainGrid): void {
         const { width, height } = GridHelper.getDimensions(terrain);
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                const altitude = cell.altitude;
-                const temperature = cell.temperature ?? 0;
-                const humidity = cell.air_humidity ?? 0;
-
-                cell.atmospheric_pressure = WEATHER_CONFIG.BASE_PRESSURE
-                    - (altitude * WEATHER_CONFIG.PRESSURE_LAPSE_RATE)
-                    - (temperature * WEATHER_CONFIG.TEMP_PRESSURE_FACTOR)
-                    - (humidity * WEATHER_CONFIG.HUMIDITY_PRESSURE_FACTOR);
-            }
+        for (let i = 0; i < width * height; i++) {
+            const altitude = terrain.altitude[i];
+            const temperature = terrain.temperature[i];
+            const humidity = terrain.air_humidity[i];
+
+            terrain.atmospheric_pressure[i] = WEATHER_CONFIG.BASE_PRESSURE
+                - (altitude * WEATHER_CONFIG.PRESSURE_LAPSE_RATE)
+                - (temperature * WEATHER_CONFIG.TEMP_PRESSURE_FACTOR)
+                - (humidity * WEATHER_CONFIG.HUMIDITY_PRESSURE_FACTOR);
         }
     }
 
     /**
      * Optimized separable box blur - O(n*radius) instead of O(n*radius²)
-     * Uses horizontal pass then vertical pass for same result as 2D box blur
+     * Uses horizontal pass then vertical pass for same result as 2D box blur.
+     * Each pass is a separate pool run, so the vertical pass of a band only reads
+     * neighbor rows once every band has finished its horizontal pass.
      */
-    private smoothPressure(terrain: TerrainGrid): void {
+    private async smoothPressure(terrain: TerrainGrid): Promise<void> {
         const { width, height } = GridHelper.getDimensions(terrain);
         const radius = WEATHER_CONFIG.PRESSURE_SMOOTHING_RADIUS;
         const passes = WEATHER_CONFIG.PRESSURE_SMOOTHING_PASSES;
-        const kernelSize = radius * 2 + 1;
 
-        // Initialize/reuse smoothed pressure array
-        if (this.smoothedPressure.length !== height) {
-            this.smoothedPressure = Array.from({ length: height }, () =>
-                new Array(width).fill(0)
-            );
+        // Initialize/reuse smoothed pressure and intermediate buffers (shared with the workers)
+        if (this.smoothedPressure.length !== width * height) {
+            this.smoothedPressure = new Float64Array(new SharedArrayBuffer(width * height * Float64Array.BYTES_PER_ELEMENT));
+            this.blurBuffer = new Float64Array(new SharedArrayBuffer(width * height * Float64Array.BYTES_PER_ELEMENT));
         }
+        const smoothed = this.smoothedPressure;
+        const temp = this.blurBuffer;
 
         // Copy current pressure to smoothed array
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                this.smoothedPressure[y][x] = terrain[y][x].atmospheric_pressure ?? WEATHER_CONFIG.BASE_PRESSURE;
-            }
-        }
-
-        // Temp buffer for intermediate results
-        const temp = Array.from({ length: height }, () => new Array(width).fill(0));
+        smoothed.set(terrain.atmospheric_pressure);
 
         // Apply separable box blur passes
         for (let pass = 0; pass < passes; pass++) {
-            // Horizontal pass (blur each row)
-            for (let y = 0; y < height; y++) {
-                // Initialize running sum for first window
-                let sum = 0;
-                for (let dx = -radius; dx <= radius; dx++) {
-                    const nx = ((dx % width) + width) % width;
-                    sum += this.smoothedPressure[y][nx];
-                }
-                temp[y][0] = sum / kernelSize;
-
-                // Slide window across row
-                for (let x = 1; x < width; x++) {
-                    const removeX = ((x - radius - 1) % width + width) % width;
-                    const addX = ((x + radius) % width + width) % width;
-                    sum -= this.smoothedPressure[y][removeX];
-                    sum += this.smoothedPressure[y][addX];
-                    temp[y][x] = sum / kernelSize;
-                }
-            }
-
-            // Vertical pass (blur each column)
-            for (let x = 0; x < width; x++) {
-                // Initialize running sum for first window
-                let sum = 0;
-                for (let dy = -radius; dy <= radius; dy++) {
-                    const ny = ((dy % height) + height) % height;
-                    sum += temp[ny][x];
-                }
-                this.smoothedPressure[0][x] = sum / kernelSize;
-
-                // Slide window down column
-                for (let y = 1; y < height; y++) {
-                    const removeY = ((y - radius - 1) % height + height) % height;
-                    const addY = ((y + radius) % height + height) % height;
-                    sum -= temp[removeY][x];
-                    sum += temp[addY][x];
-                    this.smoothedPressure[y][x] = sum / kernelSize;
-                }
-            }
+            await this.workers.run(terrain, "blurRows", { source: smoothed, target: temp, radius });
+            await this.workers.run(terrain, "blurColumns", { source: temp, target: smoothed, radius });
         }
 
         // Write smoothed pressure back to terrain
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                terrain[y][x].atmospheric_pressure = this.smoothedPressure[y][x];
-            }
-        }
+        terrain.atmospheric_pressure.set(smoothed);
     }
 
     private updateWind(terrain: TerrainGrid): void {
         const { width, height } = GridHelper.getDimensions(terrain);
         const smoothing = WEATHER_CONFIG.WIND_SMOOTHING_FACTOR;
+        const pressure = terrain.atmospheric_pressure;
 
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                const currentPressure = cell.atmospheric_pressure ?? WEATHER_CONFIG.BASE_PRESSURE;
-                const neighbors = GridHelper.getNeighbors(terrain, x, y);
+                const i = y * width + x;
+                const currentPressure = pressure[i];
 
                 let gradientX = 0;
                 let gradientY = 0;
 
-                for (const neighbor of neighbors) {
-                    let dx = neighbor.x - x;
-                    let dy = neighbor.y - y;
-
-                    if (dx > 1) dx -= width;
-                    if (dx < -1) dx += width;
-                    if (dy > 1) dy -= height;
-                    if (dy < -1) dy += height;
-
-                    const neighborPressure = neighbor.atmospheric_pressure ?? currentPressure;
-                    const pressureDiff = currentPressure - neighborPressure;
+                for (const [dx, dy] of GridHelper.NEIGHBOR_OFFSETS) {
+                    const n = ((y + dy + height) % height) * width + (x + dx + width) % width;
+                    const pressureDiff = currentPressure - pressure[n];
 
                     gradientX += dx * pressureDiff;
                     gradientY += dy * pressureDiff;
@@ -160,8 +108,8 @@ export class WeatherSystem implements ISimulationSystem {
                 const windVectorX = gradientVectorX * clampedSpeed;
                 const windVectorY = gradientVectorY * clampedSpeed;
 
-                const previousSpeed = cell.wind_speed ?? 0;
-                const previousDirection = cell.wind_direction ?? 0;
+                const previousSpeed = terrain.wind_speed[i];
+                const previousDirection = terrain.wind_direction[i];
                 const previousRadians = (previousDirection * Math.PI) / 180;
                 const previousVectorX = Math.sin(previousRadians) * previousSpeed;
                 const previousVectorY = -Math.cos(previousRadians) * previousSpeed;
@@ -179,15 +127,15 @@ export class WeatherSystem implements ISimulationSystem {
                 }
 
                 if (blendedSpeed <= MIN_VECTOR_MAGNITUDE) {
-                    cell.wind_speed = 0;
-                    cell.wind_direction = 0;
+                    terrain.wind_speed[i] = 0;
+                    terrain.wind_direction[i] = 0;
                 } else {
                     const directionRadians = Math.atan2(blendedX, -blendedY);
                     const directionDegrees = (directionRadians * RAD_TO_DEG + DEGREE_FULL_CIRCLE)
                         % DEGREE_FULL_CIRCLE;
 
-                    cell.wind_speed = blendedSpeed;
-                    cell.wind_direction = directionDegrees;
+                    terrain.wind_speed[i] = blendedSpeed;
+                    terrain.wind_direction[i] = directionDegrees;
                 }
             }
         }
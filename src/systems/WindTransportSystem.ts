@@ -1,4 +1,4 @@
-import { type TerrainGrid } from "../schema";
+import { type TerrainGrid } from "../terrainGrid";
 import { type GameTime } from "../storage";
 import { type ISimulationSystem } from "./ISimulationSystem";
 import { GridHelper } from "./GridHelper";
@@ -16,23 +16,19 @@ export class WindTransportSystem implements ISimulationSystem {
      */
     update(terrain: TerrainGrid, gameTime: GameTime): void {
         const { width, height } = GridHelper.getDimensions(terrain);
-        const baseHumidity: number[][] = Array.from({ length: height }, (_, y) =>
-            Array.from({ length: width }, (_, x) => terrain[y][x].air_humidity),
-        );
-        const baseTemperature: number[][] = Array.from({ length: height }, (_, y) =>
-            Array.from({ length: width }, (_, x) => terrain[y][x].temperature),
-        );
-        const newHumidity = baseHumidity.map((row) => [...row]);
-        const newTemperature = baseTemperature.map((row) => [...row]);
+        const baseHumidity = new Float64Array(terrain.air_humidity);
+        const baseTemperature = new Float64Array(terrain.temperature);
+        const newHumidity = baseHumidity.slice();
+        const newTemperature = baseTemperature.slice();
 
         let totalHumidityMoved = 0;
         let transports = 0;
 
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
-                const cell = terrain[y][x];
-                const windSpeed = cell.wind_speed ?? 0;
-                const windDirection = cell.wind_direction ?? 0;
+                const i = y * width + x;
+                const windSpeed = terrain.wind_speed[i];
+                const windDirection = terrain.wind_direction[i];
 
                 if (windSpeed < WIND_TRANSPORT_CONFIG.MIN_WIND_FOR_TRANSPORT) {
                     continue;
@@ -51,36 +47,35 @@ export class WindTransportSystem implements ISimulationSystem {
 
                 const sourceX = (x + sourceOffsetX + width) % width;
                 const sourceY = (y + sourceOffsetY + height) % height;
+                const source = sourceY * width + sourceX;
 
                 const speedFactor = Math.min(1, windSpeed / WEATHER_CONFIG.MAX_WIND_SPEED);
                 const humidityTransfer = WIND_TRANSPORT_CONFIG.HUMIDITY_TRANSPORT_RATE * speedFactor;
                 const heatTransfer = WIND_TRANSPORT_CONFIG.HEAT_TRANSPORT_RATE * speedFactor;
 
-                const sourceHumidity = baseHumidity[sourceY][sourceX];
+                const sourceHumidity = baseHumidity[source];
                 const humidityDelta = sourceHumidity * humidityTransfer;
 
                 if (humidityDelta > 0) {
-                    newHumidity[sourceY][sourceX] = Math.max(0, newHumidity[sourceY][sourceX] - humidityDelta);
-                    newHumidity[y][x] += humidityDelta;
+                    newHumidity[source] = Math.max(0, newHumidity[source] - humidityDelta);
+                    newHumidity[i] += humidityDelta;
                     totalHumidityMoved += humidityDelta;
                     transports++;
                 }
 
-                const sourceTemperature = baseTemperature[sourceY][sourceX];
-                const temperatureDelta = (sourceTemperature - baseTemperature[y][x]) * heatTransfer;
+                const sourceTemperature = baseTemperature[source];
+                const temperatureDelta = (sourceTemperature - baseTemperature[i]) * heatTransfer;
 
                 if (temperatureDelta !== 0) {
-                    newTemperature[sourceY][sourceX] -= temperatureDelta;
-                    newTemperature[y][x] += temperatureDelta;
+                    newTemperature[source] -= temperatureDelta;
+                    newTemperature[i] += temperatureDelta;
                 }
             }
         }
 
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                terrain[y][x].air_humidity = Math.max(0, newHumidity[y][x]);
-                terrain[y][x].temperature = newTemperature[y][x];
-            }
+        for (let i = 0; i < width * height; i++) {
+            terrain.air_humidity[i] = Math.max(0, newHumidity[i]);
+            terrain.temperature[i] = newTemperature[i];
         }
 
         if (transports > 0 && gameTime.hour % 6 === 0) {
@@ -0,0 +1,92 @@
+import { type TerrainGrid, CellType } from "../terrainGrid";
+import { GridHelper } from "./GridHelper";
+
+/**
+ * D8 drainage over the water-surface altitude: every cell drains to the
+ * neighbor (of 8, wrapping around the world edges) with the steepest descent,
+ * and flow accumulates from each cell into its receiver. Lakes and the ocean
+ * absorb everything that reaches them, and pits (no lower neighbor) drain nowhere.
+ */
+
+export const NO_RECEIVER = -1;
+
+const DIAGONAL_DISTANCE = Math.SQRT2;
+
+/**
+ * Length of the step between two neighboring cells (1 or √2)
+ */
+export function getStepLength(terrain: TerrainGrid, from: number, to: number): number {
+    return terrain.xOf(from) !== terrain.xOf(to) && terrain.yOf(from) !== terrain.yOf(to) ? DIAGONAL_DISTANCE : 1;
+}
+
+/**
+ * Steepest-descent receiver of every cell (NO_RECEIVER for pits and standing water)
+ */
+export function computeReceivers(terrain: TerrainGrid): Int32Array {
+    const { width, height } = GridHelper.getDimensions(terrain);
+    const receivers = new Int32Array(width * height).fill(NO_RECEIVER);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const type = terrain.type[i];
+            if (type === CellType.LAKE || type === CellType.OCEAN) continue;
+
+            let steepest = 0;
+            for (const [dx, dy] of GridHelper.NEIGHBOR_OFFSETS) {
+                const n = ((y + dy + height) % height) * width + ((x + dx + width) % width);
+                const slope = (terrain.altitude[i] - terrain.altitude[n]) / (dx !== 0 && dy !== 0 ? DIAGONAL_DISTANCE : 1);
+                if (slope > steepest) {
+                    steepest = slope;
+                    receivers[i] = n;
+                }
+            }
+        }
+    }
+
+    return receivers;
+}
+
+/**
+ * Every cell ordered after all the cells that drain into it (headwaters first).
+ * Receivers must not form cycles (steepest descent never does).
+ */
+export function getDrainageOrder(receivers: Int32Array): Int32Array {
+    const size = receivers.length;
+    const donors = new Int32Array(size);
+
+    for (let i = 0; i < size; i++) {
+        if (receivers[i] !== NO_RECEIVER) donors[receivers[i]]++;
+    }
+
+    const order = new Int32Array(size);
+    let head = 0;
+    let tail = 0;
+    for (let i = 0; i < size; i++) {
+        if (donors[i] === 0) order[tail++] = i;
+    }
+
+    while (head < tail) {
+        const receiver = receivers[order[head++]];
+        if (receiver !== NO_RECEIVER && --donors[receiver] === 0) order[tail++] = receiver;
+    }
+
+    return order;
+}
+
+/**
+ * Accumulate a per-cell contribution downstream: each cell ends up with its own
+ * contribution plus everything draining through it
+ */
+export function accumulateFlow(receivers: Int32Array, contribution: (index: number) => number): Float64Array {
+    const accumulated = new Float64Array(receivers.length);
+    const order = getDrainageOrder(receivers);
+
+    for (let k = 0; k < order.length; k++) {
+        const i = order[k];
+        accumulated[i] += contribution(i);
+        if (receivers[i] !== NO_RECEIVER) accumulated[receivers[i]] += accumulated[i];
+    }
+
+    return accumulated;
+}
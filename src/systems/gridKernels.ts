@@ -0,0 +1,355 @@
+import { type TerrainGrid, CellType } from "../terrainGrid";
+import { getTemperature } from "../temperature";
+import {
+    CONDENSATION_CONFIG,
+    EVAPORATION_CONFIG,
+    MOISTURE_CONFIG,
+    PARALLEL_CONFIG,
+    PRECIPITATION_CONFIG,
+    SNOW_CONFIG,
+} from "../config";
+
+/**
+ * Per-cell loops of the embarrassingly parallel systems, split out so they can
+ * run over a band of rows [rowStart, rowEnd) either on the main thread or in a
+ * worker (see GridWorkerPool). A kernel only writes cells inside its band, so
+ * bands can run concurrently on the shared grid; results that need reducing
+ * across bands are returned and merged by the calling system in band order.
+ */
+
+export interface TemperatureParams {
+    monthTempDay: number;
+    monthTempNight: number;
+    hour: number;
+}
+
+/**
+ * Water lost by lake cells, in cell order (the LakeManager pools it per lake)
+ */
+export interface LakeEvaporation {
+    cells: number[];
+    losses: number[];
+}
+
+export interface TranspirationParams {
+    transpiration: number[];  // Species transpiration by woody_type code (0 = none)
+}
+
+export interface PrecipitationStats {
+    maxRain: number;
+    maxRainCell: number;  // -1 if no cell precipitated
+    totalRain: number;
+    rainingCells: number;
+    snowingCells: number;
+}
+
+export interface BlurParams {
+    source: Float32Array | Float64Array;
+    target: Float32Array | Float64Array;
+    radius: number;
+}
+
+function updateTemperature(terrain: TerrainGrid, rowStart: number, rowEnd: number, params: TemperatureParams): null {
+    const { width, height } = terrain;
+
+    for (let y = rowStart; y < rowEnd; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const altitudeMeters = terrain.terrain_height[i];
+            const humidity = terrain.air_humidity[i];  // Air humidity (0-1)
+            terrain.temperature[i] = getTemperature(
+                x,
+                y,
+                altitudeMeters,
+                width,
+                height,
+                params.monthTempDay,
+                params.monthTempNight,
+                params.hour,
+                humidity
+            );
+        }
+    }
+    return null;
+}
+
+/**
+ * Evaporation from water bodies into air; the ocean is an unlimited reservoir
+ */
+function evaporateWater(terrain: TerrainGrid, rowStart: number, rowEnd: number): LakeEvaporation {
+    const config = EVAPORATION_CONFIG;
+    const lakeEvaporation: LakeEvaporation = { cells: [], losses: [] };
+
+    for (let i = rowStart * terrain.width; i < rowEnd * terrain.width; i++) {
+        if (!terrain.isWater(i)) continue;
+        if (terrain.water_height[i] <= 0) continue;
+        if (terrain.frozen[i]) continue;
+
+        const temperature = terrain.temperature[i];
+        if (temperature < 0) continue;
+        const temperatureFactor = Math.max(0, 1 + config.EVAP_TEMP_COEFF * temperature);
+
+        const surfaceAreaFactor = Math.min(1.0, terrain.water_height[i] / config.MAX_EVAP_DEPTH);
+
+        const saturationDeficit = Math.max(0, 1 - terrain.air_humidity[i]);
+
+        const evaporationRate = config.BASE_EVAP_RATE
+            * temperatureFactor
+            * surfaceAreaFactor
+            * saturationDeficit;
+
+        const waterLost = Math.min(evaporationRate, terrain.water_height[i]);
+        const type = terrain.type[i];
+        if (type === CellType.LAKE) {
+            lakeEvaporation.cells.push(i);
+            lakeEvaporation.losses.push(waterLost);
+        } else if (type !== CellType.OCEAN) {
+            terrain.water_height[i] -= waterLost;
+            terrain.altitude[i] = terrain.terrain_height[i] + terrain.water_height[i];
+        }
+
+        const humidityGain = waterLost * config.WATER_TO_HUMIDITY_FACTOR;
+        terrain.air_humidity[i] = Math.min(1.5, terrain.air_humidity[i] + humidityGain);
+    }
+    return lakeEvaporation;
+}
+
+/**
+ * Evapotranspiration from ground moisture into air, boosted by tree and shrub canopy
+ */
+function evapotranspire(terrain: TerrainGrid, rowStart: number, rowEnd: number, params: TranspirationParams): null {
+    const config = EVAPORATION_CONFIG;
+
+    for (let i = rowStart * terrain.width; i < rowEnd * terrain.width; i++) {
+        if (terrain.isWater(i)) continue;
+        // Snowpack seals the ground
+        if (terrain.snow_depth[i] > 0) continue;
+
+        const baseMoisture = terrain.base_moisture[i];
+        if (baseMoisture < config.MIN_GROUND_MOISTURE) continue;
+
+        const temperature = terrain.temperature[i];
+        if (temperature < 0) continue;
+        const temperatureFactor = Math.max(0, 1 + config.EVAP_TEMP_COEFF * temperature);
+
+        const saturationDeficit = Math.max(0, 1 - terrain.air_humidity[i]);
+
+        const cover = terrain.woody_cover[i];
+        const transpirationFactor = cover > 0 ? 1 + cover * (params.transpiration[terrain.woody_type[i]] ?? 0) : 1;
+
+        const evapotranspirationRate = config.BASE_EVAPOTRANSPIRATION
+            * baseMoisture
+            * temperatureFactor
+            * saturationDeficit
+            * transpirationFactor;
+
+        const moistureLost = Math.min(evapotranspirationRate, baseMoisture);
+        terrain.base_moisture[i] -= moistureLost;
+        terrain.moisture[i] = terrain.base_moisture[i];
+
+        const humidityGain = moistureLost * config.WATER_TO_HUMIDITY_FACTOR;
+        terrain.air_humidity[i] = Math.min(1.5, terrain.air_humidity[i] + humidityGain);
+    }
+    return null;
+}
+
+function condense(terrain: TerrainGrid, rowStart: number, rowEnd: number): null {
+    const config = CONDENSATION_CONFIG;
+    const airHumidity = terrain.air_humidity;
+    const baseMoisture = terrain.base_moisture;
+
+    for (let i = rowStart * terrain.width; i < rowEnd * terrain.width; i++) {
+        const isWater = terrain.isWater(i);
+
+        // Oversaturation condensation
+        if (airHumidity[i] > 1.0) {
+            const excess = airHumidity[i] - 1.0;
+            const condensationAmount = excess * config.CONDENSATION_RATE;
+
+            airHumidity[i] -= condensationAmount;
+
+            if (!isWater) {
+                baseMoisture[i] = Math.min(
+                    MOISTURE_CONFIG.maxLandMoisture,
+                    baseMoisture[i] + condensationAmount * config.AIR_TO_GROUND_FACTOR
+                );
+                terrain.moisture[i] = baseMoisture[i];
+            }
+        }
+
+        // Dew formation
+        if (airHumidity[i] > config.DEW_THRESHOLD && terrain.temperature[i] < 15) {
+            const dewAmount = (airHumidity[i] - config.DEW_THRESHOLD) * config.DEW_CONDENSATION_RATE;
+
+            airHumidity[i] -= dewAmount;
+
+            if (!isWater) {
+                baseMoisture[i] = Math.min(
+                    MOISTURE_CONFIG.maxLandMoisture,
+                    baseMoisture[i] + dewAmount * config.AIR_TO_GROUND_FACTOR
+                );
+                terrain.moisture[i] = baseMoisture[i];
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Rain and snow from clouds; below SNOW_TEMPERATURE precipitation builds up snow_depth
+ */
+function precipitate(terrain: TerrainGrid, rowStart: number, rowEnd: number): PrecipitationStats {
+    const stats: PrecipitationStats = { maxRain: 0, maxRainCell: -1, totalRain: 0, rainingCells: 0, snowingCells: 0 };
+
+    for (let i = rowStart * terrain.width; i < rowEnd * terrain.width; i++) {
+        terrain.precipitation_rate[i] = 0;
+
+        const cloudDensity = terrain.cloud_density[i];
+        if (cloudDensity > PRECIPITATION_CONFIG.PRECIP_THRESHOLD) {
+            const intensity = (cloudDensity - PRECIPITATION_CONFIG.PRECIP_THRESHOLD)
+                * PRECIPITATION_CONFIG.PRECIP_RATE;
+
+            terrain.precipitation_rate[i] = intensity;
+            stats.totalRain += intensity;
+            stats.rainingCells += 1;
+            terrain.cloud_density[i] = Math.max(0, cloudDensity - intensity);
+            terrain.air_humidity[i] = Math.max(0, terrain.air_humidity[i] - intensity * PRECIPITATION_CONFIG.HUMIDITY_REDUCTION);
+
+            if (terrain.temperature[i] < SNOW_CONFIG.SNOW_TEMPERATURE) {
+                // Snow settles on land and ice; snow falling into open water just melts
+                if (!terrain.isWater(i) || terrain.frozen[i]) {
+                    terrain.snow_depth[i] += intensity * SNOW_CONFIG.SNOW_PER_PRECIP;
+                }
+                stats.snowingCells += 1;
+            } else {
+                const wetnessGain = intensity * PRECIPITATION_CONFIG.WETNESS_FROM_RAIN;
+                terrain.ground_wetness[i] = Math.min(1, terrain.ground_wetness[i] + wetnessGain);
+
+                const absorbed = intensity * PRECIPITATION_CONFIG.GROUND_ABSORPTION_RATE;
+                const newMoisture = Math.min(
+                    MOISTURE_CONFIG.maxLandMoisture,
+                    terrain.moisture[i] + absorbed,
+                );
+                terrain.moisture[i] = newMoisture;
+                terrain.base_moisture[i] = newMoisture;
+            }
+
+            terrain.temperature[i] -= intensity * PRECIPITATION_CONFIG.COOLING_FACTOR;
+
+            if (intensity > stats.maxRain) {
+                stats.maxRain = intensity;
+                stats.maxRainCell = i;
+            }
+        }
+
+        terrain.ground_wetness[i] = Math.max(
+            0,
+            terrain.ground_wetness[i] - PRECIPITATION_CONFIG.WETNESS_DRY_RATE,
+        );
+    }
+    return stats;
+}
+
+/**
+ * Horizontal box blur pass: each row is blurred on its own with a sliding window
+ */
+function blurRows(terrain: TerrainGrid, rowStart: number, rowEnd: number, params: BlurParams): null {
+    const { width } = terrain;
+    const { source, target, radius } = params;
+    const kernelSize = radius * 2 + 1;
+
+    for (let y = rowStart; y < rowEnd; y++) {
+        const row = y * width;
+        // Initialize running sum for first window
+        let sum = 0;
+        for (let dx = -radius; dx <= radius; dx++) {
+            const nx = ((dx % width) + width) % width;
+            sum += source[row + nx];
+        }
+        target[row] = sum / kernelSize;
+
+        // Slide window across row
+        for (let x = 1; x < width; x++) {
+            const removeX = ((x - radius - 1) % width + width) % width;
+            const addX = ((x + radius) % width + width) % width;
+            sum -= source[row + removeX];
+            sum += source[row + addX];
+            target[row + x] = sum / kernelSize;
+        }
+    }
+    return null;
+}
+
+/**
+ * Vertical box blur pass. The window reaches `radius` rows into the neighboring
+ * bands (wrapping at the world edges), which the caller must have finished
+ * writing. Running sums restart every BAND_ROWS rows, so the result does not
+ * depend on how many bands the rows are split into.
+ */
+function blurColumns(terrain: TerrainGrid, rowStart: number, rowEnd: number, params: BlurParams): null {
+    const { width, height } = terrain;
+    const { source, target, radius } = params;
+    const kernelSize = radius * 2 + 1;
+    const blockRows = PARALLEL_CONFIG.BAND_ROWS;
+
+    for (let blockStart = rowStart; blockStart < rowEnd;) {
+        const blockEnd = Math.min(rowEnd, (Math.floor(blockStart / blockRows) + 1) * blockRows);
+
+        for (let x = 0; x < width; x++) {
+            // Initialize running sum for first window (halo rows above the block)
+            let sum = 0;
+            for (let dy = -radius; dy <= radius; dy++) {
+                const ny = ((blockStart + dy) % height + height) % height;
+                sum += source[ny * width + x];
+            }
+            target[blockStart * width + x] = sum / kernelSize;
+
+            // Slide window down the block
+            for (let y = blockStart + 1; y < blockEnd; y++) {
+                const removeY = ((y - radius - 1) % height + height) % height;
+                const addY = ((y + radius) % height + height) % height;
+                sum -= source[removeY * width + x];
+                sum += source[addY * width + x];
+                target[y * width + x] = sum / kernelSize;
+            }
+        }
+
+        blockStart = blockEnd;
+    }
+    return null;
+}
+
+export const GRID_KERNELS = {
+    temperature: updateTemperature,
+    waterEvaporation: evaporateWater,
+    evapotranspiration: evapotranspire,
+    condensation: condense,
+    precipitation: precipitate,
+    blurRows,
+    blurColumns,
+};
+
+export type KernelName = keyof typeof GRID_KERNELS;
+
+/**
+ * Arguments a kernel takes after the band (empty for kernels without parameters)
+ */
+export type KernelArgs<K extends KernelName> =
+    Parameters<typeof GRID_KERNELS[K]> extends [TerrainGrid, number, number, ...infer Rest] ? Rest : never;
+export type KernelResult<K extends KernelName> = ReturnType<typeof GRID_KERNELS[K]>;
+
+/**
+ * Run a kernel over a band of rows
+ */
+export function runKernel<K extends KernelName>(
+    terrain: TerrainGrid,
+    kernel: K,
+    rowStart: number,
+    rowEnd: number,
+    args: KernelArgs<K>
+): KernelResult<K> {
+    const run = GRID_KERNELS[kernel] as unknown as (
+        terrain: TerrainGrid, rowStart: number, rowEnd: number, ...args: KernelArgs<K>
+    ) => KernelResult<K>;
+    return run(terrain, rowStart, rowEnd, ...args);
+}
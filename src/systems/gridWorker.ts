@@ -0,0 +1,29 @@
+/**
+ * Worker thread entry point for GridWorkerPool
+ *
+ * Wraps the shared planes posted by the main thread in a TerrainGrid and runs
+ * grid kernels over the row bands it is sent.
+ */
+import { parentPort } from "node:worker_threads";
+import { TerrainGrid } from "../terrainGrid";
+import { runKernel, type KernelArgs, type KernelName } from "./gridKernels";
+import type { GridWorkerRequest, GridWorkerResponse } from "./GridWorkerPool";
+
+let terrain: TerrainGrid | null = null;
+
+parentPort!.on("message", (request: GridWorkerRequest) => {
+    if (request.type === "attach") {
+        terrain = new TerrainGrid(request.width, request.height, undefined, request.planes);
+        return;
+    }
+
+    let response: GridWorkerResponse;
+    try {
+        if (!terrain) throw new Error("No grid attached");
+        const result = runKernel(terrain, request.kernel, request.rowStart, request.rowEnd, request.args as KernelArgs<KernelName>);
+        response = { id: request.id, result };
+    } catch (error) {
+        response = { id: request.id, error: error instanceof Error ? error.stack ?? error.message : String(error) };
+    }
+    parentPort!.postMessage(response);
+});
@@ -0,0 +1,638 @@
+/**
+ * Structure-of-arrays terrain storage
+ *
+ * Every cell property lives in its own typed-array "plane" indexed by
+ * `y * width + x`, instead of one object per cell. Systems read and write the
+ * planes directly; `getCell()` assembles a TerrainCell object for API responses.
+ *
+ * String properties (`type`, `grass_type`, `woody_type`, `river_name`, `biome`) are stored as small
+ * integer codes into a StringTable, where code 0 means "unset".
+ *
+ * Planes are backed by SharedArrayBuffers so worker threads can process row
+ * bands of the same grid in place (see GridWorkerPool).
+ */
+import { type TerrainCell } from "./schema";
+import { GRASS_SPECIES, WOODY_SPECIES } from "./config";
+
+/**
+ * Interns strings to compact integer codes (0 is reserved for "unset")
+ */
+export class StringTable {
+  private values: string[] = [""];
+  private lookup = new Map<string, number>();
+
+  constructor(initial: readonly string[] = []) {
+    for (const value of initial) {
+      this.intern(value);
+    }
+  }
+
+  /**
+   * Get the code for a string, adding it to the table if needed
+   */
+  intern(value: string | undefined): number {
+    if (value === undefined) return 0;
+
+    let code = this.lookup.get(value);
+    if (code === undefined) {
+      code = this.values.length;
+      this.values.push(value);
+      this.lookup.set(value, code);
+    }
+    return code;
+  }
+
+  get(code: number): string | undefined {
+    return code > 0 ? this.values[code] : undefined;
+  }
+
+  /**
+   * Get the code for a string without adding it (0 if unknown)
+   */
+  find(value: string): number {
+    return this.lookup.get(value) ?? 0;
+  }
+
+  /**
+   * All interned strings in code order (excluding the "unset" slot)
+   */
+  toArray(): string[] {
+    return this.values.slice(1);
+  }
+
+  static fromArray(values: readonly string[]): StringTable {
+    return new StringTable(values);
+  }
+}
+
+// Cell types are pre-interned so systems can compare against fixed codes
+export const CELL_TYPES = ["rock", "spring", "river", "earth", "mud", "ocean", "lake"] as const;
+
+export const CellType = {
+  ROCK: 1,
+  SPRING: 2,
+  RIVER: 3,
+  EARTH: 4,
+  MUD: 5,
+  OCEAN: 6,
+  LAKE: 7,
+} as const;
+
+// Whittaker-style biomes (plus water bodies), pre-interned like cell types
+export const BIOMES = [
+  "ocean",
+  "lake",
+  "river",
+  "ice",
+  "tundra",
+  "taiga",
+  "cold_desert",
+  "temperate_grassland",
+  "temperate_forest",
+  "temperate_rainforest",
+  "desert",
+  "savanna",
+  "tropical_seasonal_forest",
+  "tropical_rainforest",
+  "wetland",
+] as const;
+
+export type BiomeName = typeof BIOMES[number];
+
+export const FLOAT_PLANES = [
+  "altitude",
+  "terrain_height",
+  "water_height",
+  "surface_flow",
+  "distance_from_water",
+  "base_moisture",
+  "added_moisture",
+  "moisture",
+  "temperature",
+  "air_humidity",
+  "cloud_density",
+  "precipitation_rate",
+  "ground_wetness",
+  "snow_depth",
+  "grass_density",
+  "grass_health",
+  "woody_cover",
+  "woody_age",
+  "prey_density",
+  "predator_density",
+  "atmospheric_pressure",
+  "wind_speed",
+  "wind_direction",
+  "climate_temperature",
+  "climate_precipitation",
+  "climate_moisture",
+  // Climate statistics of the last completed month and year
+  "climate_month_rainfall",
+  "climate_month_temp_min",
+  "climate_month_temp_max",
+  "climate_month_temp_mean",
+  "climate_year_rainfall",
+  "climate_year_temp_min",
+  "climate_year_temp_max",
+  "climate_year_temp_mean",
+  // The same for the month and year in progress, updated as each day ends
+  "climate_current_month_rainfall",
+  "climate_current_month_temp_min",
+  "climate_current_month_temp_max",
+  "climate_current_month_temp_mean",
+  "climate_current_year_rainfall",
+  "climate_current_year_temp_min",
+  "climate_current_year_temp_max",
+  "climate_current_year_temp_mean",
+] as const;
+
+export const UINT8_PLANES = ["type", "grass_type", "grass_dormant", "woody_type", "frozen", "biome"] as const;
+
+export const UINT16_PLANES = [
+  "river_name",
+  // Day counts of the last completed month and year
+  "climate_month_frost_days",
+  "climate_month_dry_spell",
+  "climate_year_frost_days",
+  "climate_year_dry_spell",
+  // Day counts of the month and year in progress
+  "climate_current_month_frost_days",
+  "climate_current_month_dry_spell",
+  "climate_current_year_frost_days",
+  "climate_current_year_dry_spell",
+] as const;
+
+export type FloatPlane = typeof FLOAT_PLANES[number];
+export type Uint8Plane = typeof UINT8_PLANES[number];
+export type Uint16Plane = typeof UINT16_PLANES[number];
+export type PlaneName = FloatPlane | Uint8Plane | Uint16Plane;
+
+// Running climate accumulators for the current day, month and year. They are
+// not cell fields: only ClimateStatsSystem and saves see them.
+export const ACCUMULATOR_FLOAT_PLANES = [
+  "acc_day_rainfall",
+  "acc_month_rainfall",
+  "acc_month_temp_min",
+  "acc_month_temp_max",
+  "acc_month_temp_sum",
+  "acc_year_rainfall",
+  "acc_year_temp_min",
+  "acc_year_temp_max",
+  "acc_year_temp_sum",
+] as const;
+
+export const ACCUMULATOR_UINT8_PLANES = ["frost_today"] as const;
+
+export const ACCUMULATOR_UINT16_PLANES = [
+  "acc_month_frost_days",
+  "acc_month_dry_spell",
+  "acc_year_frost_days",
+  "acc_year_dry_spell",
+  "dry_run_days",
+] as const;
+
+export type AccumulatorPlane =
+  | typeof ACCUMULATOR_FLOAT_PLANES[number]
+  | typeof ACCUMULATOR_UINT8_PLANES[number]
+  | typeof ACCUMULATOR_UINT16_PLANES[number];
+
+export const ACCUMULATOR_PLANES: readonly AccumulatorPlane[] = [
+  ...ACCUMULATOR_FLOAT_PLANES,
+  ...ACCUMULATOR_UINT8_PLANES,
+  ...ACCUMULATOR_UINT16_PLANES,
+];
+
+export type AccumulatorPlanes = Record<typeof ACCUMULATOR_FLOAT_PLANES[number], Float32Array> &
+  Record<typeof ACCUMULATOR_UINT8_PLANES[number], Uint8Array> &
+  Record<typeof ACCUMULATOR_UINT16_PLANES[number], Uint16Array>;
+
+/**
+ * Every cell plane of a grid, keyed by name (shared with worker threads)
+ */
+export type GridPlanes = Record<PlaneName, Float32Array | Uint8Array | Uint16Array>;
+
+/**
+ * Cell properties that can be read per cell (everything except coordinates)
+ */
+export type CellField = Exclude<keyof TerrainCell, "x" | "y">;
+
+export const CELL_FIELDS: readonly CellField[] = [...FLOAT_PLANES, ...UINT8_PLANES, ...UINT16_PLANES];
+
+export const STRING_TABLES = ["type", "grass_type", "woody_type", "river_name", "biome"] as const;
+
+export type StringTableName = typeof STRING_TABLES[number];
+
+/**
+ * Categorical fields hold table codes rather than measurements
+ */
+export const CATEGORICAL_FIELDS: ReadonlySet<string> = new Set<CellField>(STRING_TABLES);
+
+export class TerrainGrid {
+  readonly width: number;
+  readonly height: number;
+  readonly size: number;
+
+  // Float planes
+  readonly altitude: Float32Array;
+  readonly terrain_height: Float32Array;
+  readonly water_height: Float32Array;
+  readonly surface_flow: Float32Array;
+  readonly distance_from_water: Float32Array;
+  readonly base_moisture: Float32Array;
+  readonly added_moisture: Float32Array;
+  readonly moisture: Float32Array;
+  readonly temperature: Float32Array;
+  readonly air_humidity: Float32Array;
+  readonly cloud_density: Float32Array;
+  readonly precipitation_rate: Float32Array;
+  readonly ground_wetness: Float32Array;
+  readonly snow_depth: Float32Array;
+  readonly grass_density: Float32Array;
+  readonly grass_health: Float32Array;
+  readonly woody_cover: Float32Array;
+  readonly woody_age: Float32Array;
+  readonly prey_density: Float32Array;
+  readonly predator_density: Float32Array;
+  readonly atmospheric_pressure: Float32Array;
+  readonly wind_speed: Float32Array;
+  readonly wind_direction: Float32Array;
+  readonly climate_temperature: Float32Array;
+  readonly climate_precipitation: Float32Array;
+  readonly climate_moisture: Float32Array;
+  readonly climate_month_rainfall: Float32Array;
+  readonly climate_month_temp_min: Float32Array;
+  readonly climate_month_temp_max: Float32Array;
+  readonly climate_month_temp_mean: Float32Array;
+  readonly climate_year_rainfall: Float32Array;
+  readonly climate_year_temp_min: Float32Array;
+  readonly climate_year_temp_max: Float32Array;
+  readonly climate_year_temp_mean: Float32Array;
+  readonly climate_current_month_rainfall: Float32Array;
+  readonly climate_current_month_temp_min: Float32Array;
+  readonly climate_current_month_temp_max: Float32Array;
+  readonly climate_current_month_temp_mean: Float32Array;
+  readonly climate_current_year_rainfall: Float32Array;
+  readonly climate_current_year_temp_min: Float32Array;
+  readonly climate_current_year_temp_max: Float32Array;
+  readonly climate_current_year_temp_mean: Float32Array;
+
+  // Byte planes (codes into the string tables, or flags)
+  readonly type: Uint8Array;
+  readonly grass_type: Uint8Array;
+  readonly grass_dormant: Uint8Array;
+  readonly woody_type: Uint8Array;
+  readonly frozen: Uint8Array;
+  readonly biome: Uint8Array;
+
+  // Word planes (river name codes, day counts)
+  readonly river_name: Uint16Array;
+  readonly climate_month_frost_days: Uint16Array;
+  readonly climate_month_dry_spell: Uint16Array;
+  readonly climate_year_frost_days: Uint16Array;
+  readonly climate_year_dry_spell: Uint16Array;
+  readonly climate_current_month_frost_days: Uint16Array;
+  readonly climate_current_month_dry_spell: Uint16Array;
+  readonly climate_current_year_frost_days: Uint16Array;
+  readonly climate_current_year_dry_spell: Uint16Array;
+
+  readonly tables: Record<StringTableName, StringTable>;
+
+  private accumulators: AccumulatorPlanes | null = null;
+
+  /**
+   * @param planes - Existing shared planes to wrap instead of allocating new ones (worker threads)
+   */
+  constructor(
+    width: number,
+    height: number,
+    tables?: Partial<Record<StringTableName, StringTable>>,
+    planes?: GridPlanes,
+  ) {
+    this.width = width;
+    this.height = height;
+    this.size = width * height;
+
+    const float = (name: FloatPlane, initial = 0): Float32Array =>
+      (planes?.[name] as Float32Array | undefined) ?? sharedPlane(Float32Array, this.size, initial);
+    const byte = (name: Uint8Plane, initial = 0): Uint8Array =>
+      (planes?.[name] as Uint8Array | undefined) ?? sharedPlane(Uint8Array, this.size, initial);
+    const word = (name: Uint16Plane, initial = 0): Uint16Array =>
+      (planes?.[name] as Uint16Array | undefined) ?? sharedPlane(Uint16Array, this.size, initial);
+
+    this.altitude = float("altitude");
+    this.terrain_height = float("terrain_height");
+    this.water_height = float("water_height");
+    this.surface_flow = float("surface_flow");
+    this.distance_from_water = float("distance_from_water", Infinity);
+    this.base_moisture = float("base_moisture");
+    this.added_moisture = float("added_moisture");
+    this.moisture = float("moisture");
+    this.temperature = float("temperature");
+    this.air_humidity = float("air_humidity");
+    this.cloud_density = float("cloud_density");
+    this.precipitation_rate = float("precipitation_rate");
+    this.ground_wetness = float("ground_wetness");
+    this.snow_depth = float("snow_depth");
+    this.grass_density = float("grass_density");
+    this.grass_health = float("grass_health");
+    this.woody_cover = float("woody_cover");
+    this.woody_age = float("woody_age");
+    this.prey_density = float("prey_density");
+    this.predator_density = float("predator_density");
+    this.atmospheric_pressure = float("atmospheric_pressure");
+    this.wind_speed = float("wind_speed");
+    this.wind_direction = float("wind_direction");
+    this.climate_temperature = float("climate_temperature");
+    this.climate_precipitation = float("climate_precipitation");
+    this.climate_moisture = float("climate_moisture");
+    this.climate_month_rainfall = float("climate_month_rainfall");
+    this.climate_month_temp_min = float("climate_month_temp_min");
+    this.climate_month_temp_max = float("climate_month_temp_max");
+    this.climate_month_temp_mean = float("climate_month_temp_mean");
+    this.climate_year_rainfall = float("climate_year_rainfall");
+    this.climate_year_temp_min = float("climate_year_temp_min");
+    this.climate_year_temp_max = float("climate_year_temp_max");
+    this.climate_year_temp_mean = float("climate_year_temp_mean");
+    this.climate_current_month_rainfall = float("climate_current_month_rainfall");
+    this.climate_current_month_temp_min = float("climate_current_month_temp_min");
+    this.climate_current_month_temp_max = float("climate_current_month_temp_max");
+    this.climate_current_month_temp_mean = float("climate_current_month_temp_mean");
+    this.climate_current_year_rainfall = float("climate_current_year_rainfall");
+    this.climate_current_year_temp_min = float("climate_current_year_temp_min");
+    this.climate_current_year_temp_max = float("climate_current_year_temp_max");
+    this.climate_current_year_temp_mean = float("climate_current_year_temp_mean");
+
+    this.type = byte("type", CellType.ROCK);
+    this.grass_type = byte("grass_type");
+    this.grass_dormant = byte("grass_dormant");
+    this.woody_type = byte("woody_type");
+    this.frozen = byte("frozen");
+    this.biome = byte("biome");
+    this.river_name = word("river_name");
+    this.climate_month_frost_days = word("climate_month_frost_days");
+    this.climate_month_dry_spell = word("climate_month_dry_spell");
+    this.climate_year_frost_days = word("climate_year_frost_days");
+    this.climate_year_dry_spell = word("climate_year_dry_spell");
+    this.climate_current_month_frost_days = word("climate_current_month_frost_days");
+    this.climate_current_month_dry_spell = word("climate_current_month_dry_spell");
+    this.climate_current_year_frost_days = word("climate_current_year_frost_days");
+    this.climate_current_year_dry_spell = word("climate_current_year_dry_spell");
+
+    this.tables = {
+      type: tables?.type ?? new StringTable(CELL_TYPES),
+      grass_type: tables?.grass_type ?? new StringTable(GRASS_SPECIES.map((species) => species.id)),
+      woody_type: tables?.woody_type ?? new StringTable(WOODY_SPECIES.map((species) => species.id)),
+      river_name: tables?.river_name ?? new StringTable(),
+      biome: tables?.biome ?? new StringTable(BIOMES),
+    };
+  }
+
+  /**
+   * All planes by name (typed arrays over shared memory, safe to post to workers)
+   */
+  getPlanes(): GridPlanes {
+    const planes = {} as GridPlanes;
+    for (const name of CELL_FIELDS as readonly PlaneName[]) {
+      planes[name] = this.plane(name);
+    }
+    return planes;
+  }
+
+  /**
+   * Climate accumulator planes, allocated on first use so snapshot buffers and
+   * worker views of the grid never carry them
+   */
+  getAccumulators(): AccumulatorPlanes {
+    if (!this.accumulators) {
+      const planes = {} as Record<AccumulatorPlane, Float32Array | Uint8Array | Uint16Array>;
+      for (const name of ACCUMULATOR_FLOAT_PLANES) planes[name] = new Float32Array(this.size);
+      for (const name of ACCUMULATOR_UINT8_PLANES) planes[name] = new Uint8Array(this.size);
+      for (const name of ACCUMULATOR_UINT16_PLANES) planes[name] = new Uint16Array(this.size);
+      this.accumulators = planes as AccumulatorPlanes;
+    }
+    return this.accumulators;
+  }
+
+  /**
+   * Contents of every string table (for saves and API metadata)
+   */
+  exportTables(): Record<StringTableName, string[]> {
+    const tables = {} as Record<StringTableName, string[]>;
+    for (const name of STRING_TABLES) {
+      tables[name] = this.tables[name].toArray();
+    }
+    return tables;
+  }
+
+  index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  /**
+   * Index of a cell with toroidal wrapping applied to the coordinates
+   */
+  wrapIndex(x: number, y: number): number {
+    const wrappedX = ((x % this.width) + this.width) % this.width;
+    const wrappedY = ((y % this.height) + this.height) % this.height;
+    return wrappedY * this.width + wrappedX;
+  }
+
+  xOf(index: number): number {
+    return index % this.width;
+  }
+
+  yOf(index: number): number {
+    return Math.floor(index / this.width);
+  }
+
+  /**
+   * Typed-array plane for a field
+   */
+  plane(name: PlaneName): Float32Array | Uint8Array | Uint16Array {
+    return this[name];
+  }
+
+  getType(index: number): string {
+    return this.tables.type.get(this.type[index]) ?? "rock";
+  }
+
+  setType(index: number, type: string): void {
+    this.type[index] = this.tables.type.intern(type);
+  }
+
+  getGrassType(index: number): string | undefined {
+    return this.tables.grass_type.get(this.grass_type[index]);
+  }
+
+  setGrassType(index: number, grassType: string | undefined): void {
+    this.grass_type[index] = this.tables.grass_type.intern(grassType);
+  }
+
+  getWoodyType(index: number): string | undefined {
+    return this.tables.woody_type.get(this.woody_type[index]);
+  }
+
+  setWoodyType(index: number, woodyType: string | undefined): void {
+    this.woody_type[index] = this.tables.woody_type.intern(woodyType);
+  }
+
+  getRiverName(index: number): string | undefined {
+    return this.tables.river_name.get(this.river_name[index]);
+  }
+
+  setRiverName(index: number, riverName: string | undefined): void {
+    const code = this.tables.river_name.intern(riverName);
+    // Codes past the plane's range would wrap onto other rivers
+    if (code > 0xffff) {
+      throw new Error(`River name table is full, cannot name a cell ${riverName}`);
+    }
+    this.river_name[index] = code;
+  }
+
+  getBiome(index: number): string | undefined {
+    return this.tables.biome.get(this.biome[index]);
+  }
+
+  /**
+   * Spring, river, lake or ocean cell
+   */
+  isWater(index: number): boolean {
+    const type = this.type[index];
+    return type === CellType.SPRING || type === CellType.RIVER || type === CellType.LAKE || type === CellType.OCEAN;
+  }
+
+  /**
+   * Read a single field of a cell (strings are resolved from their tables)
+   */
+  getValue(field: CellField, index: number): number | string | undefined {
+    if (CATEGORICAL_FIELDS.has(field)) {
+      return this.tables[field as StringTableName].get(this.plane(field as PlaneName)[index]);
+    }
+    return this.plane(field as PlaneName)[index];
+  }
+
+  /**
+   * Assemble a TerrainCell object (for API responses)
+   */
+  getCell(x: number, y: number): TerrainCell {
+    const i = this.index(x, y);
+    return {
+      x,
+      y,
+      altitude: this.altitude[i],
+      terrain_height: this.terrain_height[i],
+      water_height: this.water_height[i],
+      surface_flow: this.surface_flow[i],
+      distance_from_water: this.distance_from_water[i],
+      base_moisture: this.base_moisture[i],
+      added_moisture: this.added_moisture[i],
+      moisture: this.moisture[i],
+      temperature: this.temperature[i],
+      air_humidity: this.air_humidity[i],
+      cloud_density: this.cloud_density[i],
+      precipitation_rate: this.precipitation_rate[i],
+      ground_wetness: this.ground_wetness[i],
+      snow_depth: this.snow_depth[i],
+      frozen: this.frozen[i],
+      grass_density: this.grass_density[i],
+      grass_type: this.getGrassType(i),
+      grass_health: this.grass_health[i],
+      grass_dormant: this.grass_dormant[i],
+      woody_type: this.getWoodyType(i),
+      woody_cover: this.woody_cover[i],
+      woody_age: this.woody_age[i],
+      prey_density: this.prey_density[i],
+      predator_density: this.predator_density[i],
+      atmospheric_pressure: this.atmospheric_pressure[i],
+      wind_speed: this.wind_speed[i],
+      wind_direction: this.wind_direction[i],
+      type: this.getType(i),
+      river_name: this.getRiverName(i),
+      biome: this.getBiome(i),
+      climate_temperature: this.climate_temperature[i],
+      climate_precipitation: this.climate_precipitation[i],
+      climate_moisture: this.climate_moisture[i],
+      climate_month_rainfall: this.climate_month_rainfall[i],
+      climate_month_temp_min: this.climate_month_temp_min[i],
+      climate_month_temp_max: this.climate_month_temp_max[i],
+      climate_month_temp_mean: this.climate_month_temp_mean[i],
+      climate_year_rainfall: this.climate_year_rainfall[i],
+      climate_year_temp_min: this.climate_year_temp_min[i],
+      climate_year_temp_max: this.climate_year_temp_max[i],
+      climate_year_temp_mean: this.climate_year_temp_mean[i],
+      climate_month_frost_days: this.climate_month_frost_days[i],
+      climate_month_dry_spell: this.climate_month_dry_spell[i],
+      climate_year_frost_days: this.climate_year_frost_days[i],
+      climate_year_dry_spell: this.climate_year_dry_spell[i],
+      climate_current_month_rainfall: this.climate_current_month_rainfall[i],
+      climate_current_month_temp_min: this.climate_current_month_temp_min[i],
+      climate_current_month_temp_max: this.climate_current_month_temp_max[i],
+      climate_current_month_temp_mean: this.climate_current_month_temp_mean[i],
+      climate_current_year_rainfall: this.climate_current_year_rainfall[i],
+      climate_current_year_temp_min: this.climate_current_year_temp_min[i],
+      climate_current_year_temp_max: this.climate_current_year_temp_max[i],
+      climate_current_year_temp_mean: this.climate_current_year_temp_mean[i],
+      climate_current_month_frost_days: this.climate_current_month_frost_days[i],
+      climate_current_month_dry_spell: this.climate_current_month_dry_spell[i],
+      climate_current_year_frost_days: this.climate_current_year_frost_days[i],
+      climate_current_year_dry_spell: this.climate_current_year_dry_spell[i],
+    };
+  }
+
+  getCellAt(index: number): TerrainCell {
+    return this.getCell(this.xOf(index), this.yOf(index));
+  }
+
+  /**
+   * Evenly spaced resolution x resolution sample of the grid (minimaps)
+   */
+  sample(resolution: number): TerrainCell[][] {
+    const gridSize = this.width;
+    if (gridSize === 0) {
+      return [];
+    }
+    const clampedResolution = Math.max(1, Math.min(resolution, gridSize));
+    const samplingInterval = Math.max(1, Math.floor(gridSize / clampedResolution));
+    const rows: TerrainCell[][] = [];
+
+    for (let y = 0; y < clampedResolution; y += 1) {
+      const row: TerrainCell[] = [];
+      const sourceY = (y * samplingInterval) % gridSize;
+      for (let x = 0; x < clampedResolution; x += 1) {
+        const sourceX = (x * samplingInterval) % gridSize;
+        row.push(this.getCell(sourceX, sourceY));
+      }
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Materialize the whole grid as cell objects (expensive - full-world exports only)
+   */
+  toCells(): TerrainCell[][] {
+    const rows: TerrainCell[][] = [];
+    for (let y = 0; y < this.height; y++) {
+      const row: TerrainCell[] = [];
+      for (let x = 0; x < this.width; x++) {
+        row.push(this.getCell(x, y));
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+}
+
+/**
+ * Allocate a plane over a SharedArrayBuffer
+ */
+function sharedPlane<T extends Float32Array | Uint8Array | Uint16Array>(
+  Plane: { new (buffer: SharedArrayBuffer): T; BYTES_PER_ELEMENT: number },
+  size: number,
+  initial: number,
+): T {
+  const plane = new Plane(new SharedArrayBuffer(size * Plane.BYTES_PER_ELEMENT));
+  if (initial !== 0) plane.fill(initial);
+  return plane;
+}
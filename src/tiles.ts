@@ -0,0 +1,265 @@
+/**
+ * Multi-resolution map tiles
+ *
+ * Tiles follow the z/x/y scheme: at `maxZoom` one pixel is one cell, and each
+ * lower zoom level halves the resolution, so a pixel covers a
+ * `scale x scale` block of cells with `scale = 2^(maxZoom - z)`. Tile
+ * coordinates wrap around the world edges like /api/viewport, but no tile
+ * reaches past them: the last tile of a row or column is clipped to the world
+ * (narrower or shorter), and pixels on the edge cover only the cells inside it.
+ *
+ * A tile holds a single field, downsampled with:
+ * - mean / max for measurements
+ * - mode for categorical fields (`type`, `grass_type`, `woody_type`, `river_name`, `biome`)
+ *
+ * Tiles are encoded either as raw little-endian samples ("bin") in the plane's
+ * own element type, or as a 16-bit grayscale PNG ("png") where measurements are
+ * normalized to the world-wide value range of the field.
+ */
+import { deflateSync } from "node:zlib";
+import {
+  type TerrainGrid,
+  type PlaneName,
+  type StringTableName,
+  FLOAT_PLANES,
+  UINT8_PLANES,
+  UINT16_PLANES,
+  CATEGORICAL_FIELDS,
+} from "./terrainGrid";
+import { TILES_CONFIG } from "./config";
+
+export type TileAggregation = "mean" | "max" | "mode";
+export type TileFormat = "bin" | "png";
+export type TileDtype = "float32" | "uint8" | "uint16";
+
+export const TILE_FIELDS: readonly PlaneName[] = [...FLOAT_PLANES, ...UINT8_PLANES, ...UINT16_PLANES];
+
+export interface TileRequest {
+  field: PlaneName;
+  z: number;
+  x: number;
+  y: number;
+  agg: TileAggregation;
+}
+
+export interface Tile {
+  width: number;
+  height: number;
+  scale: number;
+  dtype: TileDtype;
+  data: Float32Array | Uint8Array | Uint16Array;
+}
+
+export function isTileField(field: string): field is PlaneName {
+  return (TILE_FIELDS as readonly string[]).includes(field);
+}
+
+export function isCategoricalField(field: PlaneName): field is StringTableName {
+  return CATEGORICAL_FIELDS.has(field);
+}
+
+export function getFieldDtype(field: PlaneName): TileDtype {
+  if ((UINT8_PLANES as readonly string[]).includes(field)) return "uint8";
+  if ((UINT16_PLANES as readonly string[]).includes(field)) return "uint16";
+  return "float32";
+}
+
+/**
+ * Zoom level at which one tile pixel is one cell
+ */
+export function getMaxZoom(gridSize: number): number {
+  return Math.max(0, Math.ceil(Math.log2(gridSize / TILES_CONFIG.TILE_SIZE)));
+}
+
+/**
+ * Number of tiles along each axis at a zoom level
+ */
+export function getTilesPerAxis(gridSize: number, z: number): number {
+  const scale = 2 ** (getMaxZoom(gridSize) - z);
+  return Math.ceil(gridSize / (TILES_CONFIG.TILE_SIZE * scale));
+}
+
+/**
+ * Render one tile of a field
+ */
+export function renderTile(terrain: TerrainGrid, request: TileRequest): Tile {
+  const { field, z, agg } = request;
+  const gridSize = terrain.width;
+  const size = TILES_CONFIG.TILE_SIZE;
+  const scale = 2 ** (getMaxZoom(gridSize) - z);
+  const tilesPerAxis = getTilesPerAxis(gridSize, z);
+
+  // Tile coordinates wrap like the world does
+  const tileX = ((request.x % tilesPerAxis) + tilesPerAxis) % tilesPerAxis;
+  const tileY = ((request.y % tilesPerAxis) + tilesPerAxis) % tilesPerAxis;
+  const originX = tileX * size * scale;
+  const originY = tileY * size * scale;
+  const width = Math.min(size, Math.ceil((gridSize - originX) / scale));
+  const height = Math.min(size, Math.ceil((gridSize - originY) / scale));
+
+  const plane = terrain.plane(field);
+  const dtype = getFieldDtype(field);
+  const data = dtype === "float32"
+    ? new Float32Array(width * height)
+    : dtype === "uint8" ? new Uint8Array(width * height) : new Uint16Array(width * height);
+
+  // Counts per code for mode; only the touched entries are reset between pixels
+  const counts = agg === "mode" ? new Uint32Array(dtype === "uint16" ? 65536 : 256) : null;
+  const touched: number[] = [];
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const cellX = originX + px * scale;
+      const cellY = originY + py * scale;
+      const blockWidth = Math.min(scale, gridSize - cellX);
+      const blockHeight = Math.min(scale, gridSize - cellY);
+      let sum = 0;
+      let max = -Infinity;
+      let bestCode = 0;
+      let bestCount = 0;
+
+      for (let dy = 0; dy < blockHeight; dy++) {
+        const rowStart = (cellY + dy) * gridSize;
+        for (let dx = 0; dx < blockWidth; dx++) {
+          const value = plane[rowStart + cellX + dx];
+
+          if (counts) {
+            if (counts[value] === 0) touched.push(value);
+            const count = ++counts[value];
+            // Ties go to the lowest code so results are stable
+            if (count > bestCount || (count === bestCount && value < bestCode)) {
+              bestCode = value;
+              bestCount = count;
+            }
+          } else {
+            sum += value;
+            if (value > max) max = value;
+          }
+        }
+      }
+
+      const pixel = py * width + px;
+      if (counts) {
+        data[pixel] = bestCode;
+        for (const code of touched) counts[code] = 0;
+        touched.length = 0;
+      } else {
+        data[pixel] = agg === "max" ? max : sum / (blockWidth * blockHeight);
+      }
+    }
+  }
+
+  return { width, height, scale, dtype, data };
+}
+
+/**
+ * Finite min/max of a field over the whole world (used to normalize PNG tiles)
+ */
+export function getFieldRange(terrain: TerrainGrid, field: PlaneName): { min: number; max: number } {
+  const plane = terrain.plane(field);
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (let i = 0; i < plane.length; i++) {
+    const value = plane[i];
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  return min <= max ? { min, max } : { min: 0, max: 0 };
+}
+
+/**
+ * Raw little-endian samples in the tile's element type
+ */
+export function encodeTileBinary(tile: Tile): Buffer {
+  const { data } = tile;
+  const bytes = Buffer.alloc(data.byteLength);
+
+  for (let i = 0; i < data.length; i++) {
+    if (tile.dtype === "float32") {
+      bytes.writeFloatLE(data[i], i * 4);
+    } else if (tile.dtype === "uint16") {
+      bytes.writeUInt16LE(data[i], i * 2);
+    } else {
+      bytes[i] = data[i];
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * 16-bit grayscale PNG. Categorical codes are written as-is; measurements are
+ * mapped from [min, max] onto 0-65535 (non-finite values become 0).
+ */
+export function encodeTilePng(tile: Tile, range: { min: number; max: number } | null): Buffer {
+  const { width, height, data } = tile;
+  const span = range ? range.max - range.min : 0;
+
+  // One filter byte (0 = none) per scanline, then big-endian samples
+  const raw = Buffer.alloc(height * (1 + width * 2));
+  let offset = 0;
+  for (let y = 0; y < height; y++) {
+    raw[offset++] = 0;
+    for (let x = 0; x < width; x++) {
+      let sample = data[y * width + x];
+      if (range) {
+        sample = Number.isFinite(sample) && span > 0
+          ? Math.round(((sample - range.min) / span) * 65535)
+          : 0;
+        sample = Math.min(65535, Math.max(0, sample));
+      }
+      raw.writeUInt16BE(sample, offset);
+      offset += 2;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 16; // bit depth
+  header[9] = 0; // color type: grayscale
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length, 0);
+  const typeAndBody = Buffer.concat([Buffer.from(type, "ascii"), body]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndBody), 0);
+  return Buffer.concat([length, typeAndBody, crc]);
+}
@@ -0,0 +1,29 @@
+/**
+ * Worker thread startup
+ *
+ * Under tsx (`npm run dev`) worker entry points are TypeScript sources, but
+ * worker threads do not inherit the tsx loader, so it is registered before the
+ * entry is imported. The production bundle emits every entry point as plain
+ * JavaScript next to dist/index.js.
+ */
+import { Worker, type WorkerOptions } from "node:worker_threads";
+
+/**
+ * True when this module runs from source (tsx) rather than from the bundle
+ */
+export const RUNNING_FROM_SOURCE = import.meta.url.endsWith(".ts");
+
+/**
+ * Start a worker on an entry module (a .ts source or a bundled .js file)
+ */
+export function createWorker(entry: URL, options: WorkerOptions = {}): Worker {
+  if (!entry.pathname.endsWith(".ts")) {
+    return new Worker(entry, options);
+  }
+
+  const source = JSON.stringify(entry.href);
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${source}); });`,
+    { ...options, eval: true },
+  );
+}
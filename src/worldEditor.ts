@@ -0,0 +1,181 @@
+/**
+ * World editing (terraforming)
+ *
+ * Applies brush edits to the live world - raising or lowering terrain,
+ * setting water height, painting grass - and places or removes springs.
+ * Brushes are circles that wrap around the world edges like every other
+ * grid operation. Terrain and water edits leave lakes and the ocean alone:
+ * their surface is owned by the LakeManager and sea level, so those cells
+ * are skipped and counted in the audit entry. Every applied edit is appended to the audit log on disk
+ * (one JSON object per line) and the most recent ones are kept in memory.
+ *
+ * Edits must run between ticks (SimulationLoop.runExclusive).
+ */
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { type IStorage } from "./storage";
+import { type TerrainGrid, CellType } from "./terrainGrid";
+import { EDITING_CONFIG } from "./config";
+
+export type BrushFalloff = "constant" | "linear" | "smooth";
+
+export const BRUSH_FALLOFFS: readonly BrushFalloff[] = ["constant", "linear", "smooth"];
+
+export type WorldEdit =
+  | { action: "terrain"; x: number; y: number; radius: number; delta: number; falloff: BrushFalloff }
+  | { action: "water"; x: number; y: number; radius: number; height: number }
+  | { action: "grass"; x: number; y: number; radius: number; species: string | null; density: number }
+  | { action: "addSpring"; x: number; y: number }
+  | { action: "removeSpring"; x: number; y: number };
+
+export interface AuditEntry {
+  timestamp: string;
+  tick: number;
+  user: string;
+  edit: WorldEdit;
+  cellsChanged: number;
+  cellsSkipped: number; // Brush cells the edit does not apply to
+}
+
+interface EditResult {
+  changed: number;
+  skipped: number;
+}
+
+export class WorldEditor {
+  private entries: AuditEntry[] = [];
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Apply an edit and record it; returns null (and records nothing) if the edit does not apply,
+   * e.g. placing a spring on water or removing a spring that is not there
+   */
+  async apply(edit: WorldEdit, user: string): Promise<AuditEntry | null> {
+    const terrain = await this.storage.getTerrainData();
+    const { changed: cellsChanged, skipped: cellsSkipped } = this.applyEdit(terrain, edit);
+    if (cellsChanged === 0) {
+      return null;
+    }
+
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      tick: this.storage.getSimulationEngine().getTickCount(),
+      user,
+      edit,
+      cellsChanged,
+      cellsSkipped,
+    };
+    this.entries.push(entry);
+    if (this.entries.length > EDITING_CONFIG.AUDIT_LOG_MEMORY_ENTRIES) {
+      this.entries.shift();
+    }
+
+    try {
+      await mkdir(dirname(EDITING_CONFIG.AUDIT_LOG_PATH), { recursive: true });
+      await appendFile(EDITING_CONFIG.AUDIT_LOG_PATH, JSON.stringify(entry) + "\n");
+    } catch (error) {
+      console.error("WorldEditor: Failed to write audit log:", error);
+    }
+    return entry;
+  }
+
+  /**
+   * Most recent edits, newest first
+   */
+  getEntries(limit: number): AuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+
+  private applyEdit(terrain: TerrainGrid, edit: WorldEdit): EditResult {
+    switch (edit.action) {
+      case "terrain":
+        return forEachInBrush(terrain, edit.x, edit.y, edit.radius, edit.falloff, (i, weight) => {
+          if (isWaterBody(terrain, i)) return false;
+
+          terrain.terrain_height[i] = Math.min(
+            EDITING_CONFIG.MAX_TERRAIN_HEIGHT,
+            Math.max(EDITING_CONFIG.MIN_TERRAIN_HEIGHT, terrain.terrain_height[i] + edit.delta * weight),
+          );
+          terrain.altitude[i] = terrain.terrain_height[i] + terrain.water_height[i];
+        });
+
+      case "water":
+        return forEachInBrush(terrain, edit.x, edit.y, edit.radius, "constant", (i) => {
+          if (isWaterBody(terrain, i)) return false;
+
+          terrain.water_height[i] = edit.height;
+          terrain.altitude[i] = terrain.terrain_height[i] + terrain.water_height[i];
+        });
+
+      case "grass":
+        return forEachInBrush(terrain, edit.x, edit.y, edit.radius, "constant", (i) => {
+          // Grass only grows on land
+          if (terrain.isWater(i)) return false;
+
+          terrain.setGrassType(i, edit.species ?? undefined);
+          terrain.grass_density[i] = edit.species ? edit.density : 0;
+          terrain.grass_health[i] = edit.species ? 0.8 : 0;
+          terrain.grass_dormant[i] = 0;
+        });
+
+      case "addSpring":
+        return { changed: this.storage.addSpring(edit.x, edit.y) ? 1 : 0, skipped: 0 };
+
+      case "removeSpring":
+        return { changed: this.storage.removeSpring(edit.x, edit.y) ? 1 : 0, skipped: 0 };
+    }
+  }
+}
+
+/**
+ * Visit every cell within `radius` of (x, y) with its falloff weight (1 at the center);
+ * the callback returns false for cells it skipped. Returns the number of cells changed and skipped.
+ */
+function forEachInBrush(
+  terrain: TerrainGrid,
+  x: number,
+  y: number,
+  radius: number,
+  falloff: BrushFalloff,
+  apply: (index: number, weight: number) => boolean | void,
+): EditResult {
+  // A brush wider than the world would visit cells twice
+  const r = Math.min(radius, Math.floor((Math.min(terrain.width, terrain.height) - 1) / 2));
+  let changed = 0;
+  let skipped = 0;
+
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > r) continue;
+
+      const weight = getFalloffWeight(falloff, r === 0 ? 0 : distance / r);
+      if (apply(terrain.wrapIndex(x + dx, y + dy), weight) !== false) {
+        changed++;
+      } else {
+        skipped++;
+      }
+    }
+  }
+  return { changed, skipped };
+}
+
+/**
+ * Lake or ocean cell, whose water surface edits must not touch
+ */
+function isWaterBody(terrain: TerrainGrid, index: number): boolean {
+  const type = terrain.type[index];
+  return type === CellType.LAKE || type === CellType.OCEAN;
+}
+
+function getFalloffWeight(falloff: BrushFalloff, t: number): number {
+  switch (falloff) {
+    case "constant":
+      return 1;
+    case "linear":
+      return 1 - t;
+    case "smooth":
+      return 0.5 * (1 + Math.cos(Math.PI * t));
+  }
+}
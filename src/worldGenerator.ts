@@ -1,5 +1,7 @@
-import { type TerrainCell, type TerrainGrid } from "./schema";
-import { type WorldConfig, DEFAULT_WORLD_CONFIG } from "./config";
+import { TerrainGrid, CellType } from "./terrainGrid";
+import { type WorldConfig, DEFAULT_WORLD_CONFIG, WATER_BODY_CONFIG, WEATHER_CONFIG } from "./config";
+import { GridHelper } from "./systems/GridHelper";
+import { SeededRandom } from "./random";
 
 /**
  * Wrapping Perlin Noise implementation for seamless circular world generation
@@ -8,12 +10,17 @@ class WrappingPerlinNoise {
     private perm: number[];
     private gradients: Array<[number, number]>;
 
-    constructor() {
+    constructor(random: SeededRandom) {
         this.perm = new Array(512);
         const permutation = new Array(256)
             .fill(0)
-            .map((_, i) => i)
-            .sort(() => Math.random() - 0.5);
+            .map((_, i) => i);
+
+        // Fisher-Yates shuffle driven by the world's seeded generator
+        for (let i = permutation.length - 1; i > 0; i--) {
+            const j = random.nextInt(i + 1);
+            [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+        }
 
         for (let i = 0; i < 512; i++) {
             this.perm[i] = permutation[i & 255];
@@ -195,10 +202,12 @@ class WrappingPerlinNoise {
 export class WorldGenerator {
     private perlin: WrappingPerlinNoise;
     private config: WorldConfig;
+    private random: SeededRandom;
 
-    constructor(config: WorldConfig = DEFAULT_WORLD_CONFIG) {
-        this.perlin = new WrappingPerlinNoise();
+    constructor(config: WorldConfig = DEFAULT_WORLD_CONFIG, random: SeededRandom = new SeededRandom(config.seed)) {
         this.config = config;
+        this.random = random;
+        this.perlin = new WrappingPerlinNoise(this.random);
     }
 
     private mapHeight(value: number): number {
@@ -208,65 +217,81 @@ export class WorldGenerator {
 
     generateTerrain(): TerrainGrid {
         const { gridSize } = this.config;
+        const noiseScale = this.config.noiseScale || gridSize * gridSize / 1000000;
 
-        const terrain: TerrainGrid = Array(gridSize)
-            .fill(null)
-            .map(() => Array(gridSize).fill(null));
+        const terrain = new TerrainGrid(gridSize, gridSize);
+        terrain.atmospheric_pressure.fill(WEATHER_CONFIG.BASE_PRESSURE);
 
         for (let y = 0; y < gridSize; y++) {
             for (let x = 0; x < gridSize; x++) {
-                const noiseVal = this.perlin.wrappingNoise(
-                    x,
-                    y,
-                    gridSize,
-                    gridSize * gridSize / 1000000
-                );
+                const noiseVal = this.perlin.wrappingNoise(x, y, gridSize, noiseScale);
                 const mappedHeight = this.mapHeight(noiseVal);
 
-                const cell: TerrainCell = {
-                    x,
-                    y,
-                    terrain_height: mappedHeight,
-                    water_height: 0,
-                    altitude: mappedHeight,
-                    base_moisture: 0,
-                    added_moisture: 0,
-                    moisture: 0,
-                    temperature: 0,
-                    air_humidity: 0,
-                    cloud_density: 0,
-                    precipitation_rate: 0,
-                    ground_wetness: 0,
-                    grass_density: 0,
-                    grass_type: undefined,
-                    grass_health: 0,
-                    grass_dormant: 0,
-                    atmospheric_pressure: undefined,
-                    wind_speed: undefined,
-                    wind_direction: undefined,
-                    type: "rock",
-                    distance_from_water: Infinity,
-                    river_name: undefined,
-                };
-
-                terrain[y][x] = cell;
+                // Every other plane starts at its default (dry rock, no grass, calm air)
+                const i = terrain.index(x, y);
+                terrain.terrain_height[i] = mappedHeight;
+                terrain.altitude[i] = mappedHeight;
             }
         }
 
+        this.floodOcean(terrain);
+
         return terrain;
     }
 
+    /**
+     * Flood connected terrain below sea level into ocean.
+     * Basins smaller than MIN_OCEAN_CELLS are left dry (rivers may fill them as lakes later).
+     */
+    floodOcean(terrain: TerrainGrid): number {
+        const { seaLevel } = this.config;
+        const visited = new Uint8Array(terrain.size);
+        let oceanCells = 0;
+
+        for (let start = 0; start < terrain.size; start++) {
+            if (visited[start] || terrain.terrain_height[start] >= seaLevel) continue;
+
+            // Collect the connected below-sea-level basin
+            const basin = [start];
+            visited[start] = 1;
+            for (let head = 0; head < basin.length; head++) {
+                const cell = basin[head];
+                for (const neighbor of GridHelper.getCardinalNeighbors(terrain, terrain.xOf(cell), terrain.yOf(cell))) {
+                    if (!visited[neighbor] && terrain.terrain_height[neighbor] < seaLevel) {
+                        visited[neighbor] = 1;
+                        basin.push(neighbor);
+                    }
+                }
+            }
+
+            if (basin.length < WATER_BODY_CONFIG.MIN_OCEAN_CELLS) continue;
+
+            for (const cell of basin) {
+                terrain.type[cell] = CellType.OCEAN;
+                terrain.water_height[cell] = seaLevel - terrain.terrain_height[cell];
+                terrain.altitude[cell] = seaLevel;
+                terrain.base_moisture[cell] = 1;
+                terrain.moisture[cell] = 1;
+                terrain.distance_from_water[cell] = 0;
+            }
+            oceanCells += basin.length;
+        }
+
+        console.log(`🌊 Flooded ${oceanCells} cells below sea level (${seaLevel}m) into ocean`);
+        return oceanCells;
+    }
+
     selectSpringPoints(terrain: TerrainGrid): { x: number; y: number }[] {
         const springs: { x: number; y: number }[] = [];
         const candidates: { x: number; y: number }[] = [];
 
         const { springMinHeight, springMaxHeight } = this.config;
 
-        const numberOfSprings = Math.floor((this.config.gridSize / 100) * 2);
+        const numberOfSprings = this.config.numberOfSprings || Math.floor((this.config.gridSize / 100) * 2);
 
-        for (let y = 0; y < terrain.length; y++) {
-            for (let x = 0; x < terrain[0].length; x++) {
-                const height = terrain[y][x].terrain_height;
+        for (let y = 0; y < terrain.height; y++) {
+            for (let x = 0; x < terrain.width; x++) {
+                const height = terrain.terrain_height[terrain.index(x, y)];
                 if (height >= springMinHeight && height <= springMaxHeight) {
                     candidates.push({ x, y });
                 }
@@ -275,16 +300,16 @@ export class WorldGenerator {
 
         // Calculate minimum distance between springs based on map size and desired spring count
         // This ensures springs are well-distributed across the map
-        const mapArea = terrain.length * terrain[0].length;
+        const mapArea = terrain.size;
         const minDistance = Math.floor(Math.sqrt(mapArea / numberOfSprings) * 0.6);
 
-        const mapWidth = terrain[0].length;
-        const mapHeight = terrain.length;
+        const mapWidth = terrain.width;
+        const mapHeight = terrain.height;
 
         // Try to place springs with minimum distance constraint
         // numberOfSprings is treated as a maximum - we may place fewer if candidates run out
         while (springs.length < numberOfSprings && candidates.length > 0) {
-            const idx = Math.floor(Math.random() * candidates.length);
+            const idx = this.random.nextInt(candidates.length);
             const candidate = candidates[idx];
 
             // Check if this candidate is far enough from all existing springs
@@ -318,7 +343,10 @@ export class WorldGenerator {
         return springs;
     }
 
+    /**
+     * Rebuild the noise permutation from the generator's current random state
+     */
     regenerate(): void {
-        this.perlin = new WrappingPerlinNoise();
+        this.perlin = new WrappingPerlinNoise(this.random);
     }
 }